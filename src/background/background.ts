@@ -1,14 +1,40 @@
 import { ConnectionManager } from '../lib/connectionManager';
 import { Logger } from '../lib/logger';
 import { BaseMessage, ExtensionMessage, MessagePayloads, TabInfo } from '../types/messages';
-import { Context } from '../types/types';
+import {
+  CaptureRect,
+  CaptureTarget,
+  Context,
+  FrameInfo,
+  FramePlacement,
+  PageMetrics,
+  PatchResult,
+  ScrollPosition,
+} from '../types/types';
+import { isTabContext, parseFrameContext } from '../utils/context';
+import {
+  calculateCropRegion,
+  cropImage,
+  getImageSize,
+  ImageFrame,
+  intersectRects,
+  MAX_CANVAS_DIMENSION,
+  stitchImages,
+} from '../utils/imageProcessing';
+
+// captureVisibleTab quota (chrome.tabs.MAX_CAPTURE_VISIBLE_TAB_CALLS_PER_SECOND)
+const MAX_CAPTURE_CALLS_PER_SECOND = 2;
+// Minimum interval between two captureVisibleTab calls, with some margin for the quota
+const CAPTURE_INTERVAL_MS = 1000 / MAX_CAPTURE_CALLS_PER_SECOND + 50;
 
 class BackgroundService {
   private connectionManager: ConnectionManager;
   private logger: Logger;
   private activeTabInfo: TabInfo | null = null;
-  private contentScriptContext: Context = 'undefined';
   private readonly ports = new Map<string, chrome.runtime.Port>();
+  private lastCaptureTime = 0;
+  // Patches applied in each frame of each tab, shown on the action badge
+  private readonly appliedPatches = new Map<number, Map<number, PatchResult[]>>();
   private readonly RESTRICTED_PATTERNS = [
     'chrome://',
     'chrome-extension://',
@@ -74,6 +100,25 @@ class BackgroundService {
       }
     });
 
+    // Tell content scripts which tab and frame they run in
+    chrome.runtime.onMessage.addListener((message, sender, sendResponse) => {
+      if (message.type === 'GET_FRAME_INFO' && sender.tab?.id !== undefined) {
+        sendResponse({ tabId: sender.tab.id, frameId: sender.frameId ?? 0 } as FrameInfo);
+      }
+      if (message.type === 'PATCHES_APPLIED' && sender.tab?.id !== undefined) {
+        this.updatePatchBadge(sender.tab.id, sender.frameId ?? 0, message.results);
+      }
+      return false;
+    });
+
+    // The frames of a page that starts loading report their patches again
+    chrome.tabs.onUpdated.addListener((tabId, changeInfo) => {
+      if (changeInfo.status === 'loading') this.appliedPatches.delete(tabId);
+    });
+    chrome.tabs.onRemoved.addListener((tabId) => {
+      this.appliedPatches.delete(tabId);
+    });
+
     // Monitor connections
     chrome.runtime.onConnect.addListener((port) => {
       this.logger.debug('Port connected:', port.name);
@@ -91,6 +136,14 @@ class BackgroundService {
           // Forward messages between content script and side panel
           this.logger.debug('Forwarding message:', message);
           targetPort?.postMessage(message);
+        } else if (isTabContext(message.target)) {
+          // Forward messages for a tab to the content scripts of all its frames
+          this.logger.debug('Broadcasting message to frames:', message);
+          this.ports.forEach((framePort, name) => {
+            if (name.startsWith(`${message.target}-`)) {
+              framePort.postMessage({ ...message, target: name });
+            }
+          });
         }
       });
 
@@ -98,6 +151,34 @@ class BackgroundService {
     });
   }
 
+  // Show the number of patches active in a tab on the badge, and their names in the title
+  private async updatePatchBadge(tabId: number, frameId: number, results: PatchResult[]) {
+    const frames = this.appliedPatches.get(tabId) ?? new Map<number, PatchResult[]>();
+    frames.set(frameId, results);
+    this.appliedPatches.set(tabId, frames);
+
+    const all = Array.from(frames.values()).flat();
+    const names = Array.from(new Set(all.map((result) => result.name)));
+    const unresolved = all.reduce((count, result) => count + result.unresolved.length, 0);
+
+    try {
+      await chrome.action.setBadgeText({ tabId, text: names.length > 0 ? `${names.length}` : '' });
+      await chrome.action.setTitle({
+        tabId,
+        title: [
+          chrome.runtime.getManifest().action?.default_title ?? '',
+          ...names.map((name) => chrome.i18n.getMessage('badgeTitlePatch', [name])),
+          unresolved > 0 ? chrome.i18n.getMessage('badgeTitleUnresolved', [`${unresolved}`]) : '',
+        ]
+          .filter(Boolean)
+          .join('\n'),
+      });
+    } catch (error) {
+      // The tab may have been closed in the meantime
+      this.logger.debug('Failed to update the patch badge:', error);
+    }
+  }
+
   private handlePortDisconnection = async (port: chrome.runtime.Port) => {
     this.logger.debug('Port disconnected:', port.name);
 
@@ -138,25 +219,21 @@ class BackgroundService {
 
     if (!isAllowed) {
       this.logger.info('Script injection not allowed for this URL:', tab.url);
-      this.contentScriptContext = 'undefined';
       return;
     }
 
     try {
       // Check if content script is already injected
-      await chrome.tabs.sendMessage(tab.id, { type: 'PING' });
+      await chrome.tabs.sendMessage(tab.id, { type: 'PING' }, { frameId: 0 });
     } catch (error: any) {
       // Inject only if allowed and not already injected
       if (error.toString().includes('Could not establish connection')) {
         await chrome.scripting.executeScript({
-          target: { tabId: tab.id },
+          target: { tabId: tab.id, allFrames: true },
           files: ['contentScript.js'],
         });
       }
     }
-
-    // Set the context for the content script in the active tab
-    this.contentScriptContext = `content-${tab.id}`;
   }
 
   private async setupSidepanel(): Promise<void> {
@@ -196,35 +273,45 @@ class BackgroundService {
     // to keep the flow of messages consistent and avoid port disconnection issues.
     switch (message.type) {
       case 'CAPTURE_TAB': {
-        this.handleCaptureTab(port, message.source);
+        const payload = message.payload as MessagePayloads['CAPTURE_TAB'];
+        this.handleCaptureTab(port, message.source, payload);
         break;
       }
       case 'EXECUTE_SCRIPT': {
         const payload = message.payload as MessagePayloads['EXECUTE_SCRIPT'];
-        this.handleExecuteScript(port, payload);
+        this.handleExecuteScript(port, message.source, payload);
         break;
       }
     }
   };
 
   // Capture the active tab and send the image data to the sidepanel
-  private async handleCaptureTab(port: chrome.runtime.Port, source: Context): Promise<void> {
-    this.logger.info('Received CAPTURE_TAB message');
+  private async handleCaptureTab(
+    port: chrome.runtime.Port,
+    source: Context,
+    options: MessagePayloads['CAPTURE_TAB']
+  ): Promise<void> {
+    this.logger.info('Received CAPTURE_TAB message', options);
     try {
       if (!this.activeTabInfo) {
         throw new Error('No active tab found');
       }
 
-      const windowId = this.activeTabInfo.windowId;
-      const imageDataUrl = await chrome.tabs.captureVisibleTab(windowId, {
-        format: 'png',
-        quality: 100,
-      });
+      const imageDataUrl = options.hideHighlights
+        ? await this.captureWithoutHighlights(this.activeTabInfo, options)
+        : await this.capture(this.activeTabInfo, options);
+      const { width, height } = await getImageSize(imageDataUrl);
 
-      this.logger.info('Tab captured successfully');
+      this.logger.info('Tab captured successfully', { mode: options.mode, width, height });
       this.sendMessage(source, port, {
         type: 'CAPTURE_TAB_RESULT',
-        payload: { success: true, imageDataUrl, url: this.activeTabInfo.url ?? null },
+        payload: {
+          success: true,
+          imageDataUrl,
+          url: this.activeTabInfo.url ?? null,
+          width,
+          height,
+        },
       });
     } catch (error) {
       this.logger.info('Failed to capture tab:', error);
@@ -240,13 +327,249 @@ class BackgroundService {
     }
   }
 
-  // Execute the provided script in the active tab
+  // Ask the content scripts to hide their highlights for the duration of the capture
+  private async captureWithoutHighlights(
+    tabInfo: TabInfo,
+    options: MessagePayloads['CAPTURE_TAB']
+  ): Promise<string> {
+    await this.setHighlightsSuspended(tabInfo.tabId, options.frameId, true);
+    try {
+      return await this.capture(tabInfo, options);
+    } finally {
+      await this.setHighlightsSuspended(tabInfo.tabId, options.frameId, false);
+    }
+  }
+
+  // Highlights are drawn in the top frame and in the frame holding the selection
+  private async setHighlightsSuspended(
+    tabId: number,
+    frameId: number,
+    suspended: boolean
+  ): Promise<void> {
+    const type = suspended ? 'SUSPEND_HIGHLIGHTS' : 'RESUME_HIGHLIGHTS';
+    const frameIds = Array.from(new Set([0, frameId]));
+    await Promise.all(
+      frameIds.map((id) => chrome.tabs.sendMessage(tabId, { type }, { frameId: id }))
+    );
+  }
+
+  private async capture(
+    tabInfo: TabInfo,
+    options: MessagePayloads['CAPTURE_TAB']
+  ): Promise<string> {
+    switch (options.mode) {
+      case 'element':
+        return this.captureElement(tabInfo, options.frameId, options.padding);
+      case 'fullElement':
+        if (options.frameId !== 0) {
+          // Scrolling segments are measured on the top frame only
+          this.logger.warn('Full element capture is not supported in frames, cropping instead');
+          return this.captureElement(tabInfo, options.frameId, options.padding);
+        }
+        return this.captureFullElement(tabInfo, options.padding);
+      case 'fullPage':
+        return this.captureFullPage(tabInfo);
+      default:
+        return this.captureViewport(tabInfo.windowId);
+    }
+  }
+
+  // Capture the visible area, waiting as needed to stay within the captureVisibleTab quota
+  private async captureViewport(windowId: number): Promise<string> {
+    const wait = this.lastCaptureTime + CAPTURE_INTERVAL_MS - Date.now();
+    if (wait > 0) {
+      await new Promise((resolve) => setTimeout(resolve, wait));
+    }
+
+    try {
+      return await chrome.tabs.captureVisibleTab(windowId, {
+        format: 'png',
+        quality: 100,
+      });
+    } finally {
+      this.lastCaptureTime = Date.now();
+    }
+  }
+
+  // Capture the viewport and crop it to the element selected in the content script
+  private async captureElement(
+    tabInfo: TabInfo,
+    frameId: number,
+    padding: number
+  ): Promise<string> {
+    const target = await this.getCaptureTarget(tabInfo.tabId, frameId);
+    const rect = await this.toTopFrameRect(tabInfo.tabId, frameId, target);
+
+    const imageDataUrl = await this.captureViewport(tabInfo.windowId);
+    const { width, height } = await getImageSize(imageDataUrl);
+    const region = calculateCropRegion(rect, target.devicePixelRatio, width, height, padding);
+
+    if (region.width === 0 || region.height === 0) {
+      throw new Error('Selected element is not visible in the viewport');
+    }
+
+    this.logger.debug('Cropping capture to element', { target, region });
+    return cropImage(imageDataUrl, region);
+  }
+
+  // Capture the whole page from the top, at the current horizontal scroll position
+  private async captureFullPage(tabInfo: TabInfo): Promise<string> {
+    const metrics = await this.getPageMetrics(tabInfo.tabId);
+    return this.captureRegion(tabInfo, metrics, {
+      x: metrics.scrollX,
+      y: 0,
+      width: metrics.viewportWidth,
+      height: metrics.scrollHeight,
+    });
+  }
+
+  // Capture the selected element in full, even when it is larger than the viewport
+  private async captureFullElement(tabInfo: TabInfo, padding: number): Promise<string> {
+    const target = await this.getCaptureTarget(tabInfo.tabId, 0);
+    const metrics = await this.getPageMetrics(tabInfo.tabId);
+    const documentRect = intersectRects(
+      {
+        x: target.rect.x + target.scroll.x - padding,
+        y: target.rect.y + target.scroll.y - padding,
+        width: target.rect.width + padding * 2,
+        height: target.rect.height + padding * 2,
+      },
+      { x: 0, y: 0, width: metrics.scrollWidth, height: metrics.scrollHeight }
+    );
+    if (!documentRect) {
+      throw new Error('Selected element has no visible area');
+    }
+
+    return this.captureRegion(tabInfo, metrics, documentRect);
+  }
+
+  private async getCaptureTarget(tabId: number, frameId: number): Promise<CaptureTarget> {
+    const target: CaptureTarget | null = await chrome.tabs.sendMessage(
+      tabId,
+      { type: 'GET_CAPTURE_TARGET' },
+      { frameId }
+    );
+    if (!target) {
+      throw new Error('No element selected');
+    }
+    return target;
+  }
+
+  // Translate the rectangle of an element in a frame to the viewport of the top frame
+  private async toTopFrameRect(
+    tabId: number,
+    frameId: number,
+    target: CaptureTarget
+  ): Promise<CaptureRect> {
+    let rect: CaptureRect | null = target.rect;
+    let childFrameId = frameId;
+    let parentFrameId = target.parentFrameId;
+
+    while (parentFrameId !== undefined) {
+      const placement: FramePlacement | null = await chrome.tabs.sendMessage(
+        tabId,
+        { type: 'GET_FRAME_PLACEMENT', frameId: childFrameId },
+        { frameId: parentFrameId }
+      );
+      if (!placement) {
+        throw new Error('Frame of the selected element not found');
+      }
+
+      // Keep only the part of the element visible through the iframe
+      rect = intersectRects(
+        { ...rect, x: rect.x + placement.rect.x, y: rect.y + placement.rect.y },
+        placement.rect
+      );
+      if (!rect) {
+        throw new Error('Selected element is not visible in the viewport');
+      }
+      childFrameId = parentFrameId;
+      parentFrameId = placement.parentFrameId;
+    }
+
+    return rect;
+  }
+
+  private async getPageMetrics(tabId: number): Promise<PageMetrics> {
+    return chrome.tabs.sendMessage(tabId, { type: 'GET_PAGE_METRICS' }, { frameId: 0 });
+  }
+
+  // Scroll a document region through the viewport in segments and stitch the visible parts
+  private async captureRegion(
+    tabInfo: TabInfo,
+    metrics: PageMetrics,
+    region: CaptureRect
+  ): Promise<string> {
+    const { devicePixelRatio: ratio, viewportWidth, viewportHeight } = metrics;
+
+    // Limit the region to what a canvas can hold
+    const maxSize = Math.floor(MAX_CANVAS_DIMENSION / ratio);
+    const bounds: CaptureRect = {
+      ...region,
+      width: Math.min(region.width, maxSize),
+      height: Math.min(region.height, maxSize),
+    };
+    if (bounds.width < region.width || bounds.height < region.height) {
+      this.logger.warn('Capture region is too large, truncating', { region, maxSize });
+    }
+
+    const frames: ImageFrame[] = [];
+    try {
+      for (let top = bounds.y; top < bounds.y + bounds.height; top += viewportHeight) {
+        for (let left = bounds.x; left < bounds.x + bounds.width; left += viewportWidth) {
+          const position: ScrollPosition = await chrome.tabs.sendMessage(
+            tabInfo.tabId,
+            { type: 'SCROLL_TO', position: { x: left, y: top } },
+            { frameId: 0 }
+          );
+
+          // The browser may clamp the scroll position, so crop to what is actually visible
+          const visible = intersectRects(bounds, {
+            ...position,
+            width: viewportWidth,
+            height: viewportHeight,
+          });
+          if (!visible) continue;
+
+          const dataUrl = await this.captureViewport(tabInfo.windowId);
+          frames.push({
+            dataUrl,
+            x: Math.round((visible.x - bounds.x) * ratio),
+            y: Math.round((visible.y - bounds.y) * ratio),
+            source: calculateCropRegion(
+              { ...visible, x: visible.x - position.x, y: visible.y - position.y },
+              ratio,
+              Math.round(viewportWidth * ratio),
+              Math.round(viewportHeight * ratio)
+            ),
+          });
+        }
+      }
+    } finally {
+      // Restore the scroll position the user had before the capture
+      await chrome.tabs.sendMessage(
+        tabInfo.tabId,
+        { type: 'SCROLL_TO', position: { x: metrics.scrollX, y: metrics.scrollY } },
+        { frameId: 0 }
+      );
+    }
+
+    this.logger.debug('Stitching capture segments', { frames: frames.length, bounds });
+    return stitchImages(
+      frames,
+      Math.round(bounds.width * ratio),
+      Math.round(bounds.height * ratio)
+    );
+  }
+
+  // Execute the provided script in the frame of the requesting content script
   private async handleExecuteScript(
     port: chrome.runtime.Port,
+    source: Context,
     params: { script: string } | { url: string }
   ): Promise<void> {
-    const tabId = this.activeTabInfo?.tabId;
-    if (!tabId) return;
+    const frame = parseFrameContext(source);
+    if (!frame) return;
 
     if (('script' in params && 'url' in params) || (!('script' in params) && !('url' in params)))
       return;
@@ -258,7 +581,7 @@ class BackgroundService {
       }
 
       await chrome.scripting.executeScript({
-        target: { tabId },
+        target: { tabId: frame.tabId, frameIds: [frame.frameId] },
         world: 'MAIN', // Use the main world for script execution
         args: [script],
         func: (scriptContent: string) => {
@@ -275,13 +598,13 @@ class BackgroundService {
       });
 
       this.logger.info('Script executed successfully');
-      this.sendMessage(this.contentScriptContext, port, {
+      this.sendMessage(source, port, {
         type: 'EXECUTE_SCRIPT_RESULT',
         payload: { success: true },
       });
     } catch (error) {
       this.logger.error('Failed to execute script:', error);
-      this.sendMessage(this.contentScriptContext, port, {
+      this.sendMessage(source, port, {
         type: 'EXECUTE_SCRIPT_RESULT',
         payload: {
           success: false,
@@ -0,0 +1,262 @@
+/**
+ * @jest-environment jsdom
+ */
+import { BaseMessage, MessagePayloads } from '../../types/messages';
+import { ElementInfo, Patch } from '../../types/types';
+import { getFrameContext } from '../../utils/context';
+import { getElementPath, getElementStartTag } from '../../utils/domSelection';
+import { createElementLocator } from '../../utils/elementLocator';
+
+// nanoid is published as an ES module only, which Jest does not transform
+jest.mock('nanoid', () => {
+  let count = 0;
+  return { nanoid: () => `id-${++count}` };
+});
+jest.mock('../../lib/logger', () => ({
+  Logger: class {
+    debug() {}
+    info() {}
+    warn() {}
+    error() {}
+  },
+}));
+
+// The content script runs in a page of tab 1, connected to the side panel through a fake port
+const portListeners: ((message: BaseMessage) => void)[] = [];
+const posted: BaseMessage[] = [];
+let runtimeListener: (message: { type: string }, sender: unknown, respond: () => void) => void;
+let patches: Patch[] = [];
+
+(global as any).chrome = {
+  runtime: {
+    onMessage: { addListener: (listener: typeof runtimeListener) => (runtimeListener = listener) },
+    sendMessage: async (message: { type: string }) =>
+      message.type === 'GET_FRAME_INFO' ? { tabId: 1, frameId: 0 } : undefined,
+    connect: () => ({
+      postMessage: (message: BaseMessage) => posted.push(message),
+      onMessage: {
+        addListener: (listener: (message: BaseMessage) => void) => portListeners.push(listener),
+      },
+      onDisconnect: { addListener: () => {}, removeListener: () => {} },
+      disconnect: () => {},
+    }),
+  },
+  storage: {
+    local: {
+      get: async (key: string) =>
+        key === 'activeTabInfo'
+          ? { activeTabInfo: { tabId: 1, isScriptInjectionAllowed: true } }
+          : { patches },
+      onChanged: { addListener: () => {} },
+    },
+  },
+  i18n: { getMessage: (key: string) => key },
+};
+// Layout APIs jsdom does not have, used by the highlight overlay
+(global as any).ResizeObserver = class {
+  observe() {}
+  unobserve() {}
+  disconnect() {}
+};
+(global as any).DOMRect = class {
+  constructor(
+    public x = 0,
+    public y = 0,
+    public width = 0,
+    public height = 0
+  ) {}
+};
+
+const flush = () => new Promise((resolve) => setTimeout(resolve, 0));
+
+const send = async <K extends keyof MessagePayloads>(type: K, payload: MessagePayloads[K]) => {
+  const message = {
+    type,
+    payload,
+    source: 'sidepanel',
+    target: getFrameContext(1, 0),
+    timestamp: Date.now(),
+  } as BaseMessage;
+  portListeners.forEach((listener) => listener(message));
+  await flush();
+};
+
+// The content script replies to RUN_COMMAND with COMMAND_RESULT under the same ID
+const runCommand = async (id: string, command: MessagePayloads['RUN_COMMAND']['command']) => {
+  await send('RUN_COMMAND', { id, command });
+  const result = posted.find(
+    (message) =>
+      message.type === 'COMMAND_RESULT' &&
+      (message.payload as MessagePayloads['COMMAND_RESULT']).id === id
+  );
+  return result?.payload as MessagePayloads['COMMAND_RESULT'] | undefined;
+};
+
+const describeElement = (element: HTMLElement): ElementInfo => ({
+  startTag: getElementStartTag(element),
+  path: getElementPath(element),
+  locator: createElementLocator(element),
+  children: [],
+});
+
+beforeAll(async () => {
+  require('../contentScript');
+  await flush();
+  await flush();
+});
+
+beforeEach(() => {
+  document.body.innerHTML = '<h1 id="title">Title</h1><p>Text</p>';
+  posted.length = 0;
+  patches = [];
+});
+
+describe('RUN_COMMAND', () => {
+  test('should report that the command was made', async () => {
+    const title = document.getElementById('title') as HTMLElement;
+    const result = await runCommand('style', {
+      type: 'UPDATE_ELEMENT_STYLE',
+      payload: { property: 'color', value: 'red', targets: [describeElement(title)] },
+    });
+
+    expect(result).toMatchObject({ id: 'style', success: true });
+    expect(title.style.color).toBe('red');
+  });
+
+  test('should report that the command failed when its target is gone', async () => {
+    const title = document.getElementById('title') as HTMLElement;
+    const target = describeElement(title);
+    title.remove();
+
+    const result = await runCommand('missing', {
+      type: 'UPDATE_ELEMENT_STYLE',
+      payload: { property: 'color', value: 'red', targets: [target] },
+    });
+    expect(result).toEqual({ id: 'missing', success: false });
+  });
+
+  test('should report that a structure edit to revert is unknown', async () => {
+    const result = await runCommand('structure', {
+      type: 'REVERT_STRUCTURE_EDIT',
+      payload: { id: 'unknown' },
+    });
+    expect(result).toEqual({ id: 'structure', success: false });
+  });
+});
+
+describe('undo history targets', () => {
+  // Runs a command the way the side panel does, keeping the targets the page reports
+  const runAndDescribe = async (
+    id: string,
+    command: MessagePayloads['RUN_COMMAND']['command']
+  ): Promise<ElementInfo[]> => {
+    const result = await runCommand(id, command);
+    expect(result?.success).toBe(true);
+    return result?.targets ?? [];
+  };
+
+  test('should undo and redo a text edit of an element found by its text', async () => {
+    const paragraph = document.querySelector('p') as HTMLElement;
+    let targets = [describeElement(paragraph)];
+
+    targets = await runAndDescribe('apply', {
+      type: 'UPDATE_ELEMENT_TEXT',
+      payload: { text: 'Edited', targets },
+    });
+    expect(paragraph.textContent).toBe('Edited');
+
+    targets = await runAndDescribe('undo', {
+      type: 'UPDATE_ELEMENT_TEXT',
+      payload: { text: ['Text'], targets },
+    });
+    expect(paragraph.textContent).toBe('Text');
+
+    await runAndDescribe('redo', {
+      type: 'UPDATE_ELEMENT_TEXT',
+      payload: { text: 'Edited', targets },
+    });
+    expect(paragraph.textContent).toBe('Edited');
+  });
+
+  test('should undo and redo an ID edit on the element that has the same text as another', async () => {
+    document.body.innerHTML = '<p>Same</p><p id="first">Same</p>';
+    const paragraph = document.getElementById('first') as HTMLElement;
+    let targets = [describeElement(paragraph)];
+
+    targets = await runAndDescribe('apply', {
+      type: 'UPDATE_ELEMENT_ATTRIBUTE',
+      payload: { name: 'id', value: 'second', targets },
+    });
+    expect(targets[0].locator?.attributes).toEqual({ id: 'second' });
+
+    targets = await runAndDescribe('undo', {
+      type: 'UPDATE_ELEMENT_ATTRIBUTE',
+      payload: { name: 'id', value: 'first', targets },
+    });
+    expect(paragraph.id).toBe('first');
+
+    await runAndDescribe('redo', {
+      type: 'UPDATE_ELEMENT_ATTRIBUTE',
+      payload: { name: 'id', value: 'second', targets },
+    });
+    expect(paragraph.id).toBe('second');
+    expect(document.querySelectorAll('[id]')).toHaveLength(1);
+  });
+
+  test('should undo a style change on several elements to the inline value each had', async () => {
+    document.body.innerHTML = '<p style="color: blue">a</p><p>b</p>';
+    const paragraphs = Array.from(document.querySelectorAll('p'));
+    const targets = paragraphs.map(describeElement);
+
+    const result = await runCommand('apply', {
+      type: 'UPDATE_ELEMENT_STYLE',
+      payload: { property: 'color', value: 'red', targets },
+    });
+    expect(result?.oldValues).toEqual(['blue', '']);
+
+    await runAndDescribe('undo', {
+      type: 'UPDATE_ELEMENT_STYLE',
+      payload: { property: 'color', value: result?.oldValues ?? [], targets: result?.targets },
+    });
+    expect(paragraphs[0].style.color).toBe('blue');
+    expect(paragraphs[1].style.getPropertyValue('color')).toBe('');
+  });
+});
+
+describe('REVERT_SAVED_CHANGES', () => {
+  test('should keep the saved patch on the page when the side panel is closed', async () => {
+    const title = document.getElementById('title') as HTMLElement;
+    const style = await runCommand('style', {
+      type: 'UPDATE_ELEMENT_STYLE',
+      payload: { property: 'color', value: 'red', targets: [describeElement(title)] },
+    });
+    const attribute = await runCommand('attribute', {
+      type: 'UPDATE_ELEMENT_ATTRIBUTE',
+      payload: { name: 'title', value: 'Saved', targets: style?.targets },
+    });
+    const targets = attribute?.targets ?? [];
+    const locator = createElementLocator(title);
+    patches = [
+      {
+        id: 'patch',
+        name: 'Patch',
+        urlPattern: '*',
+        enabled: true,
+        createdAt: 0,
+        modifications: [
+          { type: 'style', locator, property: 'color', value: 'red' },
+          { type: 'attribute', locator, name: 'title', value: 'Saved' },
+        ],
+      },
+    ];
+
+    await send('REVERT_SAVED_CHANGES', { targets, tagIds: [] });
+    await send('REAPPLY_PATCHES', undefined);
+    expect(title.hasAttribute('data-extension-modified-styles')).toBe(false);
+    expect(title.hasAttribute('data-extension-modified-attributes')).toBe(false);
+
+    runtimeListener({ type: 'SIDEPANEL_CLOSED' }, {}, () => {});
+    expect(title.style.color).toBe('red');
+    expect(title.getAttribute('title')).toBe('Saved');
+  });
+});
@@ -0,0 +1,114 @@
+/**
+ * @jest-environment jsdom
+ */
+import { DOMBreakpoint, DOMBreakpointType } from '../../types/types';
+import { BreakpointCallback, DOMBreakpointWatcher } from '../domBreakpoints';
+
+// nanoid is published as an ES module only, which Jest does not transform
+jest.mock('nanoid', () => {
+  let count = 0;
+  return { nanoid: () => `id-${++count}` };
+});
+
+// Mutation observers report in a microtask
+const flushMutations = () => new Promise((resolve) => setTimeout(resolve, 0));
+
+const createBreakpoint = (types: DOMBreakpointType[]): DOMBreakpoint => ({
+  id: 'breakpoint-1',
+  elementInfo: { startTag: '<div id="watched">', path: [1, 0], children: [] },
+  types,
+  selectChangedNode: false,
+});
+
+describe('DOMBreakpointWatcher', () => {
+  let element: HTMLElement;
+  let onTrigger: jest.MockedFunction<BreakpointCallback>;
+  let watcher: DOMBreakpointWatcher;
+
+  beforeEach(() => {
+    document.body.innerHTML = '<div id="watched"><p class="child">text</p></div>';
+    element = document.getElementById('watched') as HTMLElement;
+    onTrigger = jest.fn();
+    watcher = new DOMBreakpointWatcher(
+      onTrigger,
+      (record) => record.attributeName === 'data-ignored',
+      (changed) => ({ startTag: `<${changed.tagName.toLowerCase()}>`, path: [], children: [] })
+    );
+  });
+
+  afterEach(() => watcher.clear());
+
+  test('should report attribute changes of the element with the old and new value', async () => {
+    watcher.set(createBreakpoint(['attributes']), element);
+    element.setAttribute('title', 'new');
+    await flushMutations();
+
+    expect(onTrigger).toHaveBeenCalledTimes(1);
+    const [, entries, changedNode] = onTrigger.mock.calls[0];
+    expect(entries).toMatchObject([
+      { type: 'attributes', attributeName: 'title', oldValue: null, newValue: 'new' },
+    ]);
+    expect(changedNode).toBe(element);
+  });
+
+  test('should not catch attribute changes of descendants or ignored mutations', async () => {
+    watcher.set(createBreakpoint(['attributes', 'subtree']), element);
+    element.querySelector('p')?.setAttribute('title', 'child');
+    element.setAttribute('data-ignored', 'yes');
+    await flushMutations();
+
+    expect(onTrigger).not.toHaveBeenCalled();
+  });
+
+  test('should report nodes added to and text changed in the subtree', async () => {
+    watcher.set(createBreakpoint(['subtree']), element);
+    const added = document.createElement('span');
+    element.appendChild(added);
+    (element.querySelector('p')?.firstChild as Text).data = 'changed';
+    await flushMutations();
+
+    const [, entries, changedNode] = onTrigger.mock.calls[0];
+    expect(entries).toMatchObject([
+      { type: 'subtree', addedNodes: ['<span>'], removedNodes: [] },
+      { type: 'subtree', oldValue: 'text', newValue: 'changed' },
+    ]);
+    expect(changedNode).toBe(added);
+  });
+
+  test('should report the removal of the element once', async () => {
+    watcher.set(createBreakpoint(['removal']), element);
+    element.remove();
+    await flushMutations();
+    document.body.appendChild(document.createElement('section'));
+    await flushMutations();
+
+    expect(onTrigger).toHaveBeenCalledTimes(1);
+    const [, entries, changedNode] = onTrigger.mock.calls[0];
+    expect(entries).toMatchObject([
+      { type: 'removal', target: { startTag: '<div id="watched">' } },
+    ]);
+    expect(changedNode).toBeNull();
+  });
+
+  test('should drop the changes made before discardPending', async () => {
+    watcher.set(createBreakpoint(['attributes']), element);
+    element.setAttribute('title', 'by the extension');
+    watcher.discardPending();
+    await flushMutations();
+
+    expect(onTrigger).not.toHaveBeenCalled();
+
+    element.setAttribute('title', 'by the page');
+    await flushMutations();
+    expect(onTrigger).toHaveBeenCalledTimes(1);
+  });
+
+  test('should stop reporting after the breakpoint is removed', async () => {
+    watcher.set(createBreakpoint(['attributes']), element);
+    watcher.remove('breakpoint-1');
+    element.setAttribute('title', 'new');
+    await flushMutations();
+
+    expect(onTrigger).not.toHaveBeenCalled();
+  });
+});
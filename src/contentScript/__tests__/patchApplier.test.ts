@@ -0,0 +1,123 @@
+/**
+ * @jest-environment jsdom
+ */
+import { Patch, PatchModification } from '../../types/types';
+import { createElementLocator } from '../../utils/elementLocator';
+import { PatchApplier } from '../patchApplier';
+
+const URL = 'https://example.com/docs/intro';
+
+const createPatch = (id: string, modifications: PatchModification[]): Patch => ({
+  id,
+  name: `Patch ${id}`,
+  urlPattern: 'https://example.com/docs/*',
+  enabled: true,
+  createdAt: 0,
+  modifications,
+});
+
+const getTitle = () => document.getElementById('title') as HTMLElement;
+
+beforeEach(() => {
+  document.body.innerHTML = '<h1 id="title" style="color: black">Title</h1><p>Text</p>';
+});
+
+describe('PatchApplier', () => {
+  test('should apply the enabled patches matching the URL', () => {
+    const locator = createElementLocator(getTitle());
+    const patches = [
+      createPatch('a', [{ type: 'style', locator, property: 'color', value: 'red' }]),
+      createPatch('b', [{ type: 'attribute', locator, name: 'title', value: 'B' }]),
+      { ...createPatch('c', []), enabled: false },
+      { ...createPatch('d', []), urlPattern: 'https://example.org/*' },
+    ];
+
+    const results = new PatchApplier().apply(patches, URL);
+
+    expect(results.map((result) => [result.patchId, result.applied])).toEqual([
+      ['a', 1],
+      ['b', 1],
+    ]);
+    expect(getTitle().style.color).toBe('red');
+    expect(getTitle().getAttribute('title')).toBe('B');
+  });
+
+  test('should revert the modifications in reverse order', () => {
+    const locator = createElementLocator(getTitle());
+    const applier = new PatchApplier();
+    applier.apply(
+      [
+        createPatch('a', [
+          { type: 'style', locator, property: 'color', value: 'red' },
+          { type: 'style', locator, property: 'color', value: 'blue' },
+          { type: 'attribute', locator, name: 'id', value: null },
+        ]),
+      ],
+      URL
+    );
+    expect(getTitle()).toBeNull();
+
+    applier.revert();
+    expect(getTitle().style.color).toBe('black');
+  });
+
+  test('should take back the patches applied before when applying again', () => {
+    const locator = createElementLocator(getTitle());
+    const tag: PatchModification = { type: 'tag', locator, tag: '<span>new</span>' };
+    const applier = new PatchApplier();
+
+    applier.apply([createPatch('a', [tag])], URL);
+    applier.apply([createPatch('a', [tag])], URL);
+    expect(getTitle().querySelectorAll('span')).toHaveLength(1);
+    expect(getTitle().querySelector('span')?.getAttribute('data-extension-patch-id')).toBe('a');
+
+    applier.apply([], URL);
+    expect(getTitle().querySelector('span')).toBeNull();
+  });
+
+  test('should report the elements that were not found once', () => {
+    const missing = { path: [1, 5], tagName: 'div', selector: '#missing', attributes: {} };
+    const results = new PatchApplier().apply(
+      [
+        createPatch('a', [
+          { type: 'style', locator: missing, property: 'color', value: 'red' },
+          { type: 'style', locator: missing, property: 'margin', value: '0' },
+        ]),
+      ],
+      URL
+    );
+
+    expect(results).toEqual([
+      { patchId: 'a', name: 'Patch a', applied: 0, unresolved: ['#missing'] },
+    ]);
+  });
+
+  test('should report modifications that cannot be made and apply the others', () => {
+    const locator = createElementLocator(getTitle());
+    const results = new PatchApplier().apply(
+      [
+        createPatch('a', [
+          { type: 'attribute', locator, name: 'bad name', value: 'x' },
+          { type: 'style', locator, property: 'color', value: 'red' },
+        ]),
+      ],
+      URL
+    );
+
+    expect(results).toEqual([
+      { patchId: 'a', name: 'Patch a', applied: 1, unresolved: [locator.selector] },
+    ]);
+    expect(getTitle().style.color).toBe('red');
+  });
+
+  test('should not add scripts from injected tags', () => {
+    const locator = createElementLocator(getTitle());
+    new PatchApplier().apply(
+      [createPatch('a', [{ type: 'tag', locator, tag: '<script>alert(1)</script><b>kept</b>' }])],
+      URL
+    );
+
+    expect(getTitle().querySelector('script')).toBeNull();
+    expect(getTitle().querySelector('b')?.textContent).toBe('kept');
+  });
+});
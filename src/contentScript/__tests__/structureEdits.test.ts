@@ -0,0 +1,169 @@
+/**
+ * @jest-environment jsdom
+ */
+import { createElementLocator } from '../../utils/elementLocator';
+import { createMoveEdit, createReplaceEdit, createSelectionEdit } from '../structureEdits';
+
+// nanoid is published as an ES module only, which Jest does not transform
+jest.mock('nanoid', () => {
+  let count = 0;
+  return { nanoid: () => `id-${++count}` };
+});
+
+const getItems = () => Array.from(document.querySelectorAll('li')) as HTMLElement[];
+const getTexts = () => getItems().map((item) => item.textContent);
+
+beforeEach(() => {
+  document.body.innerHTML = '<ul><li>a</li><li style="color: red">b</li><li>c</li></ul>';
+});
+
+describe('createSelectionEdit', () => {
+  test('should hide elements and show them again', () => {
+    const [first, second] = getItems();
+    const edit = createSelectionEdit('hide', [first, second]);
+
+    edit.apply();
+    expect(first.style.getPropertyValue('display')).toBe('none');
+    expect(second.style.getPropertyPriority('display')).toBe('important');
+
+    edit.revert();
+    expect(first.hasAttribute('style')).toBe(false);
+    expect(second.getAttribute('style')).toBe('color: red;');
+    expect(edit.change).toMatchObject({
+      type: 'hide',
+      elements: ['<li>', '<li style="color: red">'],
+    });
+  });
+
+  test('should keep style changes made while the element was hidden', () => {
+    const [, second] = getItems();
+    second.style.setProperty('display', 'flex');
+    const edit = createSelectionEdit('hide', [second]);
+
+    edit.apply();
+    second.style.setProperty('color', 'blue');
+    edit.revert();
+
+    expect(second.style.getPropertyValue('display')).toBe('flex');
+    expect(second.style.getPropertyValue('color')).toBe('blue');
+  });
+
+  test('should delete elements, select the parent and put them back in place', () => {
+    const [first, , third] = getItems();
+    const edit = createSelectionEdit('delete', [first, third]);
+
+    edit.apply();
+    expect(getTexts()).toEqual(['b']);
+    expect(edit.select).toEqual([document.querySelector('ul')]);
+
+    edit.revert();
+    expect(getItems()).toEqual([first, getItems()[1], third]);
+    expect(getTexts()).toEqual(['a', 'b', 'c']);
+  });
+
+  test('should duplicate elements after themselves and select the copies', () => {
+    const [first, second] = getItems();
+    const edit = createSelectionEdit('duplicate', [first, second]);
+
+    edit.apply();
+    expect(getTexts()).toEqual(['a', 'a', 'b', 'b', 'c']);
+    expect(edit.select.map((copy) => copy.previousElementSibling)).toEqual([first, second]);
+
+    edit.revert();
+    expect(getTexts()).toEqual(['a', 'b', 'c']);
+
+    // Applying the edit again adds the same copies
+    edit.apply();
+    expect(getItems()[1]).toBe(edit.select[0]);
+  });
+
+  test('should throw when nothing is selected', () => {
+    expect(() => createSelectionEdit('delete', [])).toThrow();
+  });
+});
+
+describe('createMoveEdit', () => {
+  const locate = (index: number) => createElementLocator(getItems()[index]);
+
+  test('should move an element after another and back', () => {
+    const [first] = getItems();
+    const edit = createMoveEdit(
+      { type: 'move', locator: locate(0), target: locate(1), position: 'after' },
+      []
+    );
+
+    edit.apply();
+    expect(getTexts()).toEqual(['b', 'a', 'c']);
+    expect(edit.select).toEqual([first]);
+    expect(edit.change).toMatchObject({ position: 'after', target: '<li style="color: red">' });
+
+    edit.revert();
+    expect(getTexts()).toEqual(['a', 'b', 'c']);
+  });
+
+  test('should move an element before another or into it', () => {
+    createMoveEdit(
+      { type: 'move', locator: locate(2), target: locate(0), position: 'before' },
+      []
+    ).apply();
+    expect(getTexts()).toEqual(['c', 'a', 'b']);
+
+    createMoveEdit(
+      { type: 'move', locator: locate(0), target: locate(1), position: 'inside' },
+      []
+    ).apply();
+    expect(getItems()[0].lastElementChild?.textContent).toBe('c');
+  });
+
+  test('should find the elements after the page moved them', () => {
+    const operation = { locator: locate(0), target: locate(2) };
+    document.querySelector('ul')?.prepend(document.createElement('li'));
+
+    createMoveEdit({ type: 'move', ...operation, position: 'after' }, []).apply();
+    expect(getTexts()).toEqual(['', 'b', 'c', 'a']);
+  });
+
+  test('should refuse to move an element into itself or to a missing target', () => {
+    const list = createElementLocator(document.querySelector('ul') as HTMLElement);
+    expect(() =>
+      createMoveEdit({ type: 'move', locator: list, target: locate(0), position: 'inside' }, [])
+    ).toThrow();
+
+    const target = locate(2);
+    getItems()[2].remove();
+    expect(() =>
+      createMoveEdit({ type: 'move', locator: locate(0), target, position: 'after' }, [])
+    ).toThrow();
+  });
+
+  test('should refuse to move when the element can no longer be told apart', () => {
+    const locator = locate(0);
+    const list = document.querySelector('ul') as HTMLElement;
+    list.insertAdjacentHTML('afterbegin', '<li>x</li>');
+    list.insertAdjacentHTML('beforeend', '<li>a</li>');
+
+    expect(() =>
+      createMoveEdit({ type: 'move', locator, target: locate(2), position: 'after' }, [])
+    ).toThrow();
+  });
+});
+
+describe('createReplaceEdit', () => {
+  test('should replace the primary selection and put it back', () => {
+    const [first, second] = getItems();
+    const edit = createReplaceEdit('<li class="new">new</li>', [first, second]);
+
+    edit.apply();
+    expect(getTexts()).toEqual(['a', 'new', 'c']);
+    expect(edit.select).toEqual([first, getItems()[1]]);
+
+    edit.revert();
+    expect(getItems()[1]).toBe(second);
+  });
+
+  test('should refuse markup without a single root element', () => {
+    const [first] = getItems();
+    expect(() => createReplaceEdit('<li>a</li><li>b</li>', [first])).toThrow();
+    expect(() => createReplaceEdit('text <b>bold</b>', [first])).toThrow();
+  });
+});
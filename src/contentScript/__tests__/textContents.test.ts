@@ -0,0 +1,100 @@
+/**
+ * @jest-environment jsdom
+ */
+import { snapshotSubtree, TextReplacer } from '../textContents';
+
+const createElement = () => {
+  document.body.innerHTML = '<p id="text">Hello <b>bold</b> <input value="kept"></p>';
+  return document.getElementById('text') as HTMLElement;
+};
+
+describe('TextReplacer', () => {
+  test('should put back the same child nodes, with their listeners and state', () => {
+    const element = createElement();
+    const bold = element.querySelector('b') as HTMLElement;
+    const input = element.querySelector('input') as HTMLInputElement;
+    const onClick = jest.fn();
+    bold.addEventListener('click', onClick);
+    input.value = 'typed';
+
+    const texts = new TextReplacer();
+    texts.replace(element, 'Replaced');
+    expect(element.innerHTML).toBe('Replaced');
+
+    expect(texts.restore(element)).toBe(true);
+    expect(element.querySelector('b')).toBe(bold);
+    expect(element.querySelector('input')).toBe(input);
+    expect(input.value).toBe('typed');
+    bold.click();
+    expect(onClick).toHaveBeenCalledTimes(1);
+  });
+
+  test('should keep the original nodes across several replacements', () => {
+    const element = createElement();
+    const bold = element.querySelector('b');
+
+    const texts = new TextReplacer();
+    texts.replace(element, 'First');
+    texts.replace(element, 'Second');
+    expect(element.textContent).toBe('Second');
+
+    // Going back to the original text puts back the original nodes
+    texts.replace(element, 'Hello bold ');
+    expect(element.querySelector('b')).toBe(bold);
+    expect(texts.restore(element)).toBe(false);
+  });
+
+  test('should leave elements alone when the text does not change', () => {
+    const element = createElement();
+    const children = Array.from(element.childNodes);
+
+    const texts = new TextReplacer();
+    texts.replace(element, 'Hello bold ');
+
+    expect(Array.from(element.childNodes)).toEqual(children);
+    expect(texts.restore(element)).toBe(false);
+  });
+
+  test('should restore every replaced element', () => {
+    document.body.innerHTML = '<p id="a"><i>a</i></p><p id="b"><i>b</i></p>';
+    const elements = ['a', 'b'].map((id) => document.getElementById(id) as HTMLElement);
+    const italics = elements.map((element) => element.firstChild);
+
+    const texts = new TextReplacer();
+    elements.forEach((element) => texts.replace(element, 'new'));
+    texts.restoreAll();
+
+    expect(elements.map((element) => element.firstChild)).toEqual(italics);
+  });
+});
+
+describe('snapshotSubtree', () => {
+  test('should restore edited text and removed nodes', () => {
+    const element = createElement();
+    const [text, bold] = Array.from(element.childNodes);
+    const restore = snapshotSubtree(element);
+
+    (text as Text).data = 'Bye ';
+    (bold.firstChild as Text).data = 'plain';
+    bold.remove();
+    element.appendChild(document.createElement('br'));
+
+    restore();
+    expect(element.firstChild).toBe(text);
+    expect(element.querySelector('b')).toBe(bold);
+    expect(element.querySelector('br')).toBeNull();
+    expect(element.textContent).toBe('Hello bold ');
+  });
+
+  test('should not move nodes whose parent did not change', () => {
+    const element = createElement();
+    const restore = snapshotSubtree(element);
+    const replaceChildren = jest.spyOn(element, 'replaceChildren');
+
+    (element.firstChild as Text).data = 'Bye ';
+    restore();
+
+    expect(replaceChildren).not.toHaveBeenCalled();
+    expect(element.textContent).toBe('Hello bold ');
+  });
+});
@@ -1,15 +1,166 @@
 import { ConnectionManager } from '../lib/connectionManager';
 import { Logger } from '../lib/logger';
-import { MessageHandler, MessagePayloads } from '../types/messages';
-import { ElementInfo } from '../types/types';
-import { createElementInfo, getElementByPath } from '../utils/domSelection';
+import { loadPatches } from '../lib/patches';
+import { CommandMessage, MessageHandler, MessagePayloads } from '../types/messages';
+import {
+  CaptureTarget,
+  DOMBreakpoint,
+  DOMMutationEntry,
+  ElementAttribute,
+  ElementInfo,
+  ElementLocator,
+  ElementPath,
+  ElementTreeChange,
+  FrameInfo,
+  FramePlacement,
+  PageMetrics,
+  PatchResult,
+  ScrollPosition,
+  StructureOperation,
+} from '../types/types';
+import { getBoxModel } from '../utils/boxModel';
+import { getFrameContext } from '../utils/context';
+import { getStyleSnapshot } from '../utils/cssCascade';
+import { searchDOM } from '../utils/domSearch';
+import {
+  applyElementTreeChanges,
+  buildChildTrees,
+  buildElementTree,
+  createElementInfo,
+  getDeepEventTarget,
+  getDirectTextContent,
+  getElementByPath,
+  getElementPath,
+  getElementsAtPoint,
+  getElementStartTag,
+  getAdjacentElement,
+  getOutermostElementsInRect,
+  getTreeNodeByPath,
+  NavigationDirection,
+  querySelectorAllDeep,
+  TreeLimits,
+} from '../utils/domSelection';
+import { createElementLocator, queryElements, resolveLocator } from '../utils/elementLocator';
+import { DOMBreakpointWatcher } from './domBreakpoints';
+import { EXTENSION_OVERLAY_ATTRIBUTE, HighlightOverlay } from './highlightOverlay';
+import { PatchApplier } from './patchApplier';
+import {
+  createMoveEdit,
+  createReplaceEdit,
+  createSelectionEdit,
+  StructureEdit,
+} from './structureEdits';
+import { snapshotSubtree, TextReplacer } from './textContents';
 
 // Classes and attributes used by the extension
-const EXTENSION_HIGHLIGHT_CLASS = 'extension-highlight';
-const EXTENSION_SELECTED_CLASS = 'extension-selected';
-const EXTENSION_SELECTION_MODE_CLASS = 'extension-selection-mode';
+const EXTENSION_ATTRIBUTE_PREFIX = 'data-extension-';
+const EXTENSION_ATTRIBUTE_MODIFIED_ATTRIBUTE = 'data-extension-modified-attributes';
 const EXTENSION_STYLE_MODIFIED_ATTRIBUTE = 'data-extension-modified-styles';
 const EXTENSION_TAG_ID_ATTRIBUTE = 'data-extension-tag-id';
+const EXTENSION_STYLES_ID = 'extension-styles';
+
+// Distance in pixels the pointer has to move before a drag becomes a marquee selection
+const MARQUEE_THRESHOLD = 5;
+
+// Distance in pixels the pointer has to move before cycling through stacked elements ends
+const STACK_RESET_DISTANCE = 4;
+
+// Keys that cycle the highlight through the elements stacked under the pointer
+const STACK_KEYS: Record<string, number> = { ']': 1, '[': -1 };
+
+// Keys that move the highlight in selection mode
+const NAVIGATION_KEYS: Record<string, NavigationDirection> = {
+  ArrowUp: 'parent',
+  ArrowDown: 'firstChild',
+  ArrowLeft: 'previousSibling',
+  ArrowRight: 'nextSibling',
+};
+
+// Element trees sent to the side panel are cut here, the rest is loaded when nodes are expanded
+const ELEMENT_TREE_PAGE_SIZE = 100;
+const ELEMENT_TREE_LIMITS: TreeLimits = { depth: 2, pageSize: ELEMENT_TREE_PAGE_SIZE };
+// Children loaded on demand come with one level of their own children
+const ELEMENT_CHILDREN_LIMITS: TreeLimits = { depth: 1, pageSize: ELEMENT_TREE_PAGE_SIZE };
+
+// Maximum number of query matches and search hits reported to the side panel
+const MAX_QUERY_MATCHES = 200;
+
+// Delay before changes to the selected subtree are reported, so that bursts go out together
+const MUTATION_REPORT_DELAY = 100;
+
+const isExtensionElement = (node: Node | null): boolean =>
+  node instanceof Element &&
+  (node.hasAttribute(EXTENSION_OVERLAY_ATTRIBUTE) || node.id === EXTENSION_STYLES_ID);
+
+// Element of the page before or after the element, skipping the ones the extension adds
+const getPageSibling = (element: Element, direction: 'previous' | 'next'): HTMLElement | null => {
+  const step = (node: Element) =>
+    direction === 'previous' ? node.previousElementSibling : node.nextElementSibling;
+  let sibling = step(element);
+  while (sibling && isExtensionElement(sibling)) sibling = step(sibling);
+  return sibling as HTMLElement | null;
+};
+
+// Give the elements of a tree sent to the side panel their locators, so that an element dragged
+// in the tree is found even if the page changed since the tree was built
+const addTreeLocators = (node: ElementInfo): ElementInfo => {
+  const element = node.isShadowRoot ? null : getElementByPath(node.path);
+  return {
+    ...node,
+    locator: element ? createElementLocator(element) : node.locator,
+    children: node.children.map(addTreeLocators),
+  };
+};
+
+// Attributes and elements the extension adds to the page, whose changes are not reported
+const isExtensionMutation = (record: MutationRecord): boolean => {
+  const target = record.target instanceof Element ? record.target : record.target.parentElement;
+  if (isExtensionElement(target)) return true;
+
+  if (record.type === 'attributes') {
+    return record.attributeName?.startsWith(EXTENSION_ATTRIBUTE_PREFIX) ?? false;
+  }
+  if (record.type === 'childList') {
+    return [...Array.from(record.addedNodes), ...Array.from(record.removedNodes)].every(
+      isExtensionElement
+    );
+  }
+  return false;
+};
+
+// Attributes of an element without the ones the extension adds
+// Outcome of a command of the undo history, reported to the side panel with COMMAND_RESULT
+type CommandOutcome = Omit<MessagePayloads['COMMAND_RESULT'], 'id'>;
+
+// Elements found on the page, once each
+const uniqueElements = (elements: (HTMLElement | null)[]): HTMLElement[] =>
+  elements.filter(
+    (element, index): element is HTMLElement =>
+      element !== null && elements.indexOf(element) === index
+  );
+
+const getPageAttributes = (element: HTMLElement): ElementAttribute[] =>
+  Array.from(element.attributes)
+    .filter(({ name }) => !name.startsWith(EXTENSION_ATTRIBUTE_PREFIX))
+    .map(({ name, value }) => ({ name, value }));
+
+// Markup of an element as the page has it, without the attributes the extension adds
+const getPageHTML = (element: HTMLElement): string => {
+  const clone = element.cloneNode(true) as HTMLElement;
+  [clone, ...Array.from(clone.querySelectorAll('*'))].forEach((node) => {
+    Array.from(node.attributes)
+      .filter(({ name }) => name.startsWith(EXTENSION_ATTRIBUTE_PREFIX))
+      .forEach(({ name }) => node.removeAttribute(name));
+  });
+  return clone.outerHTML;
+};
+
+// Marks window messages exchanged between the content scripts of parent and child frames
+const FRAME_MESSAGE_SOURCE = 'dom-workbench-frame';
+
+// Resolve after the browser has painted the next frame
+const waitForNextPaint = (): Promise<void> =>
+  new Promise((resolve) => requestAnimationFrame(() => requestAnimationFrame(() => resolve())));
 
 class ContentScript {
   private connectionManager: ConnectionManager | null = null;
@@ -17,18 +168,72 @@ class ContentScript {
   private state = {
     isSelectionMode: false,
     selectedElementInfo: null as ElementInfo | null,
+    // All selected elements without their children, the primary selection last
+    selection: [] as ElementInfo[],
     hoveredElement: null as HTMLElement | null,
   };
+  private marquee: {
+    startX: number;
+    startY: number;
+    additive: boolean;
+    active: boolean;
+  } | null = null;
+  private suppressNextClick = false;
+  private pointer: { x: number; y: number } | null = null;
+  // Elements stacked under the pointer while cycling through them, from the topmost down
+  private stack: {
+    elements: HTMLElement[];
+    index: number;
+    x: number;
+    y: number;
+  } | null = null;
   private executeScriptPromise: {
     resolve: (success: boolean) => void;
     reject: (error: string) => void;
   } | null = null;
+  private readonly overlay = new HighlightOverlay();
+  private frameInfo: FrameInfo | null = null;
+  private parentFrameId: number | undefined = undefined;
+  private readonly childFrameIds = new WeakMap<Element, number>();
+  private readonly childFrameElements = new Map<number, HTMLElement>();
+  // Primary selection watched for changes made by the page
+  private observedElement: HTMLElement | null = null;
+  private readonly selectionObserver = new MutationObserver((records) =>
+    this.handleMutations(records)
+  );
+  private pendingMutations: MutationRecord[] = [];
+  private mutationReportTimer: number | undefined = undefined;
+  private readonly breakpoints = new DOMBreakpointWatcher(
+    (breakpoint, entries, changedNode) =>
+      this.handleBreakpointTriggered(breakpoint, entries, changedNode),
+    (record) => this.isOwnMutation(record),
+    (element) => this.createElementSummary(element)
+  );
+  // Content the page had in elements whose text was replaced. Kept here rather than in an
+  // attribute like the original styles, since the same nodes are put back.
+  private readonly texts = new TextReplacer();
+  // Structural edits in the order they were made, with what was selected before each
+  private readonly structureEdits: (StructureEdit & { selection: HTMLElement[] })[] = [];
+  // Structural edits undone since the last edit, which can be applied again
+  private readonly undoneStructureEdits: (StructureEdit & { selection: HTMLElement[] })[] = [];
+  // Saved patches applied to the page, which stay when the side panel is closed
+  private readonly patches = new PatchApplier();
+  private patchResults: PatchResult[] = [];
+  // Element being edited on the page, with what is needed to end the edit
+  private textEditing: {
+    element: HTMLElement;
+    /** Puts back the nodes and text the element had when the edit started */
+    restore: () => void;
+    text: string;
+    /** Value of the contenteditable attribute the page had */
+    contentEditable: string | null;
+    removeListeners: () => void;
+  } | null = null;
 
   constructor() {
     this.logger = new Logger('content-script');
     this.initialize();
 
-    this.injectStyles();
     this.setupEventListeners();
   }
 
@@ -46,6 +251,30 @@ class ContentScript {
           sendResponse({ status: 'cleaned' });
           return false;
         }
+        if (message.type === 'SUSPEND_HIGHLIGHTS') {
+          this.setHighlightsSuspended(true).then(sendResponse);
+          return true;
+        }
+        if (message.type === 'RESUME_HIGHLIGHTS') {
+          this.setHighlightsSuspended(false).then(sendResponse);
+          return true;
+        }
+        if (message.type === 'GET_CAPTURE_TARGET') {
+          this.getCaptureTarget().then(sendResponse);
+          return true;
+        }
+        if (message.type === 'GET_PAGE_METRICS') {
+          sendResponse(this.getPageMetrics());
+          return false;
+        }
+        if (message.type === 'SCROLL_TO') {
+          this.scrollTo(message.position).then(sendResponse);
+          return true;
+        }
+        if (message.type === 'GET_FRAME_PLACEMENT') {
+          this.getFramePlacement(message.frameId).then(sendResponse);
+          return true;
+        }
       });
 
       // Listen for page show events
@@ -60,11 +289,21 @@ class ContentScript {
         }
       });
 
+      // Find out which tab and frame this script runs in
+      this.frameInfo = await chrome.runtime.sendMessage({ type: 'GET_FRAME_INFO' });
+      this.setupFrameMessaging();
+      // Patches that cannot be applied must not keep the side panel from connecting
+      try {
+        await this.applyPatches();
+      } catch (error) {
+        this.logger.error('Failed to apply patches:', error);
+      }
+
       // Get activeTabInfo from storage
       const { activeTabInfo } = await chrome.storage.local.get('activeTabInfo');
 
       if (activeTabInfo?.isScriptInjectionAllowed) {
-        this.setupConnection(activeTabInfo.tabId);
+        this.setupConnection();
       } else {
         this.logger.debug('Script injection not allowed for this tab');
       }
@@ -77,7 +316,7 @@ class ContentScript {
 
         // Setup connection if allowed and connection doesn't exist or tabId has changed
         if (newTabId && isAllowed && (!this.connectionManager || newTabId !== oldValue?.tabId)) {
-          this.setupConnection(newTabId);
+          this.setupConnection();
         }
       });
     } catch (error) {
@@ -85,16 +324,25 @@ class ContentScript {
     }
   }
 
-  private setupConnection(tabId: number) {
+  private setupConnection() {
     if (this.connectionManager) {
       this.logger.debug('Connection already established');
       return;
     }
+    if (!this.frameInfo) {
+      this.logger.error('Frame info not available');
+      return;
+    }
 
     try {
-      this.connectionManager = new ConnectionManager(`content-${tabId}`, this.handleMessage);
+      const { tabId, frameId } = this.frameInfo;
+      this.connectionManager = new ConnectionManager(
+        getFrameContext(tabId, frameId),
+        this.handleMessage
+      );
       this.connectionManager.connect();
-      this.logger.info('Connection established. tabId:', tabId);
+      this.logger.info('Connection established. tabId:', tabId, 'frameId:', frameId);
+      this.sendPatchResults();
 
       // Monitor connection status, perform cleanup on disconnect
       const intervalId = setInterval(() => {
@@ -110,98 +358,237 @@ class ContentScript {
     }
   }
 
+  // Child frames announce their frame ID so that iframes in the tree can be expanded
+  private setupFrameMessaging() {
+    window.addEventListener('message', (event) => {
+      const data = event.data;
+      if (data?.source !== FRAME_MESSAGE_SOURCE || !this.frameInfo) return;
+
+      if (data.type === 'ANNOUNCE' && event.source) {
+        const frameElement = querySelectorAllDeep('iframe, frame').find(
+          (element) => (element as HTMLIFrameElement).contentWindow === event.source
+        );
+        if (!frameElement) return;
+
+        this.childFrameIds.set(frameElement, data.frameId);
+        this.childFrameElements.set(data.frameId, frameElement as HTMLElement);
+        (event.source as Window).postMessage(
+          { source: FRAME_MESSAGE_SOURCE, type: 'ACKNOWLEDGE', frameId: this.frameInfo.frameId },
+          '*'
+        );
+      } else if (data.type === 'ACKNOWLEDGE' && event.source === window.parent) {
+        this.parentFrameId = data.frameId;
+      } else if (data.type === 'PROBE' && event.source === window.parent) {
+        this.announceFrame();
+      }
+    });
+
+    // Child frames may have loaded before this script, ask them to announce themselves
+    querySelectorAllDeep('iframe, frame').forEach((element) => {
+      (element as HTMLIFrameElement).contentWindow?.postMessage(
+        { source: FRAME_MESSAGE_SOURCE, type: 'PROBE' },
+        '*'
+      );
+    });
+    this.announceFrame();
+  }
+
+  private announceFrame() {
+    if (window.parent === window || !this.frameInfo) return;
+    window.parent.postMessage(
+      { source: FRAME_MESSAGE_SOURCE, type: 'ANNOUNCE', frameId: this.frameInfo.frameId },
+      '*'
+    );
+  }
+
+  private resolveFrameId = (element: HTMLElement): number | undefined => {
+    return this.childFrameIds.get(element);
+  };
+
   private handleMessage: MessageHandler = (message) => {
     this.logger.debug('Message received', { type: message.type });
 
     switch (message.type) {
+      case 'CLEAR_SELECTION': {
+        this.clearSelection();
+        break;
+      }
+      case 'EDIT_ELEMENT_STRUCTURE': {
+        const payload = message.payload as MessagePayloads['EDIT_ELEMENT_STRUCTURE'];
+        this.handleEditElementStructure(payload.operation);
+        break;
+      }
+      case 'EDIT_ELEMENT_TEXT': {
+        this.handleEditElementText();
+        break;
+      }
       case 'EXECUTE_SCRIPT_RESULT': {
         const payload = message.payload as MessagePayloads['EXECUTE_SCRIPT_RESULT'];
         this.handleExecutionScriptResult(payload.success, payload.error);
         break;
       }
-      case 'INJECT_TAG': {
-        const payload = message.payload as MessagePayloads['INJECT_TAG'];
-        this.handleTagInjection(payload.tag, payload.tagId);
+      case 'GET_ELEMENT_CHILDREN': {
+        const payload = message.payload as MessagePayloads['GET_ELEMENT_CHILDREN'];
+        this.handleGetElementChildren(payload.path, payload.offset);
+        break;
+      }
+      case 'GET_ELEMENT_HTML': {
+        this.handleGetElementHTML();
+        break;
+      }
+      case 'GET_FRAME_TREE': {
+        this.handleGetFrameTree();
+        break;
+      }
+      case 'GET_PATCH_RESULTS': {
+        this.sendPatchResults();
+        break;
+      }
+      case 'QUERY_ELEMENTS': {
+        const payload = message.payload as MessagePayloads['QUERY_ELEMENTS'];
+        this.handleQueryElements(payload.query);
+        break;
+      }
+      case 'REAPPLY_PATCHES': {
+        this.handleReapplyPatches();
+        break;
+      }
+      case 'REMOVE_DOM_BREAKPOINT': {
+        const payload = message.payload as MessagePayloads['REMOVE_DOM_BREAKPOINT'];
+        this.breakpoints.remove(payload.id);
+        break;
+      }
+      case 'REVERT_SAVED_CHANGES': {
+        const payload = message.payload as MessagePayloads['REVERT_SAVED_CHANGES'];
+        this.handleRevertSavedChanges(payload.targets, payload.tagIds);
+        break;
+      }
+      case 'RUN_COMMAND': {
+        const payload = message.payload as MessagePayloads['RUN_COMMAND'];
+        this.handleRunCommand(payload.id, payload.command);
         break;
       }
-      case 'REMOVE_TAG': {
-        const payload = message.payload as MessagePayloads['REMOVE_TAG'];
-        this.handleTagRemoval(payload.tagId);
+      case 'SEARCH_DOM': {
+        const payload = message.payload as MessagePayloads['SEARCH_DOM'];
+        this.handleSearchDOM(payload.query);
         break;
       }
       case 'SELECT_ELEMENT': {
         const payload = message.payload as MessagePayloads['SELECT_ELEMENT'];
-        this.handleSelectedElement(payload.path);
+        this.handleSelectedElement(payload.path, payload.locator, payload.additive);
+        break;
+      }
+      case 'UNSELECT_ELEMENT': {
+        const payload = message.payload as MessagePayloads['UNSELECT_ELEMENT'];
+        this.handleUnselectElement(payload.path, payload.locator);
+        break;
+      }
+      case 'REVERT_ELEMENT_CHANGES': {
+        const payload = message.payload as MessagePayloads['REVERT_ELEMENT_CHANGES'];
+        this.handleRevertElementChanges(payload.path, payload.locator);
+        break;
+      }
+      case 'REVERT_ELEMENT_STYLES': {
+        const payload = message.payload as MessagePayloads['REVERT_ELEMENT_STYLES'];
+        this.handleRevertElementStyles(payload.path, payload.locator);
+        break;
+      }
+      case 'SET_DOM_BREAKPOINT': {
+        const payload = message.payload as MessagePayloads['SET_DOM_BREAKPOINT'];
+        this.handleSetBreakpoint(payload.breakpoint);
         break;
       }
       case 'TOGGLE_SELECTION_MODE': {
         const payload = message.payload as MessagePayloads['TOGGLE_SELECTION_MODE'];
-        this.handleToggleSelectionMode(payload.enabled);
+        this.handleToggleSelectionMode(payload.enabled, payload.keepSelection);
         break;
       }
+    }
+  };
+
+  // Run a command of the undo history and tell the side panel whether it was made, so that the
+  // history only moves on once the page has changed
+  private async handleRunCommand(id: string, command: CommandMessage) {
+    const outcome = await this.runCommand(command);
+    this.connectionManager?.sendMessage('sidepanel', {
+      type: 'COMMAND_RESULT',
+      payload: { id, ...outcome } as MessagePayloads['COMMAND_RESULT'],
+    });
+  }
+
+  private async runCommand(command: CommandMessage): Promise<CommandOutcome> {
+    switch (command.type) {
+      case 'INJECT_TAG': {
+        const { tag, tagId, targets } = command.payload;
+        return { success: await this.handleTagInjection(tag, tagId, targets) };
+      }
+      case 'REAPPLY_STRUCTURE_EDIT':
+        return { success: this.handleReapplyStructureEdit(command.payload.id) };
+      case 'REMOVE_TAG':
+        return { success: this.handleTagRemoval(command.payload.tagId) };
+      case 'REVERT_STRUCTURE_EDIT':
+        return { success: this.handleRevertStructureEdit(command.payload.id) };
+      case 'UPDATE_ELEMENT_ATTRIBUTE': {
+        const { name, value, targets } = command.payload;
+        return this.handleUpdateElementAttribute(name, value, targets);
+      }
       case 'UPDATE_ELEMENT_STYLE': {
-        const payload = message.payload as MessagePayloads['UPDATE_ELEMENT_STYLE'];
-        this.handleUpdateElementStyle(payload.property, payload.value);
-        break;
+        const { property, value, targets } = command.payload;
+        return this.handleUpdateElementStyle(property, value, targets);
+      }
+      case 'UPDATE_ELEMENT_TEXT': {
+        const { text, targets } = command.payload;
+        return this.handleUpdateElementText(text, targets);
       }
     }
-  };
+  }
 
   // Cleanup existing state
   private performCleanup() {
     this.state.isSelectionMode = false;
+    this.finishTextEditing(false);
     this.clearSelection();
+    this.overlay.clear();
+    this.breakpoints.clear();
+    this.revertStructureEdits();
     this.removeInjectedTags();
     this.revertModifiedStyles();
-    this.removeExtensionClasses();
+    this.revertModifiedAttributes();
+    this.revertModifiedTexts();
+    this.setSelectionModeStyles(false);
   }
 
-  // Inject styles
-  private injectStyles() {
-    const styleId = 'extension-styles';
-    if (!document.getElementById(styleId)) {
-      const style = document.createElement('style');
-      style.id = styleId;
-      style.textContent = this.getInjectedStyles();
-      document.head.appendChild(style);
-      this.logger.debug('Styles injected successfully');
+  // The crosshair cursor is the only style the page receives, and only in selection mode
+  private setSelectionModeStyles(enabled: boolean) {
+    const existing = document.getElementById(EXTENSION_STYLES_ID);
+    if (!enabled) {
+      existing?.remove();
+      return;
     }
-  }
+    if (existing) return;
 
-  private getInjectedStyles(): string {
-    return `
-      .${EXTENSION_SELECTION_MODE_CLASS},
-      .${EXTENSION_SELECTION_MODE_CLASS} * {
+    const style = document.createElement('style');
+    style.id = EXTENSION_STYLES_ID;
+    style.textContent = `
+      html, html * {
         cursor: crosshair !important;
         user-select: none !important;
       }
-      
-      .${EXTENSION_HIGHLIGHT_CLASS} {
-        outline: 2px solid #ffd700 !important;
-        outline-offset: 2px;
-        background-color: rgba(255, 215, 0, 0.1) !important;
-        transition: all 0.2s ease;
-        pointer-events: auto !important;
-      }
-
-      .${EXTENSION_SELECTED_CLASS} {
-        outline: 2px solid #4682B4 !important;
-        outline-offset: 2px;
-        background-color: rgba(70, 130, 180, 0.1) !important;
-        transition: all 0.2s ease;
-      }
-
-      html.${EXTENSION_SELECTION_MODE_CLASS},
-      html.${EXTENSION_SELECTION_MODE_CLASS} body,
-      html.${EXTENSION_SELECTION_MODE_CLASS} * {
-        cursor: crosshair !important;
-      }
     `;
+    (document.head ?? document.documentElement).appendChild(style);
+    this.logger.debug('Selection mode styles injected');
   }
 
-  private removeExtensionClasses() {
-    document.documentElement.classList.remove(EXTENSION_SELECTION_MODE_CLASS);
-    document.body.classList.remove(EXTENSION_SELECTION_MODE_CLASS);
+  // Hide the overlay without touching the selection state
+  private async setHighlightsSuspended(suspended: boolean): Promise<{ suspended: boolean }> {
+    this.overlay.setSuspended(suspended);
+
+    if (suspended) {
+      // Make sure the page no longer shows the highlight before it is captured
+      await waitForNextPaint();
+    }
+    this.logger.debug('Highlights suspended:', suspended);
+    return { suspended };
   }
 
   // Event listeners
@@ -209,39 +596,56 @@ class ContentScript {
     const handleMouseOver = (e: MouseEvent) => this.handleMouseOver(e);
     const handleMouseOut = (e: MouseEvent) => this.handleMouseOut(e);
     const handleClick = (e: MouseEvent) => this.handleClick(e);
+    const handleMouseDown = (e: MouseEvent) => this.handleMouseDown(e);
+    const handleMouseMove = (e: MouseEvent) => this.handleMouseMove(e);
+    const handleMouseUp = (e: MouseEvent) => this.handleMouseUp(e);
+    const handleKeyDown = (e: KeyboardEvent) => this.handleKeyDown(e);
+    const handleWheel = (e: WheelEvent) => this.handleWheel(e);
 
     document.addEventListener('mouseover', handleMouseOver, true);
     document.addEventListener('mouseout', handleMouseOut, true);
     document.addEventListener('click', handleClick, true);
+    document.addEventListener('mousedown', handleMouseDown, true);
+    document.addEventListener('mousemove', handleMouseMove, true);
+    document.addEventListener('mouseup', handleMouseUp, true);
+    document.addEventListener('keydown', handleKeyDown, true);
+    document.addEventListener('wheel', handleWheel, { capture: true, passive: false });
 
     return () => {
       document.removeEventListener('mouseover', handleMouseOver, true);
       document.removeEventListener('mouseout', handleMouseOut, true);
       document.removeEventListener('click', handleClick, true);
+      document.removeEventListener('mousedown', handleMouseDown, true);
+      document.removeEventListener('mousemove', handleMouseMove, true);
+      document.removeEventListener('mouseup', handleMouseUp, true);
+      document.removeEventListener('keydown', handleKeyDown, true);
+      document.removeEventListener('wheel', handleWheel, true);
     };
   }
 
   private handleMouseOver(event: MouseEvent) {
     if (!this.state.isSelectionMode) return;
 
-    const target = event.target as HTMLElement;
+    // Keep the candidate picked from the stack until the pointer moves away
+    if (this.stack) return;
+
+    const target = getDeepEventTarget(event);
     if (!target || target === document.body || target === document.documentElement) return;
 
-    if (this.state.hoveredElement && this.state.hoveredElement !== target) {
-      this.state.hoveredElement.classList.remove(EXTENSION_HIGHLIGHT_CLASS);
-    }
+    this.setHoveredElement(target);
+  }
 
+  private setHoveredElement(target: HTMLElement | null) {
     this.state.hoveredElement = target;
-    target.classList.add(EXTENSION_HIGHLIGHT_CLASS);
+    this.overlay.setHovered(target);
   }
 
   private handleMouseOut(event: MouseEvent) {
-    if (!this.state.isSelectionMode || !this.state.hoveredElement) return;
+    if (!this.state.isSelectionMode || !this.state.hoveredElement || this.stack) return;
 
-    const target = event.target as HTMLElement;
+    const target = getDeepEventTarget(event);
     if (target === this.state.hoveredElement) {
-      target.classList.remove(EXTENSION_HIGHLIGHT_CLASS);
-      this.state.hoveredElement = null;
+      this.setHoveredElement(null);
     }
   }
 
@@ -251,10 +655,178 @@ class ContentScript {
     event.preventDefault();
     event.stopPropagation();
 
-    const target = event.target as HTMLElement;
+    // The click that ends a marquee selection does not select anything itself
+    if (this.suppressNextClick) {
+      this.suppressNextClick = false;
+      return;
+    }
+
+    // While cycling through stacked elements, the click selects the current candidate
+    const target = this.stack ? this.state.hoveredElement : getDeepEventTarget(event);
     if (!target || target === document.body || target === document.documentElement) return;
 
-    this.elementSelection(target);
+    if (event.shiftKey) {
+      this.toggleSelection(target);
+    } else {
+      this.setSelection([target]);
+    }
+    this.endStackCycling();
+  }
+
+  // Stacked elements: Alt+wheel or [ and ] cycle the highlight through everything under the pointer
+  private handleWheel(event: WheelEvent) {
+    if (!this.state.isSelectionMode || !event.altKey || event.deltaY === 0) return;
+
+    event.preventDefault();
+    event.stopPropagation();
+    this.pointer = { x: event.clientX, y: event.clientY };
+    this.cycleStack(event.deltaY > 0 ? 1 : -1);
+  }
+
+  private cycleStack(step: number) {
+    if (!this.pointer) return;
+
+    if (!this.stack) {
+      const elements = getElementsAtPoint(this.pointer.x, this.pointer.y);
+      if (elements.length === 0) return;
+
+      // Start from the element currently highlighted, if it is part of the stack
+      const hovered = this.state.hoveredElement;
+      const index = hovered ? Math.max(0, elements.indexOf(hovered)) : 0;
+      this.stack = { elements, index, ...this.pointer };
+    } else {
+      const count = this.stack.elements.length;
+      this.stack.index = (this.stack.index + step + count) % count;
+    }
+
+    const { elements, index, x, y } = this.stack;
+    this.setHoveredElement(elements[index]);
+    this.overlay.showIndicator(
+      `${elements[index].localName} (${index + 1}/${elements.length})`,
+      x + 12,
+      y + 12
+    );
+  }
+
+  private endStackCycling() {
+    this.overlay.hideIndicator();
+    this.stack = null;
+  }
+
+  // Keyboard navigation: arrows move the highlight, Enter selects it, Esc leaves selection mode
+  private handleKeyDown(event: KeyboardEvent) {
+    if (!this.state.isSelectionMode) return;
+
+    const direction = NAVIGATION_KEYS[event.key];
+    if (direction) {
+      this.endStackCycling();
+      this.moveHighlight(direction);
+    } else if (event.key in STACK_KEYS) {
+      this.cycleStack(STACK_KEYS[event.key]);
+    } else if (event.key === 'Enter') {
+      const target = this.state.hoveredElement;
+      if (!target) return;
+      if (event.shiftKey) {
+        this.toggleSelection(target);
+      } else {
+        this.setSelection([target]);
+      }
+    } else if (event.key === 'Escape') {
+      this.exitSelectionMode();
+    } else {
+      return;
+    }
+
+    event.preventDefault();
+    event.stopPropagation();
+  }
+
+  private moveHighlight(direction: NavigationDirection) {
+    const current = this.state.hoveredElement ?? this.resolveSelectedElement();
+    if (!current) {
+      // Start from the top of the page
+      const first = document.body.firstElementChild;
+      if (first instanceof HTMLElement) this.setHoveredElement(first);
+      return;
+    }
+
+    const next = getAdjacentElement(current, direction);
+    if (!next || next === document.body || next === document.documentElement) return;
+
+    this.setHoveredElement(next);
+    next.scrollIntoView({ block: 'nearest', inline: 'nearest' });
+  }
+
+  // Leave selection mode from the page, keeping the selection, and tell the side panel
+  private exitSelectionMode() {
+    this.handleToggleSelectionMode(false, true);
+    this.connectionManager?.sendMessage('sidepanel', {
+      type: 'SELECTION_MODE_CHANGED',
+      payload: { enabled: false } as MessagePayloads['SELECTION_MODE_CHANGED'],
+    });
+  }
+
+  // Marquee selection
+  private handleMouseDown(event: MouseEvent) {
+    if (!this.state.isSelectionMode || event.button !== 0) return;
+
+    // Keep the page from starting text selection or native drags
+    event.preventDefault();
+    this.marquee = {
+      startX: event.clientX,
+      startY: event.clientY,
+      additive: event.shiftKey,
+      active: false,
+    };
+  }
+
+  private handleMouseMove(event: MouseEvent) {
+    this.pointer = { x: event.clientX, y: event.clientY };
+    if (
+      this.stack &&
+      Math.hypot(event.clientX - this.stack.x, event.clientY - this.stack.y) > STACK_RESET_DISTANCE
+    ) {
+      this.endStackCycling();
+    }
+
+    if (!this.marquee) return;
+
+    const rect = this.getMarqueeRect(event);
+    if (!this.marquee.active && Math.max(rect.width, rect.height) < MARQUEE_THRESHOLD) return;
+
+    this.marquee.active = true;
+    this.overlay.setMarquee(rect);
+  }
+
+  private handleMouseUp(event: MouseEvent) {
+    const marquee = this.marquee;
+    this.marquee = null;
+    if (!marquee?.active) return;
+
+    this.overlay.setMarquee(null);
+    this.suppressNextClick = true;
+
+    const elements = getOutermostElementsInRect(this.getMarqueeRect(event, marquee));
+    this.logger.debug('Marquee selection:', elements.length);
+    if (elements.length === 0) return;
+
+    if (marquee.additive) {
+      const selected = this.resolveSelection();
+      this.setSelection([...selected, ...elements.filter((el) => !selected.includes(el))]);
+    } else {
+      this.setSelection(elements);
+    }
+  }
+
+  private getMarqueeRect(event: MouseEvent, marquee = this.marquee): DOMRect {
+    const startX = marquee?.startX ?? event.clientX;
+    const startY = marquee?.startY ?? event.clientY;
+    return new DOMRect(
+      Math.min(startX, event.clientX),
+      Math.min(startY, event.clientY),
+      Math.abs(event.clientX - startX),
+      Math.abs(event.clientY - startY)
+    );
   }
 
   // Toast notifications
@@ -269,38 +841,54 @@ class ContentScript {
   }
 
   // Inject and remove tags
-  private async handleTagInjection(tag: string, tagId: string) {
-    if (!this.state.selectedElementInfo) {
-      return;
+  private async handleTagInjection(
+    tag: string,
+    tagId: string,
+    targets?: ElementInfo[]
+  ): Promise<boolean> {
+    if (!targets && !this.state.selectedElementInfo) {
+      return false;
     }
 
     try {
-      const targetElement = getElementByPath(this.state.selectedElementInfo.path);
-      if (!targetElement) {
+      const targetElements = targets ? this.resolveTargets(targets) : this.resolveSelection();
+      if (targetElements.length === 0) {
         throw new Error('Target element not found');
       }
 
-      this.tagInjection(tag, tagId, targetElement);
+      await this.tagInjection(tag, tagId, targetElements);
       this.toastNotification(chrome.i18n.getMessage('toastTagInjected'), 'success');
+      return true;
     } catch (error) {
       this.logger.error('Tag injection failed:', error);
       this.toastNotification(chrome.i18n.getMessage('toastTagInjectionFailed'), 'error');
+      return false;
     }
   }
 
-  private handleTagRemoval(tagId: string) {
+  private handleTagRemoval(tagId: string): boolean {
     try {
-      document.querySelectorAll(`[${EXTENSION_TAG_ID_ATTRIBUTE}="${tagId}"]`).forEach((element) => {
+      const elements = querySelectorAllDeep(`[${EXTENSION_TAG_ID_ATTRIBUTE}="${tagId}"]`);
+      if (elements.length === 0) {
+        throw new Error(`Injected tag not found: ${tagId}`);
+      }
+
+      elements.forEach((element) => {
         element.remove();
       });
+      this.breakpoints.discardPending();
 
       this.toastNotification(chrome.i18n.getMessage('toastTagRemoved'), 'success');
+      return true;
     } catch (error) {
+      this.logger.error('Tag removal failed:', error);
       this.toastNotification(chrome.i18n.getMessage('toastTagRemoveFailed'), 'error');
+      return false;
     }
   }
 
-  private async tagInjection(tag: string, tagId: string, targetElement: HTMLElement) {
+  // Scripts run once for the page, other elements are added to every target
+  private async tagInjection(tag: string, tagId: string, targetElements: HTMLElement[]) {
     const fragment = this.htmlToFragment(tag);
 
     for (const node of Array.from(fragment.childNodes)) {
@@ -309,9 +897,12 @@ class ContentScript {
           const params = node.src ? { url: node.src } : { script: node.textContent || '' };
           await this.processScript(params);
         } else {
-          const element = node.cloneNode(true) as HTMLElement;
-          element.setAttribute(EXTENSION_TAG_ID_ATTRIBUTE, tagId);
-          targetElement.appendChild(element);
+          targetElements.forEach((targetElement) => {
+            const element = node.cloneNode(true) as HTMLElement;
+            element.setAttribute(EXTENSION_TAG_ID_ATTRIBUTE, tagId);
+            targetElement.appendChild(element);
+          });
+          this.breakpoints.discardPending();
         }
       }
     }
@@ -362,53 +953,391 @@ class ContentScript {
   }
 
   private removeInjectedTags() {
-    document.querySelectorAll(`[${EXTENSION_TAG_ID_ATTRIBUTE}]`).forEach((element) => {
+    querySelectorAllDeep(`[${EXTENSION_TAG_ID_ATTRIBUTE}]`).forEach((element) => {
       element.remove();
     });
+    this.breakpoints.discardPending();
   }
 
   // Element selection
-  private handleSelectedElement(path: number[]) {
-    const element = getElementByPath(path);
-    if (element) {
-      this.elementSelection(element);
+  private handleSelectedElement(path: ElementPath, locator?: ElementLocator, additive = false) {
+    const element = locator ? resolveLocator(locator).element : getElementByPath(path);
+    if (!element) {
+      this.logger.warn('Element to select not found:', locator ?? path);
+      return;
+    }
+
+    element.scrollIntoView({ block: 'nearest', inline: 'nearest' });
+    if (additive) {
+      // Add the element, or make it the primary selection if it is already selected
+      const selected = this.resolveSelection().filter((el) => el !== element);
+      this.setSelection([...selected, element]);
+    } else {
+      this.setSelection([element]);
+    }
+  }
+
+  private handleUnselectElement(path: ElementPath, locator?: ElementLocator) {
+    const element = locator ? resolveLocator(locator).element : getElementByPath(path);
+    if (!element) return;
+
+    this.setSelection(this.resolveSelection().filter((el) => el !== element));
+  }
+
+  private toggleSelection(element: HTMLElement) {
+    const selected = this.resolveSelection();
+    this.setSelection(
+      selected.includes(element) ? selected.filter((el) => el !== element) : [...selected, element]
+    );
+  }
+
+  // Find an element of the selection again, following it if the page has changed around it
+  private resolveElementInfo(elementInfo: ElementInfo): {
+    element: HTMLElement | null;
+    moved: boolean;
+  } {
+    if (!elementInfo.locator) {
+      return { element: getElementByPath(elementInfo.path), moved: false };
     }
+
+    const { element, strategy, ambiguous } = resolveLocator(elementInfo.locator);
+    if (!element) {
+      this.logger.warn('Selected element not found:', elementInfo.locator);
+    } else if (ambiguous) {
+      this.logger.warn('Selected element is ambiguous, using the first match. Strategy:', strategy);
+    }
+    return { element, moved: element !== null && strategy !== 'path' };
   }
 
-  private elementSelection(element: HTMLElement) {
-    // Clear previously selected elements
-    const selectedElements = document.querySelectorAll(`.${EXTENSION_SELECTED_CLASS}`);
-    selectedElements.forEach((el) => {
-      el.classList.remove(EXTENSION_SELECTED_CLASS);
+  // Resolve all selected elements, the primary selection last
+  private resolveSelection(): HTMLElement[] {
+    const elements: HTMLElement[] = [];
+    let changed = false;
+
+    this.state.selection.forEach((elementInfo) => {
+      const { element, moved } = this.resolveElementInfo(elementInfo);
+      if (element && !elements.includes(element)) {
+        elements.push(element);
+      }
+      changed = changed || moved || !element;
     });
 
-    // Clear hover, set selected element, set selected
-    element.classList.remove(EXTENSION_HIGHLIGHT_CLASS);
-    this.state.selectedElementInfo = createElementInfo(element);
-    element.classList.add(EXTENSION_SELECTED_CLASS);
+    if (changed) {
+      // Refresh paths and locators, and let the side panel know where the elements are now
+      this.logger.info('Selected elements changed on the page, updating selection');
+      this.setSelection(elements);
+    }
+    return elements;
+  }
+
+  // Find the elements a change was made to again, to undo or redo it, in the order of the
+  // targets. Targets no longer on the page are null.
+  private findTargets(targets: ElementInfo[]): (HTMLElement | null)[] {
+    return targets.map((target) => this.resolveElementInfo(target).element);
+  }
+
+  private resolveTargets(targets: ElementInfo[]): HTMLElement[] {
+    return uniqueElements(this.findTargets(targets));
+  }
+
+  // Describe the targets of a change as they are after it, so that they are found again once
+  // their text or attributes changed. Targets not found keep their description.
+  private describeTargets(targets: ElementInfo[], elements: (HTMLElement | null)[]) {
+    return targets.map((target, index) => {
+      const element = elements[index];
+      return element ? this.createElementSummary(element) : target;
+    });
+  }
+
+  private resolveSelectedElement(): HTMLElement | null {
+    const elements = this.resolveSelection();
+    return elements[elements.length - 1] ?? null;
+  }
+
+  // Replace the selection; the last element becomes the primary selection
+  private setSelection(elements: HTMLElement[]) {
+    if (elements.length === 0) {
+      this.clearSelection();
+      return;
+    }
+
+    this.overlay.setSelected(elements);
+
+    const primary = elements[elements.length - 1];
+    this.observeSelection(primary);
+    this.state.selection = elements.map((element) => this.createElementSummary(element));
+    const describe = (element: HTMLElement | null) =>
+      element ? this.createElementSummary(element) : undefined;
+    this.state.selectedElementInfo = {
+      ...addTreeLocators(createElementInfo(primary, this.resolveFrameId, ELEMENT_TREE_LIMITS)),
+      locator: this.state.selection[this.state.selection.length - 1].locator,
+      boxModel: getBoxModel(primary),
+      style: getStyleSnapshot(primary, {
+        exclude: (sheet) => (sheet.ownerNode as Element | null)?.id === EXTENSION_STYLES_ID,
+      }),
+      attributes: getPageAttributes(primary),
+      text: primary.textContent ?? '',
+      previousSibling: describe(getPageSibling(primary, 'previous')),
+      nextSibling: describe(getPageSibling(primary, 'next')),
+    };
 
     this.logger.debug('Element selected:', this.state.selectedElementInfo);
     this.connectionManager?.sendMessage('sidepanel', {
       type: 'ELEMENT_SELECTED',
       payload: {
         elementInfo: this.state.selectedElementInfo,
+        selection: this.state.selection,
       } as MessagePayloads['ELEMENT_SELECTED'],
     });
   }
 
-  private clearSelection() {
-    // Clear hovered element
-    if (this.state.hoveredElement) {
-      this.state.hoveredElement.classList.remove(EXTENSION_HIGHLIGHT_CLASS);
-      this.state.hoveredElement = null;
+  // Element info without children, for lists of elements sent to the side panel
+  private createElementSummary(element: HTMLElement): ElementInfo {
+    return {
+      startTag: getElementStartTag(element),
+      path: getElementPath(element),
+      locator: createElementLocator(element),
+      text: element.textContent ?? '',
+      children: [],
+    };
+  }
+
+  // Find elements by CSS selector or XPath, highlight them and report them to the side panel
+  private handleQueryElements(query: string) {
+    if (!query.trim()) {
+      this.overlay.setMatches([]);
+      return;
     }
 
-    // Clear selected elements
-    const selectedElements = document.querySelectorAll(`.${EXTENSION_SELECTED_CLASS}`);
-    selectedElements.forEach((element) => {
-      element.classList.remove(EXTENSION_SELECTED_CLASS);
+    let result: MessagePayloads['QUERY_RESULT'];
+    try {
+      const elements = queryElements(query);
+      this.overlay.setMatches(elements);
+      result = {
+        query,
+        total: elements.length,
+        matches: elements
+          .slice(0, MAX_QUERY_MATCHES)
+          .map((element) => this.createElementSummary(element)),
+      };
+      this.logger.debug('Query matched:', elements.length);
+    } catch (error) {
+      this.overlay.setMatches([]);
+      result = {
+        query,
+        total: 0,
+        matches: [],
+        error: error instanceof Error ? error.message : String(error),
+      };
+      this.logger.warn('Invalid query:', query, error);
+    }
+
+    this.connectionManager?.sendMessage('sidepanel', {
+      type: 'QUERY_RESULT',
+      payload: result,
+    });
+  }
+
+  // Full-text search by visible text, attribute values and tag names
+  private handleSearchDOM(query: string) {
+    const { total, hits } = searchDOM(query, {
+      limit: MAX_QUERY_MATCHES,
+      exclude: (element) => element.hasAttribute(EXTENSION_OVERLAY_ATTRIBUTE),
+    });
+    this.logger.debug('Search matched:', total);
+
+    this.connectionManager?.sendMessage('sidepanel', {
+      type: 'SEARCH_RESULT',
+      payload: {
+        query,
+        total,
+        matches: hits.map(({ element, field, attribute, snippet }) => ({
+          elementInfo: this.createElementSummary(element),
+          field,
+          attribute,
+          snippet,
+        })),
+      } as MessagePayloads['SEARCH_RESULT'],
+    });
+  }
+
+  // Watch the primary selection and its subtree for changes made by the page. The whole document
+  // or shadow root is observed to notice when the element is removed together with an ancestor.
+  private observeSelection(element: HTMLElement | null) {
+    // Disconnecting also drops records of changes the extension has just made itself
+    this.selectionObserver.disconnect();
+    this.pendingMutations = [];
+    window.clearTimeout(this.mutationReportTimer);
+    this.mutationReportTimer = undefined;
+
+    this.observedElement = element;
+    if (!element) return;
+
+    this.selectionObserver.observe(element.getRootNode(), {
+      childList: true,
+      subtree: true,
+      attributes: true,
+      characterData: true,
+    });
+  }
+
+  private handleMutations(records: MutationRecord[]) {
+    const element = this.observedElement;
+    if (!element) return;
+
+    const relevant = records.filter(
+      (record) => element.contains(record.target) && !this.isOwnMutation(record)
+    );
+    if (relevant.length === 0 && element.isConnected) return;
+
+    this.pendingMutations.push(...relevant);
+    this.mutationReportTimer ??= window.setTimeout(
+      () => this.reportMutations(),
+      MUTATION_REPORT_DELAY
+    );
+  }
+
+  // Mutations made by the extension, including the text typed into an element being edited
+  private isOwnMutation(record: MutationRecord): boolean {
+    return isExtensionMutation(record) || !!this.textEditing?.element.contains(record.target);
+  }
+
+  // Send the changed nodes of the selected subtree: children are rebuilt for elements whose child
+  // list changed, other elements only get their start tag and text updated
+  private reportMutations() {
+    const records = this.pendingMutations;
+    const element = this.observedElement;
+    this.pendingMutations = [];
+    this.mutationReportTimer = undefined;
+    if (!element) return;
+
+    if (!element.isConnected) {
+      this.handleSelectionDetached(element);
+      return;
+    }
+
+    const childListTargets = new Set<HTMLElement>();
+    const updatedTargets = new Set<HTMLElement>();
+    records.forEach((record) => {
+      const target = record.target instanceof Element ? record.target : record.target.parentElement;
+      // Skip nodes that have been removed since
+      if (!(target instanceof HTMLElement) || !element.contains(target)) return;
+      (record.type === 'childList' ? childListTargets : updatedTargets).add(target);
     });
 
+    const changes: ElementTreeChange[] = [];
+    Array.from(childListTargets)
+      .map((target) => ({ target, path: getElementPath(target) }))
+      // Rebuild ancestors first so that their new children do not replace rebuilt descendants
+      .sort((a, b) => a.path.length - b.path.length)
+      .forEach(({ target, path }) => {
+        const { children, childCount } = buildChildTrees(
+          target,
+          path,
+          0,
+          ELEMENT_CHILDREN_LIMITS,
+          this.resolveFrameId
+        );
+        changes.push({
+          path,
+          textContent: getDirectTextContent(target) ?? '',
+          children: children.map(addTreeLocators),
+          childCount,
+        });
+      });
+    updatedTargets.forEach((target) => {
+      changes.push({
+        path: getElementPath(target),
+        startTag: getElementStartTag(target),
+        textContent: getDirectTextContent(target) ?? '',
+        locator: createElementLocator(target),
+      });
+    });
+    if (changes.length === 0) return;
+
+    if (this.state.selectedElementInfo) {
+      this.state.selectedElementInfo = applyElementTreeChanges(
+        this.state.selectedElementInfo,
+        changes
+      );
+    }
+    this.logger.debug('Selected subtree changed:', changes.length);
+    this.connectionManager?.sendMessage('sidepanel', {
+      type: 'ELEMENT_TREE_CHANGED',
+      payload: { changes } as MessagePayloads['ELEMENT_TREE_CHANGED'],
+    });
+  }
+
+  // Follow the primary selection if the page replaced it, otherwise report that it is gone
+  private handleSelectionDetached(detached: HTMLElement) {
+    const primary = this.state.selection[this.state.selection.length - 1];
+    const { element } = primary ? this.resolveElementInfo(primary) : { element: null };
+    if (element && element !== detached) {
+      this.logger.info('Selected element was replaced on the page, following it');
+      const elements = this.resolveSelection();
+      // resolveSelection only reports elements found by other means than their path
+      if (this.observedElement === detached) this.setSelection(elements);
+      return;
+    }
+
+    this.logger.info('Selected element was removed from the page');
+    this.observeSelection(null);
+    this.connectionManager?.sendMessage('sidepanel', {
+      type: 'ELEMENT_DETACHED',
+      payload: {
+        elementInfo: this.state.selectedElementInfo,
+      } as MessagePayloads['ELEMENT_DETACHED'],
+    });
+  }
+
+  // Watch an element of the page for the changes the breakpoint catches
+  private handleSetBreakpoint(breakpoint: DOMBreakpoint) {
+    const { element } = this.resolveElementInfo(breakpoint.elementInfo);
+    if (!element) {
+      this.toastNotification(chrome.i18n.getMessage('toastBreakpointFailed'), 'error');
+      return;
+    }
+
+    this.breakpoints.set(breakpoint, element);
+    this.logger.info('DOM breakpoint set:', breakpoint.types, breakpoint.elementInfo.startTag);
+  }
+
+  private handleBreakpointTriggered(
+    breakpoint: DOMBreakpoint,
+    entries: DOMMutationEntry[],
+    changedNode: HTMLElement | null
+  ) {
+    this.logger.info('DOM breakpoint triggered:', entries);
+    this.connectionManager?.sendMessage('sidepanel', {
+      type: 'DOM_MUTATIONS_RECORDED',
+      payload: { entries } as MessagePayloads['DOM_MUTATIONS_RECORDED'],
+    });
+    this.toastNotification(
+      chrome.i18n.getMessage('toastBreakpointTriggered', [
+        breakpoint.elementInfo.locator?.selector ?? breakpoint.elementInfo.startTag,
+      ]),
+      'success'
+    );
+
+    if (breakpoint.selectChangedNode && changedNode) {
+      changedNode.scrollIntoView({ block: 'nearest', inline: 'nearest' });
+      this.setSelection([changedNode]);
+    }
+  }
+
+  private clearHoveredElement() {
+    this.endStackCycling();
+    this.setHoveredElement(null);
+  }
+
+  private clearSelection() {
+    this.clearHoveredElement();
+
+    // Clear selected elements
+    this.overlay.setSelected([]);
+    this.observeSelection(null);
+    this.state.selection = [];
+
     // Clear selected element info
     if (this.state.selectedElementInfo) {
       this.logger.debug('Element unselected:', this.state.selectedElementInfo);
@@ -422,77 +1351,623 @@ class ContentScript {
     }
   }
 
+  // Capture target
+  private async getCaptureTarget(): Promise<CaptureTarget | null> {
+    if (!this.state.selectedElementInfo) {
+      return null;
+    }
+
+    const element = this.resolveSelectedElement();
+    if (!element) {
+      this.logger.warn('Selected element not found for capture');
+      return null;
+    }
+
+    // Bring the element into view and let the page repaint before measuring
+    element.scrollIntoView({ block: 'nearest', inline: 'nearest' });
+    await waitForNextPaint();
+
+    const { x, y, width, height } = element.getBoundingClientRect();
+    return {
+      rect: { x, y, width, height },
+      devicePixelRatio: window.devicePixelRatio,
+      scroll: { x: window.scrollX, y: window.scrollY },
+      parentFrameId: this.parentFrameId,
+    };
+  }
+
+  // Measure the content box of a child frame's iframe in this frame's viewport
+  private async getFramePlacement(frameId: number): Promise<FramePlacement | null> {
+    const frameElement = this.childFrameElements.get(frameId);
+    if (!frameElement?.isConnected) {
+      this.logger.warn('Child frame not found:', frameId);
+      return null;
+    }
+
+    frameElement.scrollIntoView({ block: 'nearest', inline: 'nearest' });
+    await waitForNextPaint();
+
+    // The frame document starts inside the border and padding of the iframe
+    const rect = frameElement.getBoundingClientRect();
+    const style = getComputedStyle(frameElement);
+    const padding = {
+      left: parseFloat(style.paddingLeft),
+      right: parseFloat(style.paddingRight),
+      top: parseFloat(style.paddingTop),
+      bottom: parseFloat(style.paddingBottom),
+    };
+    return {
+      rect: {
+        x: rect.x + frameElement.clientLeft + padding.left,
+        y: rect.y + frameElement.clientTop + padding.top,
+        width: frameElement.clientWidth - padding.left - padding.right,
+        height: frameElement.clientHeight - padding.top - padding.bottom,
+      },
+      parentFrameId: this.parentFrameId,
+    };
+  }
+
+  // Apply the saved patches matching the page, and report them to the background for the action
+  // badge and to the side panel. Patches are saved from the top frame and only applied there, as
+  // their locators would find elements of another document in other frames.
+  private async applyPatches() {
+    if (this.frameInfo?.frameId !== 0) return;
+
+    this.patchResults = this.patches.apply(await loadPatches(), location.href);
+    this.breakpoints.discardPending();
+
+    this.patchResults
+      .filter((result) => result.unresolved.length > 0)
+      .forEach((result) =>
+        this.logger.warn(`Elements of patch "${result.name}" not found:`, result.unresolved)
+      );
+
+    // Reported even without patches, so that the badge of the previous page is cleared
+    chrome.runtime.sendMessage({ type: 'PATCHES_APPLIED', results: this.patchResults });
+    this.sendPatchResults();
+  }
+
+  // Take back the changes saved in a patch before the patch is applied in their place. The
+  // elements get the styles and attributes the page gave them and lose the tracking attributes.
+  private handleRevertSavedChanges(targets: ElementInfo[], tagIds: string[]) {
+    // All elements are found before any of them changes
+    this.resolveTargets(targets).forEach((element) => {
+      this.revertElementStyles(element);
+      this.revertElementAttributes(element);
+    });
+    tagIds.forEach((tagId) =>
+      querySelectorAllDeep(`[${EXTENSION_TAG_ID_ATTRIBUTE}="${tagId}"]`).forEach((element) =>
+        element.remove()
+      )
+    );
+    this.breakpoints.discardPending();
+  }
+
+  private async handleReapplyPatches() {
+    await this.applyPatches();
+
+    if (this.state.selectedElementInfo) {
+      this.setSelection(this.resolveSelection());
+    }
+  }
+
+  private sendPatchResults() {
+    this.connectionManager?.sendMessage('sidepanel', {
+      type: 'PATCH_RESULTS',
+      payload: { results: this.patchResults } as MessagePayloads['PATCH_RESULTS'],
+    });
+  }
+
+  // Send the tree of this frame's document, shown below its iframe in the side panel
+  private handleGetFrameTree() {
+    if (!this.frameInfo) return;
+
+    this.connectionManager?.sendMessage('sidepanel', {
+      type: 'FRAME_TREE',
+      payload: {
+        frameId: this.frameInfo.frameId,
+        elementInfo: addTreeLocators(
+          buildElementTree(
+            document.documentElement,
+            [],
+            this.resolveFrameId,
+            ELEMENT_TREE_LIMITS
+          )[0]
+        ),
+      } as MessagePayloads['FRAME_TREE'],
+    });
+  }
+
+  private handleGetElementHTML() {
+    const element = this.resolveSelectedElement();
+    if (!element) {
+      this.logger.warn('No element selected to get the HTML of');
+      return;
+    }
+
+    this.connectionManager?.sendMessage('sidepanel', {
+      type: 'ELEMENT_HTML',
+      payload: { html: getPageHTML(element) } as MessagePayloads['ELEMENT_HTML'],
+    });
+  }
+
+  // Children of a tree node expanded in the side panel, one page at a time
+  private handleGetElementChildren(path: ElementPath, offset: number) {
+    const node = getTreeNodeByPath(path);
+    if (!node) {
+      this.logger.warn('Tree node to expand not found:', path);
+    }
+
+    const { children, childCount } = node
+      ? buildChildTrees(node, path, offset, ELEMENT_CHILDREN_LIMITS, this.resolveFrameId)
+      : { children: [], childCount: 0 };
+    this.connectionManager?.sendMessage('sidepanel', {
+      type: 'ELEMENT_CHILDREN',
+      payload: {
+        path,
+        offset,
+        children: children.map(addTreeLocators),
+        childCount,
+      } as MessagePayloads['ELEMENT_CHILDREN'],
+    });
+  }
+
+  private getPageMetrics(): PageMetrics {
+    const root = document.scrollingElement ?? document.documentElement;
+    return {
+      scrollWidth: root.scrollWidth,
+      scrollHeight: root.scrollHeight,
+      viewportWidth: document.documentElement.clientWidth,
+      viewportHeight: document.documentElement.clientHeight,
+      scrollX: window.scrollX,
+      scrollY: window.scrollY,
+      devicePixelRatio: window.devicePixelRatio,
+    };
+  }
+
+  // Scroll without smooth scrolling and report where the page actually ended up
+  private async scrollTo(position: ScrollPosition): Promise<ScrollPosition> {
+    window.scrollTo({ left: position.x, top: position.y, behavior: 'instant' as ScrollBehavior });
+    await waitForNextPaint();
+    return { x: window.scrollX, y: window.scrollY };
+  }
+
   // Toggles selection mode
-  private handleToggleSelectionMode(enabled: boolean) {
+  private handleToggleSelectionMode(enabled: boolean, keepSelection = false) {
     this.state.isSelectionMode = enabled;
     if (!enabled) {
       this.logger.debug('Selection mode disabled');
-      this.clearSelection();
+      if (keepSelection) {
+        this.clearHoveredElement();
+      } else {
+        this.clearSelection();
+      }
     }
 
-    document.documentElement.classList.toggle(EXTENSION_SELECTION_MODE_CLASS, enabled);
-    document.body.classList.toggle(EXTENSION_SELECTION_MODE_CLASS, enabled);
+    this.setSelectionModeStyles(enabled);
 
     this.logger.debug('Selection mode toggled:', this.state.isSelectionMode);
   }
 
   // Update element style
-  private handleUpdateElementStyle(property: string, value: string) {
-    if (!this.state.selectedElementInfo) {
+  private handleUpdateElementStyle(
+    property: string,
+    value: string | string[],
+    targets?: ElementInfo[]
+  ): CommandOutcome {
+    if (!targets && !this.state.selectedElementInfo) {
       this.logger.error('No element selected for style update');
-      return;
+      return { success: false };
     }
 
     try {
-      const targetElement = getElementByPath(this.state.selectedElementInfo.path);
-      if (!targetElement) {
+      const valueFor = (index: number) => (Array.isArray(value) ? (value[index] ?? '') : value);
+      const found = targets ? this.findTargets(targets) : this.resolveSelection();
+      const targetElements = uniqueElements(found);
+      if (targetElements.length === 0) {
         throw new Error('Target element not found');
       }
 
-      let modifiedStyles: { [key: string]: string } = {};
-      const existingStyles = targetElement.getAttribute(EXTENSION_STYLE_MODIFIED_ATTRIBUTE);
-      if (existingStyles) {
-        modifiedStyles = JSON.parse(existingStyles);
-      }
-
-      // Update element style
-      targetElement.style[property as any] = value;
-
-      // Update modified styles
-      modifiedStyles[property] = value;
-      targetElement.setAttribute(
-        EXTENSION_STYLE_MODIFIED_ATTRIBUTE,
-        JSON.stringify(modifiedStyles)
-      );
+      // Read before anything changes, so that the change can be undone on each target
+      const oldValues = found.map((element) => element?.style.getPropertyValue(property) ?? '');
+      found.forEach((element, index) => {
+        if (element) this.updateElementStyle(element, property, valueFor(index));
+      });
+      // Report the new computed style and box model to the side panel
+      this.setSelection(targetElements);
 
       this.logger.info('Element style updated:', {
         property,
         value,
-        path: this.state.selectedElementInfo.path,
+        elements: targetElements.length,
       });
 
       this.toastNotification(chrome.i18n.getMessage('toastStyleUpdated'), 'success');
+      return {
+        success: true,
+        targets: targets && this.describeTargets(targets, found),
+        oldValues,
+      };
     } catch (error) {
+      this.logger.error('Failed to update style:', error);
       this.toastNotification(chrome.i18n.getMessage('toastStyleUpdateFailed'), 'error');
+      return { success: false };
     }
   }
 
+  // Apply a style, remembering the inline value the page had so that it can be restored
+  private updateElementStyle(element: HTMLElement, property: string, value: string) {
+    let originalStyles: { [key: string]: string } = {};
+    const existingStyles = element.getAttribute(EXTENSION_STYLE_MODIFIED_ATTRIBUTE);
+    if (existingStyles) {
+      originalStyles = JSON.parse(existingStyles);
+    }
+
+    if (!(property in originalStyles)) {
+      originalStyles[property] = element.style.getPropertyValue(property);
+    }
+    element.style.setProperty(property, value);
+
+    element.setAttribute(EXTENSION_STYLE_MODIFIED_ATTRIBUTE, JSON.stringify(originalStyles));
+    this.breakpoints.discardPending();
+  }
+
+  private revertElementStyles(element: HTMLElement) {
+    const originalStyles = JSON.parse(
+      element.getAttribute(EXTENSION_STYLE_MODIFIED_ATTRIBUTE) || '{}'
+    );
+
+    // Restore each modified style property
+    Object.entries(originalStyles).forEach(([property, value]) => {
+      element.style.setProperty(property, value as string);
+    });
+
+    // Remove the tracking attribute
+    element.removeAttribute(EXTENSION_STYLE_MODIFIED_ATTRIBUTE);
+    this.breakpoints.discardPending();
+  }
+
+  // Revert the style changes made to one element, and report the styles of the selection again
+  private handleRevertElementStyles(path: ElementPath, locator?: ElementLocator) {
+    const element = locator ? resolveLocator(locator).element : getElementByPath(path);
+    if (!element) {
+      this.logger.warn('Element to revert styles of not found:', locator ?? path);
+      this.toastNotification(chrome.i18n.getMessage('toastRevertFailed'), 'error');
+      return;
+    }
+
+    this.revertElementStyles(element);
+    if (this.state.selectedElementInfo) {
+      this.setSelection(this.resolveSelection());
+    }
+    this.connectionManager?.sendMessage('sidepanel', {
+      type: 'ELEMENT_STYLES_REVERTED',
+      payload: { path, locator } as MessagePayloads['ELEMENT_STYLES_REVERTED'],
+    });
+
+    this.logger.info('Element styles reverted:', locator?.selector ?? path);
+    this.toastNotification(chrome.i18n.getMessage('toastElementReverted'), 'success');
+  }
+
   private revertModifiedStyles() {
-    const modifiedElements = document.querySelectorAll(`[${EXTENSION_STYLE_MODIFIED_ATTRIBUTE}]`);
+    const modifiedElements = querySelectorAllDeep(`[${EXTENSION_STYLE_MODIFIED_ATTRIBUTE}]`);
+    modifiedElements.forEach((element) => this.revertElementStyles(element as HTMLElement));
+  }
 
-    modifiedElements.forEach((element) => {
-      const modifiedStyles = JSON.parse(
-        element.getAttribute(EXTENSION_STYLE_MODIFIED_ATTRIBUTE) || '{}'
-      );
+  // Set or remove an attribute of the selected elements, null removes it
+  private handleUpdateElementAttribute(
+    name: string,
+    value: string | null,
+    targets?: ElementInfo[]
+  ): CommandOutcome {
+    if (!targets && !this.state.selectedElementInfo) {
+      this.logger.error('No element selected for attribute update');
+      return { success: false };
+    }
+
+    try {
+      if (name.startsWith(EXTENSION_ATTRIBUTE_PREFIX)) {
+        throw new Error(`Attribute is reserved for the extension: ${name}`);
+      }
+      const found = targets ? this.findTargets(targets) : this.resolveSelection();
+      const targetElements = uniqueElements(found);
+      if (targetElements.length === 0) {
+        throw new Error('Target element not found');
+      }
+
+      targetElements.forEach((element) => this.updateElementAttribute(element, name, value));
+      // Report the new attributes, locator and styles to the side panel
+      this.setSelection(targetElements);
 
-      // Reset each modified style property
-      Object.keys(modifiedStyles).forEach((property) => {
-        (element as HTMLElement).style[property as any] = '';
+      this.logger.info('Element attribute updated:', {
+        name,
+        value,
+        elements: targetElements.length,
       });
 
-      // Remove the tracking attribute
-      element.removeAttribute(EXTENSION_STYLE_MODIFIED_ATTRIBUTE);
+      this.toastNotification(chrome.i18n.getMessage('toastAttributeUpdated'), 'success');
+      return { success: true, targets: targets && this.describeTargets(targets, found) };
+    } catch (error) {
+      this.logger.error('Failed to update attribute:', error);
+      this.toastNotification(chrome.i18n.getMessage('toastAttributeUpdateFailed'), 'error');
+      return { success: false };
+    }
+  }
+
+  // Apply an attribute, remembering the value the page had (null if absent) so it can be restored
+  private updateElementAttribute(element: HTMLElement, name: string, value: string | null) {
+    const originalAttributes: Record<string, string | null> = JSON.parse(
+      element.getAttribute(EXTENSION_ATTRIBUTE_MODIFIED_ATTRIBUTE) || '{}'
+    );
+    const originalValue = element.getAttribute(name);
+
+    // Throws for names the DOM does not accept, before anything is recorded
+    if (value === null) {
+      element.removeAttribute(name);
+    } else {
+      element.setAttribute(name, value);
+    }
+
+    if (!(name in originalAttributes)) {
+      originalAttributes[name] = originalValue;
+    }
+    element.setAttribute(
+      EXTENSION_ATTRIBUTE_MODIFIED_ATTRIBUTE,
+      JSON.stringify(originalAttributes)
+    );
+    this.breakpoints.discardPending();
+  }
+
+  private revertElementAttributes(element: HTMLElement) {
+    const originalAttributes: Record<string, string | null> = JSON.parse(
+      element.getAttribute(EXTENSION_ATTRIBUTE_MODIFIED_ATTRIBUTE) || '{}'
+    );
+
+    Object.entries(originalAttributes).forEach(([name, value]) => {
+      if (value === null) {
+        element.removeAttribute(name);
+      } else {
+        element.setAttribute(name, value);
+      }
     });
+
+    element.removeAttribute(EXTENSION_ATTRIBUTE_MODIFIED_ATTRIBUTE);
+    this.breakpoints.discardPending();
+  }
+
+  private revertModifiedAttributes() {
+    const modifiedElements = querySelectorAllDeep(`[${EXTENSION_ATTRIBUTE_MODIFIED_ATTRIBUTE}]`);
+    modifiedElements.forEach((element) => this.revertElementAttributes(element as HTMLElement));
+  }
+
+  // Replace the content of the selected elements or the targets with text, or with the text given
+  // for each of them
+  private handleUpdateElementText(
+    text: string | string[],
+    targets?: ElementInfo[]
+  ): CommandOutcome {
+    if (!targets && !this.state.selectedElementInfo) {
+      this.logger.error('No element selected for text update');
+      return { success: false };
+    }
+
+    try {
+      const textFor = (index: number) => (Array.isArray(text) ? (text[index] ?? '') : text);
+      // Targets are paired with their text before those no longer on the page are left out
+      const found = targets ? this.findTargets(targets) : this.resolveSelection();
+      const updates = found.flatMap((element, index) =>
+        element ? [{ element, text: textFor(index) }] : []
+      );
+      if (updates.length === 0) {
+        throw new Error('Target element not found');
+      }
+
+      updates.forEach(({ element, text }) => this.updateElementText(element, text));
+      const targetElements = updates.map(({ element }) => element);
+      this.setSelection(targetElements);
+
+      this.logger.info('Element text updated:', { text, elements: targetElements.length });
+      this.toastNotification(chrome.i18n.getMessage('toastTextUpdated'), 'success');
+      return { success: true, targets: targets && this.describeTargets(targets, found) };
+    } catch (error) {
+      this.logger.error('Failed to update text:', error);
+      this.toastNotification(chrome.i18n.getMessage('toastTextUpdateFailed'), 'error');
+      return { success: false };
+    }
+  }
+
+  // Replace the content of an element with text, keeping the nodes the page had to put back
+  private updateElementText(element: HTMLElement, text: string) {
+    this.texts.replace(element, text);
+    this.breakpoints.discardPending();
+  }
+
+  private revertElementText(element: HTMLElement) {
+    if (this.texts.restore(element)) this.breakpoints.discardPending();
+  }
+
+  private revertModifiedTexts() {
+    this.texts.restoreAll();
+    this.breakpoints.discardPending();
+  }
+
+  // Make the primary selection editable on the page: Enter or leaving the element ends the edit,
+  // Shift+Enter adds a line break and Esc cancels the edit
+  private handleEditElementText() {
+    const element = this.resolveSelectedElement();
+    if (!element) {
+      this.logger.error('No element selected for text editing');
+      this.toastNotification(chrome.i18n.getMessage('toastTextUpdateFailed'), 'error');
+      return;
+    }
+
+    if (this.state.isSelectionMode) this.exitSelectionMode();
+    this.finishTextEditing(true);
+
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.key === 'Enter' && !event.shiftKey) {
+        element.blur();
+      } else if (event.key === 'Escape') {
+        this.finishTextEditing(false);
+      } else {
+        return;
+      }
+      event.preventDefault();
+      event.stopPropagation();
+    };
+    const handleBlur = () => this.finishTextEditing(true);
+    element.addEventListener('keydown', handleKeyDown);
+    element.addEventListener('blur', handleBlur);
+
+    this.textEditing = {
+      element,
+      restore: snapshotSubtree(element),
+      text: element.textContent ?? '',
+      contentEditable: element.getAttribute('contenteditable'),
+      removeListeners: () => {
+        element.removeEventListener('keydown', handleKeyDown);
+        element.removeEventListener('blur', handleBlur);
+      },
+    };
+    element.setAttribute('contenteditable', 'plaintext-only');
+    element.focus();
+
+    this.toastNotification(chrome.i18n.getMessage('toastTextEditingStarted'), 'success');
+  }
+
+  // End editing on the page, reporting the new text or putting back the content it started with
+  private finishTextEditing(commit: boolean) {
+    const editing = this.textEditing;
+    if (!editing) return;
+    this.textEditing = null;
+
+    const { element } = editing;
+    editing.removeListeners();
+    if (editing.contentEditable === null) {
+      element.removeAttribute('contenteditable');
+    } else {
+      element.setAttribute('contenteditable', editing.contentEditable);
+    }
+
+    // The nodes the element had are put back, so that committing keeps them as the original
+    const text = element.textContent ?? '';
+    editing.restore();
+    this.breakpoints.discardPending();
+    if (!commit || text === editing.text) return;
+
+    this.updateElementText(element, text);
+    this.connectionManager?.sendMessage('sidepanel', {
+      type: 'ELEMENT_TEXT_EDITED',
+      payload: {
+        oldText: editing.text,
+        newText: text,
+        target: this.createElementSummary(element),
+      } as MessagePayloads['ELEMENT_TEXT_EDITED'],
+    });
+    this.setSelection(this.resolveSelection());
+
+    this.logger.info('Element text edited on the page:', text);
+    this.toastNotification(chrome.i18n.getMessage('toastTextUpdated'), 'success');
+  }
+
+  // Hide, delete, duplicate or move elements, keeping a record to put the page back
+  private handleEditElementStructure(operation: StructureOperation) {
+    try {
+      const selection = this.resolveSelection();
+      const edit =
+        operation.type === 'move'
+          ? createMoveEdit(operation, selection)
+          : operation.type === 'replace'
+            ? createReplaceEdit(operation.html, selection)
+            : createSelectionEdit(operation.type, selection);
+      const { change, apply, select } = edit;
+      apply();
+      this.breakpoints.discardPending();
+
+      this.structureEdits.push({ ...edit, selection });
+      this.undoneStructureEdits.splice(0);
+      this.setSelection(select);
+      this.connectionManager?.sendMessage('sidepanel', {
+        type: 'ELEMENT_STRUCTURE_EDITED',
+        payload: { change } as MessagePayloads['ELEMENT_STRUCTURE_EDITED'],
+      });
+
+      this.logger.info('Element structure edited:', change);
+      this.toastNotification(chrome.i18n.getMessage('toastStructureEdited'), 'success');
+    } catch (error) {
+      this.logger.error('Failed to edit element structure:', error);
+      this.toastNotification(chrome.i18n.getMessage('toastStructureEditFailed'), 'error');
+    }
+  }
+
+  // Undo a structural edit and select what was selected before it
+  private handleRevertStructureEdit(id: string): boolean {
+    const index = this.structureEdits.findIndex((edit) => edit.change.id === id);
+    if (index === -1) {
+      this.logger.warn('Structure edit to revert not found:', id);
+      this.toastNotification(chrome.i18n.getMessage('toastRevertFailed'), 'error');
+      return false;
+    }
+
+    const [edit] = this.structureEdits.splice(index, 1);
+    edit.revert();
+    this.breakpoints.discardPending();
+    this.undoneStructureEdits.push(edit);
+    this.setSelection(edit.selection.filter((element) => element.isConnected));
+
+    this.logger.info('Structure edit reverted:', id);
+    this.toastNotification(chrome.i18n.getMessage('toastElementReverted'), 'success');
+    return true;
+  }
+
+  // Redo a structural edit that was undone and select what it selected
+  private handleReapplyStructureEdit(id: string): boolean {
+    const index = this.undoneStructureEdits.findIndex((edit) => edit.change.id === id);
+    if (index === -1) {
+      this.logger.warn('Structure edit to reapply not found:', id);
+      this.toastNotification(chrome.i18n.getMessage('toastStructureEditFailed'), 'error');
+      return false;
+    }
+
+    const [edit] = this.undoneStructureEdits.splice(index, 1);
+    edit.apply();
+    this.breakpoints.discardPending();
+    this.structureEdits.push(edit);
+    this.setSelection(edit.select.filter((element) => element.isConnected));
+
+    this.logger.info('Structure edit reapplied:', id);
+    this.toastNotification(chrome.i18n.getMessage('toastStructureEdited'), 'success');
+    return true;
+  }
+
+  // Undo all structural edits, the latest first
+  private revertStructureEdits() {
+    this.undoneStructureEdits.splice(0);
+    this.structureEdits
+      .splice(0)
+      .reverse()
+      .forEach((edit) => edit.revert());
+    this.breakpoints.discardPending();
+  }
+
+  // Revert the styles, attributes, text and tags the extension has applied to one element
+  private handleRevertElementChanges(path: ElementPath, locator?: ElementLocator) {
+    const element = locator ? resolveLocator(locator).element : getElementByPath(path);
+    if (!element) {
+      this.logger.warn('Element to revert not found:', locator ?? path);
+      this.toastNotification(chrome.i18n.getMessage('toastRevertFailed'), 'error');
+      return;
+    }
+
+    this.revertElementStyles(element);
+    this.revertElementAttributes(element);
+    this.revertElementText(element);
+    Array.from(element.children)
+      .filter((child) => child.hasAttribute(EXTENSION_TAG_ID_ATTRIBUTE))
+      .forEach((child) => child.remove());
+
+    this.logger.info('Element changes reverted:', locator?.selector ?? path);
+    this.toastNotification(chrome.i18n.getMessage('toastElementReverted'), 'success');
   }
 }
 
@@ -0,0 +1,172 @@
+import { nanoid } from 'nanoid';
+import { DOMBreakpoint, DOMMutationEntry, ElementInfo } from '../types/types';
+import { getElementStartTag } from '../utils/domSelection';
+
+// Longest text kept for changed text and added or removed text nodes
+const MAX_TEXT_LENGTH = 200;
+
+/**
+ * Called with the changes one breakpoint caught in a batch of mutations, and the node that
+ * changed first if it is still on the page
+ */
+export type BreakpointCallback = (
+  breakpoint: DOMBreakpoint,
+  entries: DOMMutationEntry[],
+  changedNode: HTMLElement | null
+) => void;
+
+interface WatchedElement {
+  breakpoint: DOMBreakpoint;
+  element: HTMLElement;
+  observer: MutationObserver;
+  /** Whether the element was on the page after the last batch, to report removal once */
+  connected: boolean;
+}
+
+const truncate = (text: string): string =>
+  text.length > MAX_TEXT_LENGTH ? `${text.slice(0, MAX_TEXT_LENGTH)}…` : text;
+
+const describeNode = (node: Node): string => {
+  if (node instanceof HTMLElement) return getElementStartTag(node);
+  if (node.nodeType === Node.TEXT_NODE) return truncate(JSON.stringify(node.textContent ?? ''));
+  return node.nodeName;
+};
+
+// Scripts on the page, the external ones by URL
+const getPageScripts = (): Pick<DOMMutationEntry, 'scripts' | 'inlineScripts'> => {
+  const scripts = Array.from(document.scripts);
+  return {
+    scripts: scripts.filter((script) => script.src).map((script) => script.src),
+    inlineScripts: scripts.filter((script) => !script.src).length,
+  };
+};
+
+/**
+ * Watches elements for changes made by the page, like the DOM breakpoints of browser developer
+ * tools. Each breakpoint has its own MutationObserver on the element, and on the document or
+ * shadow root the element is in when its removal is watched.
+ */
+export class DOMBreakpointWatcher {
+  private readonly watched = new Map<string, WatchedElement>();
+
+  /**
+   * @param onTrigger - Called when a breakpoint catches changes
+   * @param isIgnored - Whether a mutation was made by the extension and is not reported
+   * @param describeElement - Element info without children for an element on the page
+   */
+  constructor(
+    private readonly onTrigger: BreakpointCallback,
+    private readonly isIgnored: (record: MutationRecord) => boolean,
+    private readonly describeElement: (element: HTMLElement) => ElementInfo
+  ) {}
+
+  /**
+   * Watch an element, replacing the breakpoint with the same ID
+   */
+  public set(breakpoint: DOMBreakpoint, element: HTMLElement) {
+    this.remove(breakpoint.id);
+
+    const { types } = breakpoint;
+    const observer = new MutationObserver((records) => this.handleRecords(breakpoint.id, records));
+    if (types.includes('subtree') || types.includes('attributes')) {
+      const subtree = types.includes('subtree');
+      observer.observe(element, {
+        attributes: types.includes('attributes'),
+        attributeOldValue: types.includes('attributes'),
+        childList: subtree,
+        characterData: subtree,
+        characterDataOldValue: subtree,
+        subtree,
+      });
+    }
+    if (types.includes('removal')) {
+      observer.observe(element.getRootNode(), { childList: true, subtree: true });
+    }
+
+    this.watched.set(breakpoint.id, { breakpoint, element, observer, connected: true });
+  }
+
+  public remove(id: string) {
+    this.watched.get(id)?.observer.disconnect();
+    this.watched.delete(id);
+  }
+
+  public clear() {
+    Array.from(this.watched.keys()).forEach((id) => this.remove(id));
+  }
+
+  /**
+   * Drop the changes observed so far, after the extension itself has changed the page
+   */
+  public discardPending() {
+    this.watched.forEach(({ observer }) => observer.takeRecords());
+  }
+
+  private handleRecords(id: string, records: MutationRecord[]) {
+    const watched = this.watched.get(id);
+    if (!watched) return;
+
+    const { breakpoint, element } = watched;
+    const scripts = getPageScripts();
+    const entries: DOMMutationEntry[] = [];
+    let changedNode: HTMLElement | null = null;
+
+    const addEntry = (
+      changed: HTMLElement | null,
+      entry: Omit<DOMMutationEntry, 'id' | 'breakpointId' | 'timestamp' | 'target'>
+    ) => {
+      const target = changed?.isConnected ? this.describeElement(changed) : breakpoint.elementInfo;
+      entries.push({ id: nanoid(), breakpointId: id, timestamp: Date.now(), target, ...entry });
+      if (!changedNode && changed?.isConnected) changedNode = changed;
+    };
+
+    records
+      .filter((record) => !this.isIgnored(record))
+      .forEach((record) => {
+        if (record.type === 'attributes') {
+          // Attributes of descendants are observed along with the subtree, but not caught
+          if (record.target !== element || !breakpoint.types.includes('attributes')) return;
+          addEntry(element, {
+            type: 'attributes',
+            attributeName: record.attributeName ?? undefined,
+            oldValue: record.oldValue,
+            newValue: element.getAttribute(record.attributeName ?? ''),
+            ...scripts,
+          });
+          return;
+        }
+
+        // Child list changes elsewhere in the document are only observed to notice removal
+        if (!breakpoint.types.includes('subtree') || !element.contains(record.target)) return;
+        const changed =
+          record.target instanceof HTMLElement ? record.target : record.target.parentElement;
+        if (record.type === 'characterData') {
+          addEntry(changed, {
+            type: 'subtree',
+            oldValue: record.oldValue,
+            newValue: record.target.textContent,
+            ...scripts,
+          });
+        } else {
+          const added = Array.from(record.addedNodes);
+          addEntry(
+            added.find((node): node is HTMLElement => node instanceof HTMLElement) ?? changed,
+            {
+              type: 'subtree',
+              addedNodes: added.map(describeNode),
+              removedNodes: Array.from(record.removedNodes).map(describeNode),
+              ...scripts,
+            }
+          );
+        }
+      });
+
+    const connected = element.isConnected;
+    if (breakpoint.types.includes('removal') && watched.connected && !connected) {
+      addEntry(null, { type: 'removal', ...scripts });
+    }
+    watched.connected = connected;
+
+    if (entries.length > 0) this.onTrigger(breakpoint, entries, changedNode);
+  }
+}
@@ -0,0 +1,332 @@
+import { BoxEdges } from '../types/types';
+import { formatBoxValue, getBoxModel, getElementLabel } from '../utils/boxModel';
+
+// Attribute marking the overlay host, so that it can be told apart from page elements
+export const EXTENSION_OVERLAY_ATTRIBUTE = 'data-extension-overlay';
+
+// Space in pixels kept between the label and the highlighted element
+const LABEL_GAP = 4;
+
+// Each layer of the box model is drawn as the border of the layer around it
+const OVERLAY_STYLES = `
+  .box,
+  .box div {
+    box-sizing: border-box;
+    border-style: solid;
+    border-width: 0;
+  }
+
+  .box {
+    position: fixed;
+    border-color: rgba(246, 178, 107, 0.66);
+  }
+
+  .border-box,
+  .padding-box,
+  .content-box {
+    width: 100%;
+    height: 100%;
+  }
+
+  .border-box {
+    border-color: rgba(255, 229, 153, 0.66);
+  }
+
+  .padding-box {
+    border-color: rgba(147, 196, 125, 0.55);
+  }
+
+  .content-box {
+    background-color: rgba(111, 168, 220, 0.66);
+  }
+
+  .selected .border-box {
+    outline: 2px solid #4682b4;
+  }
+
+  .match {
+    position: fixed;
+    outline: 1px dashed #a855f7;
+    background-color: rgba(168, 85, 247, 0.08);
+  }
+
+  .label {
+    position: fixed;
+    max-width: 320px;
+    padding: 2px 6px;
+    border-radius: 4px;
+    background-color: #333;
+    color: #fff;
+    font: 11px/1.5 monospace;
+    white-space: nowrap;
+    overflow: hidden;
+    text-overflow: ellipsis;
+  }
+
+  .label-name {
+    color: #f0a5ff;
+  }
+
+  .label-size {
+    color: #ccc;
+  }
+
+  .marquee {
+    position: fixed;
+    border: 1px dashed #4682b4;
+    background-color: rgba(70, 130, 180, 0.15);
+  }
+
+  .indicator {
+    position: fixed;
+    padding: 2px 6px;
+    border-radius: 4px;
+    background-color: #4682b4;
+    color: #fff;
+    font: 12px/1.4 monospace;
+    white-space: nowrap;
+  }
+
+  [hidden] {
+    display: none;
+  }
+`;
+
+/**
+ * Draws hover and selection highlights above the page without touching page elements. The
+ * overlay lives in a closed shadow root, so page styles cannot reach it, and its boxes follow
+ * the highlighted elements on scroll and resize.
+ */
+export class HighlightOverlay {
+  private readonly host: HTMLElement;
+  private readonly boxLayer: HTMLDivElement;
+  private readonly marquee: HTMLDivElement;
+  private readonly indicator: HTMLDivElement;
+  private readonly resizeObserver: ResizeObserver;
+  private hovered: HTMLElement | null = null;
+  private selected: HTMLElement[] = [];
+  private matches: HTMLElement[] = [];
+  private frameRequest: number | null = null;
+
+  constructor() {
+    this.host = document.createElement('div');
+    this.host.setAttribute(EXTENSION_OVERLAY_ATTRIBUTE, '');
+    const hostStyles: Record<string, string> = {
+      all: 'initial',
+      position: 'fixed',
+      inset: '0',
+      'pointer-events': 'none',
+      'z-index': '2147483647',
+    };
+    Object.entries(hostStyles).forEach(([property, value]) => {
+      this.host.style.setProperty(property, value, 'important');
+    });
+
+    const root = this.host.attachShadow({ mode: 'closed' });
+    const style = document.createElement('style');
+    style.textContent = OVERLAY_STYLES;
+    this.boxLayer = document.createElement('div');
+    this.marquee = this.createLayer('marquee');
+    this.indicator = this.createLayer('indicator');
+    root.append(style, this.boxLayer, this.marquee, this.indicator);
+
+    this.resizeObserver = new ResizeObserver(this.scheduleUpdate);
+    window.addEventListener('scroll', this.scheduleUpdate, { capture: true, passive: true });
+    window.addEventListener('resize', this.scheduleUpdate, { passive: true });
+  }
+
+  public setHovered(element: HTMLElement | null) {
+    if (element === this.hovered) return;
+    this.hovered = element;
+    this.observeElements();
+    this.update();
+  }
+
+  public setSelected(elements: HTMLElement[]) {
+    this.selected = [...elements];
+    this.observeElements();
+    this.update();
+  }
+
+  // Matches of a query typed in the side panel, outlined without their box model
+  public setMatches(elements: HTMLElement[]) {
+    this.matches = [...elements];
+    this.observeElements();
+    this.update();
+  }
+
+  public setMarquee(rect: DOMRect | null) {
+    this.marquee.hidden = !rect;
+    if (rect) {
+      this.ensureAttached();
+      this.setBounds(this.marquee, rect);
+    }
+  }
+
+  public showIndicator(text: string, x: number, y: number) {
+    this.ensureAttached();
+    this.indicator.textContent = text;
+    this.indicator.style.left = `${x}px`;
+    this.indicator.style.top = `${y}px`;
+    this.indicator.hidden = false;
+  }
+
+  public hideIndicator() {
+    this.indicator.hidden = true;
+  }
+
+  // Hide everything, for example while the page is captured
+  public setSuspended(suspended: boolean) {
+    this.host.style.setProperty('display', suspended ? 'none' : 'block', 'important');
+  }
+
+  public clear() {
+    this.hovered = null;
+    this.selected = [];
+    this.matches = [];
+    this.setMarquee(null);
+    this.hideIndicator();
+    this.observeElements();
+    this.update();
+  }
+
+  private createLayer(className: string): HTMLDivElement {
+    const layer = document.createElement('div');
+    layer.className = className;
+    layer.hidden = true;
+    return layer;
+  }
+
+  // The page may replace the document content, so attach again when needed
+  private ensureAttached() {
+    if (!this.host.isConnected) {
+      document.documentElement.appendChild(this.host);
+    }
+  }
+
+  private observeElements() {
+    this.resizeObserver.disconnect();
+    [this.hovered, ...this.selected, ...this.matches].forEach((element) => {
+      if (element) this.resizeObserver.observe(element);
+    });
+  }
+
+  private scheduleUpdate = () => {
+    if (this.frameRequest !== null) return;
+    this.frameRequest = requestAnimationFrame(() => {
+      this.frameRequest = null;
+      this.update();
+    });
+  };
+
+  private update() {
+    const boxes = [
+      ...this.matches.map((element) => this.createMatchBox(element)),
+      ...this.selected.map((element) => this.createBox(element, 'selected')),
+      ...(this.hovered && !this.selected.includes(this.hovered)
+        ? [this.createBox(this.hovered, 'hover')]
+        : []),
+    ].filter((box): box is HTMLDivElement => box !== null);
+
+    // Label the hovered element, or the primary selection when nothing is hovered
+    const labelTarget = this.hovered ?? this.selected[this.selected.length - 1];
+    const label = labelTarget?.isConnected ? this.createLabel(labelTarget) : null;
+
+    if (boxes.length > 0) {
+      this.ensureAttached();
+    }
+    this.boxLayer.replaceChildren(...boxes, ...(label ? [label] : []));
+    if (label && labelTarget) {
+      this.placeLabel(label, labelTarget);
+    }
+  }
+
+  private createBox(element: HTMLElement, className: string): HTMLDivElement | null {
+    if (!element.isConnected) return null;
+
+    const { margin, border, padding } = getBoxModel(element);
+    const rect = element.getBoundingClientRect();
+    // Negative margins pull in neighbours rather than adding space, so they are not drawn
+    const outer = {
+      top: Math.max(0, margin.top),
+      right: Math.max(0, margin.right),
+      bottom: Math.max(0, margin.bottom),
+      left: Math.max(0, margin.left),
+    };
+
+    const box = document.createElement('div');
+    box.className = `box ${className}`;
+    this.setBounds(
+      box,
+      new DOMRect(
+        rect.left - outer.left,
+        rect.top - outer.top,
+        rect.width + outer.left + outer.right,
+        rect.height + outer.top + outer.bottom
+      )
+    );
+    this.setEdges(box, outer);
+
+    const borderBox = box.appendChild(document.createElement('div'));
+    borderBox.className = 'border-box';
+    this.setEdges(borderBox, border);
+    const paddingBox = borderBox.appendChild(document.createElement('div'));
+    paddingBox.className = 'padding-box';
+    this.setEdges(paddingBox, padding);
+    const contentBox = paddingBox.appendChild(document.createElement('div'));
+    contentBox.className = 'content-box';
+
+    return box;
+  }
+
+  private createMatchBox(element: HTMLElement): HTMLDivElement | null {
+    if (!element.isConnected) return null;
+
+    const box = document.createElement('div');
+    box.className = 'match';
+    this.setBounds(box, element.getBoundingClientRect());
+    return box;
+  }
+
+  // Label in the style of the DevTools inspector: tag#id.class, size and position
+  private createLabel(element: HTMLElement): HTMLDivElement {
+    const { x, y, width, height } = getBoxModel(element);
+    const label = document.createElement('div');
+    label.className = 'label';
+
+    const name = label.appendChild(document.createElement('span'));
+    name.className = 'label-name';
+    name.textContent = getElementLabel(element);
+    const size = label.appendChild(document.createElement('span'));
+    size.className = 'label-size';
+    size.textContent = ` ${formatBoxValue(width)} × ${formatBoxValue(height)} @ ${formatBoxValue(x)}, ${formatBoxValue(y)}`;
+
+    return label;
+  }
+
+  // Place the label above the element, or below it when there is no room, within the viewport
+  private placeLabel(label: HTMLDivElement, element: HTMLElement) {
+    const rect = element.getBoundingClientRect();
+    const { offsetWidth, offsetHeight } = label;
+    const above = rect.top - offsetHeight - LABEL_GAP;
+    const top =
+      above >= 0 ? above : Math.min(rect.bottom + LABEL_GAP, window.innerHeight - offsetHeight);
+    const left = Math.min(Math.max(0, rect.left), Math.max(0, window.innerWidth - offsetWidth));
+
+    label.style.left = `${left}px`;
+    label.style.top = `${Math.max(0, top)}px`;
+  }
+
+  private setEdges(target: HTMLElement, edges: BoxEdges) {
+    target.style.borderWidth = `${edges.top}px ${edges.right}px ${edges.bottom}px ${edges.left}px`;
+  }
+
+  private setBounds(target: HTMLElement, rect: DOMRect) {
+    Object.assign(target.style, {
+      left: `${rect.left}px`,
+      top: `${rect.top}px`,
+      width: `${rect.width}px`,
+      height: `${rect.height}px`,
+    });
+  }
+}
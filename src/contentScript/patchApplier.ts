@@ -0,0 +1,111 @@
+import { Patch, PatchModification, PatchResult } from '../types/types';
+import { resolveLocator } from '../utils/elementLocator';
+import { matchesUrlPattern } from '../utils/urlPattern';
+
+// Marks the elements added by patches, with the ID of the patch
+const EXTENSION_PATCH_ID_ATTRIBUTE = 'data-extension-patch-id';
+
+const parseFragment = (html: string): DocumentFragment => {
+  const template = document.createElement('template');
+  template.innerHTML = html;
+  return template.content;
+};
+
+// Make one modification, returning what takes it back
+const applyModification = (
+  element: HTMLElement,
+  modification: PatchModification,
+  patchId: string
+): (() => void) => {
+  switch (modification.type) {
+    case 'style': {
+      const { property, value } = modification;
+      const previousValue = element.style.getPropertyValue(property);
+      const previousPriority = element.style.getPropertyPriority(property);
+      element.style.setProperty(property, value);
+      return () => element.style.setProperty(property, previousValue, previousPriority);
+    }
+    case 'attribute': {
+      const { name, value } = modification;
+      const previousValue = element.getAttribute(name);
+      const setAttribute = (next: string | null) =>
+        next === null ? element.removeAttribute(name) : element.setAttribute(name, next);
+      setAttribute(value);
+      return () => setAttribute(previousValue);
+    }
+    case 'tag': {
+      // Scripts are not run from patches, as they would run on every matching page unattended
+      const added = Array.from(parseFragment(modification.tag).children)
+        .filter((node) => !(node instanceof HTMLScriptElement))
+        .map((node) => {
+          const clone = node.cloneNode(true) as HTMLElement;
+          clone.setAttribute(EXTENSION_PATCH_ID_ATTRIBUTE, patchId);
+          element.appendChild(clone);
+          return clone;
+        });
+      return () => added.forEach((node) => node.remove());
+    }
+  }
+};
+
+/**
+ * Applies the saved patches whose URL pattern matches the page, and takes them back when the
+ * patches change. Patches are kept apart from the modifications made from the side panel, so that
+ * closing the side panel leaves them on the page.
+ */
+export class PatchApplier {
+  // Functions taking back the applied modifications, in the order they were made
+  private reverts: (() => void)[] = [];
+
+  /**
+   * Take back the patches applied before, then apply the enabled patches matching the URL
+   * @param patches - All saved patches
+   * @param url - The URL of the page
+   * @returns The results of the patches that match, in the order they were applied
+   */
+  public apply(patches: Patch[], url: string): PatchResult[] {
+    this.revert();
+
+    return patches
+      .filter((patch) => patch.enabled && matchesUrlPattern(url, patch.urlPattern))
+      .map((patch) => {
+        const result: PatchResult = {
+          patchId: patch.id,
+          name: patch.name,
+          applied: 0,
+          unresolved: [],
+        };
+
+        // Modifications that cannot be made, e.g. with an attribute name the DOM rejects, are
+        // reported like elements not found and leave the others applied
+        const report = (selector: string) => {
+          if (!result.unresolved.includes(selector)) result.unresolved.push(selector);
+        };
+
+        patch.modifications.forEach((modification) => {
+          const { element } = resolveLocator(modification.locator);
+          const { selector } = modification.locator;
+          if (!element) {
+            report(selector);
+            return;
+          }
+          try {
+            this.reverts.push(applyModification(element, modification, patch.id));
+            result.applied++;
+          } catch (error) {
+            report(selector);
+          }
+        });
+
+        return result;
+      });
+  }
+
+  /**
+   * Take back the applied patches, the latest modification first
+   */
+  public revert() {
+    this.reverts.reverse().forEach((revert) => revert());
+    this.reverts = [];
+  }
+}
@@ -0,0 +1,200 @@
+import { nanoid } from 'nanoid';
+import { ElementLocator, StructureChange, StructureOperation } from '../types/types';
+import { getElementStartTag } from '../utils/domSelection';
+import { resolveLocator } from '../utils/elementLocator';
+
+/** Structural edit ready to be applied, and applied again after it is undone */
+export interface StructureEdit {
+  change: StructureChange;
+  apply: () => void;
+  revert: () => void;
+  /** Elements selected once the edit is applied */
+  select: HTMLElement[];
+}
+
+// Function putting a node back where it is now, among the siblings it has now
+const rememberPosition = (node: ChildNode): (() => void) => {
+  const parent = node.parentNode;
+  const nextSibling = node.nextSibling;
+  return () => {
+    if (!parent) {
+      node.remove();
+      return;
+    }
+    parent.insertBefore(node, nextSibling?.parentNode === parent ? nextSibling : null);
+  };
+};
+
+// Hide an element, returning what shows it again. Only the display property is taken back, so
+// that other style changes made since are kept.
+const hideElement = (element: HTMLElement): (() => void) => {
+  const hadStyle = element.hasAttribute('style');
+  const value = element.style.getPropertyValue('display');
+  const priority = element.style.getPropertyPriority('display');
+  element.style.setProperty('display', 'none', 'important');
+  return () => {
+    if (value) {
+      element.style.setProperty('display', value, priority);
+    } else {
+      element.style.removeProperty('display');
+    }
+    if (!hadStyle && !element.getAttribute('style')) element.removeAttribute('style');
+  };
+};
+
+// Find an element to move, or a target, only when the locator points to a single element
+const findElement = (locator: ElementLocator): HTMLElement | null => {
+  const { element, ambiguous } = resolveLocator(locator);
+  return ambiguous ? null : element;
+};
+
+const parseFragment = (html: string): DocumentFragment => {
+  const template = document.createElement('template');
+  template.innerHTML = html;
+  return template.content;
+};
+
+/**
+ * Hide, delete or duplicate elements. The copies are selected after duplicating, the parent of
+ * the primary selection after deleting.
+ * @param type - The edit to make
+ * @param elements - The selected elements, the primary selection last
+ * @returns The edit, not yet applied
+ */
+export const createSelectionEdit = (
+  type: 'hide' | 'delete' | 'duplicate',
+  elements: HTMLElement[]
+): StructureEdit => {
+  if (elements.length === 0) {
+    throw new Error('No element selected for structure edit');
+  }
+
+  const change: StructureChange = {
+    id: nanoid(),
+    timestamp: Date.now(),
+    type,
+    elements: elements.map(getElementStartTag),
+  };
+  let select = elements;
+  let apply: () => (() => void)[];
+
+  if (type === 'hide') {
+    apply = () => elements.map(hideElement);
+  } else if (type === 'delete') {
+    const parent = elements[elements.length - 1].parentElement;
+    apply = () =>
+      elements.map((element) => {
+        const putBack = rememberPosition(element);
+        element.remove();
+        return putBack;
+      });
+    select = parent?.isConnected ? [parent] : [];
+  } else {
+    const copies = elements.map((element) => element.cloneNode(true) as HTMLElement);
+    apply = () =>
+      elements.map((element, index) => {
+        element.after(copies[index]);
+        return () => copies[index].remove();
+      });
+    select = copies;
+  }
+
+  // Undo the elements in reverse order so that each goes back among the siblings it had
+  let reverts: (() => void)[] = [];
+  return {
+    change,
+    apply: () => {
+      reverts = apply();
+    },
+    revert: () => [...reverts].reverse().forEach((revert) => revert()),
+    select,
+  };
+};
+
+/**
+ * Move an element before or after another element, or into it as its last child
+ * @param operation - The element to move, the target and the position
+ * @param selection - The selected elements, selected again to report their new paths
+ * @returns The edit, not yet applied
+ */
+export const createMoveEdit = (
+  operation: Extract<StructureOperation, { type: 'move' }>,
+  selection: HTMLElement[]
+): StructureEdit => {
+  const element = findElement(operation.locator);
+  const target = findElement(operation.target);
+  if (!element || !target) {
+    throw new Error('Element to move or target not found');
+  }
+  if (element.contains(target)) {
+    throw new Error('Cannot move an element into itself');
+  }
+  if (operation.position !== 'inside' && target === document.documentElement) {
+    throw new Error('Cannot move an element next to the document element');
+  }
+
+  const change: StructureChange = {
+    id: nanoid(),
+    timestamp: Date.now(),
+    type: 'move',
+    elements: [getElementStartTag(element)],
+    position: operation.position,
+    target: getElementStartTag(target),
+  };
+  let putBack = () => {};
+  const apply = () => {
+    putBack = rememberPosition(element);
+    if (operation.position === 'before') {
+      target.before(element);
+    } else if (operation.position === 'after') {
+      target.after(element);
+    } else {
+      target.append(element);
+    }
+  };
+
+  return {
+    change,
+    apply,
+    revert: () => putBack(),
+    select: selection.length > 0 ? selection : [element],
+  };
+};
+
+/**
+ * Replace the primary selection with an element parsed from HTML, which becomes the primary
+ * selection in its place
+ * @param html - Markup with a single root element
+ * @param selection - The selected elements, the primary selection last
+ * @returns The edit, not yet applied
+ */
+export const createReplaceEdit = (html: string, selection: HTMLElement[]): StructureEdit => {
+  const element = selection[selection.length - 1];
+  if (!element || element === document.documentElement) {
+    throw new Error('No element selected to replace');
+  }
+
+  const fragment = parseFragment(html);
+  const replacement = fragment.firstElementChild;
+  const hasText = Array.from(fragment.childNodes).some(
+    (node) => node.nodeType === Node.TEXT_NODE && node.textContent?.trim()
+  );
+  if (fragment.childElementCount !== 1 || hasText || !(replacement instanceof HTMLElement)) {
+    throw new Error('The HTML must have exactly one root element');
+  }
+
+  const change: StructureChange = {
+    id: nanoid(),
+    timestamp: Date.now(),
+    type: 'replace',
+    elements: [getElementStartTag(element)],
+    target: getElementStartTag(replacement),
+  };
+
+  return {
+    change,
+    apply: () => element.replaceWith(replacement),
+    revert: () => replacement.replaceWith(element),
+    select: [...selection.slice(0, -1), replacement],
+  };
+};
@@ -0,0 +1,84 @@
+/**
+ * Record the nodes of a subtree and the text of its text nodes, returning a function that puts
+ * them back. The same nodes are restored, so listeners, form state and shadow roots survive edits
+ * made by the user, e.g. in a contenteditable element.
+ * @param root - The element whose subtree is recorded
+ * @returns Function restoring the subtree as it was
+ */
+export const snapshotSubtree = (root: HTMLElement): (() => void) => {
+  const childLists = new Map<Node, ChildNode[]>();
+  const texts = new Map<CharacterData, string>();
+
+  const record = (node: Node) => {
+    if (node instanceof CharacterData) {
+      texts.set(node, node.data);
+      return;
+    }
+    const children = Array.from(node.childNodes);
+    childLists.set(node, children);
+    children.forEach(record);
+  };
+  record(root);
+
+  return () => {
+    texts.forEach((data, node) => {
+      if (node.data !== data) node.data = data;
+    });
+    // Only changed child lists are rebuilt, as moving nodes reloads iframes and drops focus
+    childLists.forEach((children, node) => {
+      const current = Array.from(node.childNodes);
+      const unchanged =
+        current.length === children.length && current.every((child, i) => child === children[i]);
+      if (!unchanged) (node as Element).replaceChildren(...children);
+    });
+  };
+};
+
+/**
+ * Replaces the content of elements with text, keeping the child nodes the page had to put the
+ * same nodes back when the change is undone or the page is cleaned up
+ */
+export class TextReplacer {
+  // Original child nodes of the elements whose text was replaced
+  private readonly originals = new Map<HTMLElement, DocumentFragment>();
+
+  /**
+   * Replace the content of an element with text. Going back to the original text puts back the
+   * original content, child elements included.
+   */
+  public replace(element: HTMLElement, text: string) {
+    let original = this.originals.get(element);
+    if (!original) {
+      if (element.textContent === text) return;
+      original = document.createDocumentFragment();
+      original.append(...Array.from(element.childNodes));
+      this.originals.set(element, original);
+    }
+
+    if (original.textContent === text) {
+      this.restore(element);
+    } else {
+      element.textContent = text;
+    }
+  }
+
+  /**
+   * Put back the original content of an element
+   * @returns Whether the element had its text replaced
+   */
+  public restore(element: HTMLElement): boolean {
+    const original = this.originals.get(element);
+    if (!original) return false;
+
+    element.replaceChildren(original);
+    this.originals.delete(element);
+    return true;
+  }
+
+  /**
+   * Put back the original content of every element whose text was replaced
+   */
+  public restoreAll() {
+    Array.from(this.originals.keys()).forEach((element) => this.restore(element));
+  }
+}
@@ -0,0 +1,111 @@
+import { useEffect, useState } from 'react';
+import { Patch } from '../types/types';
+
+/**
+ * Loads the patches from Chrome storage. Patches are kept in local storage, as they can grow
+ * beyond the quota of synced storage.
+ * @returns A promise that resolves to the saved patches
+ */
+export const loadPatches = async (): Promise<Patch[]> => {
+  if (!chrome.storage || !chrome.storage.local) {
+    console.warn('Chrome storage API not available, no patches loaded');
+    return [];
+  }
+
+  try {
+    const result = await chrome.storage.local.get('patches');
+    return (result.patches as Patch[] | undefined) ?? [];
+  } catch (error) {
+    console.error('Failed to load patches:', error);
+    return [];
+  }
+};
+
+/**
+ * Saves the patches to Chrome storage
+ * @param patches - The patches to save
+ */
+export const savePatches = async (patches: Patch[]): Promise<void> => {
+  if (!chrome.storage || !chrome.storage.local) {
+    console.warn('Chrome storage API not available, patches will not persist');
+    return;
+  }
+
+  await chrome.storage.local.set({ patches });
+};
+
+/**
+ * Adds a patch to the saved patches
+ * @param patch - The patch to add
+ */
+export const addPatch = async (patch: Patch): Promise<void> => {
+  const patches = await loadPatches();
+  await savePatches([...patches, patch]);
+};
+
+/**
+ * Custom React hook to manage the saved patches
+ * @returns An object containing the patches and management functions
+ */
+export const usePatches = () => {
+  const [patches, setPatches] = useState<Patch[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const initializePatches = async () => {
+      try {
+        setPatches(await loadPatches());
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    initializePatches();
+
+    const handleStorageChange = (
+      changes: { [key: string]: chrome.storage.StorageChange },
+      areaName: string
+    ) => {
+      if (areaName === 'local' && changes.patches) {
+        setPatches(changes.patches.newValue ?? []);
+      }
+    };
+
+    if (chrome.storage?.local) {
+      chrome.storage.onChanged.addListener(handleStorageChange);
+      return () => {
+        chrome.storage.onChanged.removeListener(handleStorageChange);
+      };
+    }
+  }, []);
+
+  const updatePatches = async (updatedPatches: Patch[]) => {
+    try {
+      await savePatches(updatedPatches);
+      setPatches(updatedPatches);
+      setError(null);
+    } catch (err) {
+      setError((err as Error).message);
+      console.error('Failed to save patches:', err);
+    }
+  };
+
+  const updatePatch = (id: string, changes: Partial<Omit<Patch, 'id'>>) =>
+    updatePatches(patches.map((patch) => (patch.id === id ? { ...patch, ...changes } : patch)));
+
+  const deletePatch = (id: string) => updatePatches(patches.filter((patch) => patch.id !== id));
+
+  return {
+    /** Saved patches, in the order they were created */
+    patches,
+    /** Function to change some fields of a patch */
+    updatePatch,
+    /** Function to delete a patch */
+    deletePatch,
+    /** Indicates if patches are currently being loaded */
+    loading,
+    /** Error message if saving patches failed */
+    error,
+  };
+};
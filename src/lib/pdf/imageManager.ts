@@ -1,4 +1,5 @@
 import { PDFDocument, PDFImage } from 'pdf-lib';
+import { calculateSliceHeight, getImageSize, splitImage } from '../../utils/imageProcessing';
 import { Logger } from '../logger';
 import { Config, ImageDimensions } from './types';
 
@@ -81,36 +82,64 @@ export class ImageManager {
         throw new Error('Image validation failed: Invalid format');
       }
 
-      const encodedData = base64Data.split(',')[1];
-      const imageBytes = convertBase64ToBytes(encodedData);
-      const embeddedImage = await this.pdfDocument.embedPng(imageBytes);
-
-      const imageLayout = calculateOptimalImageLayout(embeddedImage, this.config.page);
-
-      if (
-        !isValidImageLayout(
-          imageLayout,
-          this.config.page.width,
-          this.config.page.height,
-          MIN_IMAGE_DIMENSION_PIXELS
-        )
-      ) {
-        throw new Error('Invalid layout dimensions for page creation');
+      const slices = await this.splitForPages(base64Data);
+      for (const slice of slices) {
+        await this.addImagePage(slice);
       }
 
-      const newPage = this.pdfDocument.addPage([this.config.page.width, this.config.page.height]);
-
-      newPage.drawImage(embeddedImage, {
-        x: imageLayout.x,
-        y: imageLayout.y,
-        width: imageLayout.width,
-        height: imageLayout.height,
-      });
-
-      logger.debug('Capture page created', { layout: imageLayout });
+      logger.debug('Capture pages created', { pages: slices.length });
     } catch (error) {
       logger.error('Failed to create capture page:', error);
       throw error instanceof Error ? error : new Error('Page creation failed');
     }
   }
+
+  // Split images that are much taller than the page into page-sized slices
+  private async splitForPages(base64Data: string): Promise<string[]> {
+    const { width, height } = await getImageSize(base64Data);
+
+    const { page } = this.config;
+    const sliceHeight = calculateSliceHeight(
+      width,
+      height,
+      page.width - page.margin * 2,
+      page.height - page.margin * 2
+    );
+    if (!sliceHeight) {
+      return [base64Data];
+    }
+
+    logger.debug('Splitting tall capture across pages', { width, height, sliceHeight });
+    return splitImage(base64Data, sliceHeight);
+  }
+
+  private async addImagePage(base64Data: string): Promise<void> {
+    const encodedData = base64Data.split(',')[1];
+    const imageBytes = convertBase64ToBytes(encodedData);
+    const embeddedImage = await this.pdfDocument.embedPng(imageBytes);
+
+    const imageLayout = calculateOptimalImageLayout(embeddedImage, this.config.page);
+
+    if (
+      !isValidImageLayout(
+        imageLayout,
+        this.config.page.width,
+        this.config.page.height,
+        MIN_IMAGE_DIMENSION_PIXELS
+      )
+    ) {
+      throw new Error('Invalid layout dimensions for page creation');
+    }
+
+    const newPage = this.pdfDocument.addPage([this.config.page.width, this.config.page.height]);
+
+    newPage.drawImage(embeddedImage, {
+      x: imageLayout.x,
+      y: imageLayout.y,
+      width: imageLayout.width,
+      height: imageLayout.height,
+    });
+
+    logger.debug('Capture page created', { layout: imageLayout });
+  }
 }
@@ -1,4 +1,5 @@
 import pptxgen from 'pptxgenjs';
+import { calculateSliceHeight, splitImage } from '../../utils/imageProcessing';
 import { Logger } from '../logger';
 import { Config, ImageDimensions } from './types';
 
@@ -57,25 +58,13 @@ const ensureDataImageFormat = (base64Data: string): string => {
   return base64Data.startsWith('data:image/') ? base64Data : `data:image/png;base64,${base64Data}`;
 };
 
-// Calculate the image layout based on the image data and the slide layout
-const calculateImageLayoutFromData = (
-  base64Data: string,
-  slideLayout: Config['layout']
-): Promise<ImageDimensions> => {
+// Load the image data to get its natural size
+const loadImageSize = (base64Data: string): Promise<{ width: number; height: number }> => {
   return new Promise((resolve, reject) => {
     const imageElement = new Image();
 
     imageElement.onload = () => {
-      try {
-        const layout = calculateOptimalImageLayout(
-          imageElement.width,
-          imageElement.height,
-          slideLayout
-        );
-        resolve(layout);
-      } catch (error) {
-        reject(new Error('Failed to calculate image layout'));
-      }
+      resolve({ width: imageElement.width, height: imageElement.height });
     };
 
     imageElement.onerror = () => {
@@ -86,6 +75,19 @@ const calculateImageLayoutFromData = (
   });
 };
 
+// Calculate the image layout based on the image data and the slide layout
+const calculateImageLayoutFromData = async (
+  base64Data: string,
+  slideLayout: Config['layout']
+): Promise<ImageDimensions> => {
+  const { width, height } = await loadImageSize(base64Data);
+  try {
+    return calculateOptimalImageLayout(width, height, slideLayout);
+  } catch (error) {
+    throw new Error('Failed to calculate image layout');
+  }
+};
+
 // Create the image configuration object for the slide
 const createSlideImageConfig = (base64Data: string, layout: ImageDimensions) => ({
   data: ensureDataImageFormat(base64Data),
@@ -114,18 +116,45 @@ export class ImageManager {
         throw new Error('Image validation failed: Invalid format');
       }
 
-      const imageLayout = await calculateImageLayoutFromData(base64Data, this.config.layout);
-      logger.debug('Image layout calculated', { layout: imageLayout });
-
-      const slide = this.presentation.addSlide();
-      const imageConfig = createSlideImageConfig(base64Data, imageLayout);
-
-      slide.addImage(imageConfig);
+      const slices = await this.splitForSlides(ensureDataImageFormat(base64Data));
+      for (const slice of slices) {
+        await this.addImageSlide(slice);
+      }
 
-      logger.debug('Capture slide created', { layout: imageLayout });
+      logger.debug('Capture slides created', { slides: slices.length });
     } catch (error) {
       logger.error('Failed to create capture slide:', error);
       throw new Error('Failed to create capture slide');
     }
   }
+
+  // Split images that are much taller than the slide into slide-sized slices
+  private async splitForSlides(base64Data: string): Promise<string[]> {
+    const { width, height } = await loadImageSize(base64Data);
+    const { layout } = this.config;
+    const sliceHeight = calculateSliceHeight(
+      width,
+      height,
+      layout.width * layout.imageScale,
+      layout.height * layout.imageScale
+    );
+    if (!sliceHeight) {
+      return [base64Data];
+    }
+
+    logger.debug('Splitting tall capture across slides', { width, height, sliceHeight });
+    return splitImage(base64Data, sliceHeight);
+  }
+
+  private async addImageSlide(base64Data: string): Promise<void> {
+    const imageLayout = await calculateImageLayoutFromData(base64Data, this.config.layout);
+    logger.debug('Image layout calculated', { layout: imageLayout });
+
+    const slide = this.presentation.addSlide();
+    const imageConfig = createSlideImageConfig(base64Data, imageLayout);
+
+    slide.addImage(imageConfig);
+
+    logger.debug('Capture slide created', { layout: imageLayout });
+  }
 }
@@ -4,16 +4,27 @@ export type LogLevel = 'error' | 'warn' | 'info' | 'debug';
 export type ShareFormat = 'pdf' | 'ppt';
 export type PaperSize = 'a4' | '16x9';
 export type PaperOrientation = 'portrait' | 'landscape';
+export type CaptureMode = 'viewport' | 'element' | 'fullElement' | 'fullPage';
 
 export interface PaperSettings {
   size: PaperSize;
   orientation: PaperOrientation;
 }
 
+export interface CaptureSettings {
+  /** Whether to capture the viewport, the selected element or the whole page */
+  mode: CaptureMode;
+  /** Padding in CSS pixels added around the selected element when cropping */
+  padding: number;
+  /** Whether to hide the selection highlight and cursor while capturing */
+  hideHighlights: boolean;
+}
+
 export interface Settings {
   logLevel: LogLevel;
   shareFormat: ShareFormat;
   paper: PaperSettings;
+  capture: CaptureSettings;
 }
 
 export const defaultSettings: Settings = {
@@ -23,6 +34,11 @@ export const defaultSettings: Settings = {
     size: '16x9',
     orientation: 'landscape',
   },
+  capture: {
+    mode: 'viewport',
+    padding: 8,
+    hideHighlights: true,
+  },
 };
 
 /**
@@ -41,7 +57,8 @@ export const loadSettings = async (): Promise<Settings> => {
       await saveSettings(defaultSettings);
       return defaultSettings;
     }
-    return result.settings as Settings;
+    // Fill in settings added after the stored settings were saved
+    return { ...defaultSettings, ...result.settings } as Settings;
   } catch (error) {
     console.error('Failed to load settings:', error);
     return defaultSettings;
@@ -10,8 +10,12 @@ export const shareAsPDF = async ({
   imageData,
   url,
   html,
+  selector,
   comment,
   styleChanges,
+  attributeChanges,
+  textChanges,
+  structureChanges,
   injectedTags,
   paperSettings,
 }: SharePayload): Promise<true> => {
@@ -37,8 +41,12 @@ export const shareAsPDF = async ({
       { title: 'Date and time: ', content: formatTimestamp(now) },
       { title: 'URL: ', content: url },
       { title: 'Element: ', content: html },
+      { title: 'Selector: ', content: selector },
       { title: 'Comment: ', content: comment },
       { title: 'Style changes: ', content: styleChanges },
+      { title: 'Attribute changes: ', content: attributeChanges },
+      { title: 'Text changes: ', content: textChanges },
+      { title: 'Structure changes: ', content: structureChanges },
       { title: 'Injected tags: ', content: injectedTags },
     ]);
 
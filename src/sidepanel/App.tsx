@@ -1,15 +1,55 @@
-import { Camera, Power, Settings } from 'lucide-react';
+import { Camera, Power, Redo2, Settings, Undo2 } from 'lucide-react';
 import { nanoid } from 'nanoid';
-import React, { useCallback, useEffect, useState } from 'react';
+import React, { useCallback, useEffect, useMemo, useState } from 'react';
 import { ConnectionManager } from '../lib/connectionManager';
 import { Logger } from '../lib/logger';
+import { addPatch } from '../lib/patches';
+import { useSettings } from '../lib/settings';
 import { BaseMessage, MessagePayloads, TabInfo } from '../types/messages';
-import { Context, ElementInfo } from '../types/types';
+import {
+  Context,
+  DOMBreakpointType,
+  DOMSearchResult,
+  ElementInfo,
+  ElementLocator,
+  ElementPath,
+  ElementQueryResult,
+  HistoryEntry,
+  MovePosition,
+  PageCommand,
+  PatchResult,
+  SearchMatch,
+  StructureOperation,
+} from '../types/types';
+import {
+  CommandHistory,
+  EMPTY_HISTORY,
+  getCommandMessage,
+  getCommands,
+  getInjectedTags,
+  getPatchModifications,
+  pushCommand,
+  redoCommand,
+  removeEntries,
+  setEntryTargets,
+  removeStyleTarget,
+  undoCommand,
+} from '../utils/commandHistory';
+import { getFrameContext, getTabContext, parseFrameContext } from '../utils/context';
+import { applyElementTreeChanges, insertElementChildren } from '../utils/domSelection';
+import { isEditableAttributeName } from '../utils/htmlValidator';
+import { AttributeEditor } from './components/AttributeEditor';
+import { BoxModelView } from './components/BoxModelView';
+import { DOMBreakpoints, FrameBreakpoint, FrameMutationEntry } from './components/DOMBreakpoints';
 import { DOMSelector } from './components/DOMSelector';
+import { TreeChanges } from './components/common/DOMTreeView';
 import { SettingsPanel } from './components/SettingsPanel';
 import { ShareCapture } from './components/ShareCapture';
-import { StyleEditor } from './components/StyleEditor';
+import { PatchManager } from './components/PatchManager';
+import { FrameStructureChange, StructureEditor } from './components/StructureEditor';
+import { FrameStyleChange, StyleEditor } from './components/StyleEditor';
 import { TagInjector } from './components/TagInjector';
+import { TextEditor } from './components/TextEditor';
 import { ToastNotification } from './components/common/ToastNotification';
 import { Tooltip } from './components/common/Tooltip';
 
@@ -19,30 +59,43 @@ interface Toast {
   type?: 'success' | 'error';
 }
 
-interface InjectedTagInfo {
-  id: string;
-  tag: string;
-  timestamp: number;
-}
-
-interface StyleChange {
-  id: string;
-  timestamp: number;
-  property: keyof CSSStyleDeclaration;
-  oldValue: string;
-  newValue: string;
-}
-
 interface AppState {
   isSelectionMode: boolean;
   showSettings: boolean;
   showShareCapture: boolean;
   selectedElement: ElementInfo | null;
+  /** All selected elements, the primary selection last */
+  selection: ElementInfo[];
+  /** Context of the frame the selected element belongs to */
+  selectedContext: Context;
+  /** Whether the page removed the selected element */
+  selectionDetached: boolean;
+  /** Document trees of frames expanded in the DOM tree, keyed by frame ID */
+  frameTrees: Record<number, ElementInfo>;
+  /** Nodes the page changed most recently, flashed in the DOM tree */
+  treeChanges: TreeChanges | null;
+  /** Result of the last CSS selector or XPath query */
+  queryResult: ElementQueryResult | null;
+  /** Context of the frame the query was evaluated in */
+  queryContext: Context;
+  /** Result of the last full-text search */
+  searchResult: DOMSearchResult | null;
+  /** Context of the frame the full-text search ran in */
+  searchContext: Context;
   imageDataUrl: string | null;
   captureUrl: string | null;
+  captureSize: { width: number; height: number } | null;
   toast: Toast | null;
-  injectedTags: InjectedTagInfo[];
-  styleChanges: StyleChange[];
+  /** Modifications of the page in any frame of the tab that can be undone and redone */
+  history: CommandHistory;
+  /** Markup of the selected element loaded for editing as HTML */
+  elementHTML: string | null;
+  /** DOM breakpoints set in any frame of the tab */
+  breakpoints: FrameBreakpoint[];
+  /** Changes caught by the DOM breakpoints, the latest first */
+  mutationLog: FrameMutationEntry[];
+  /** Saved patches applied to the page, keyed by frame ID */
+  patchResults: Record<number, PatchResult[]>;
 }
 
 const initialState: AppState = {
@@ -50,23 +103,52 @@ const initialState: AppState = {
   showSettings: false,
   showShareCapture: false,
   selectedElement: null,
+  selection: [],
+  selectedContext: 'undefined',
+  selectionDetached: false,
+  frameTrees: {},
+  treeChanges: null,
+  queryResult: null,
+  queryContext: 'undefined',
+  searchResult: null,
+  searchContext: 'undefined',
   imageDataUrl: null,
   captureUrl: null,
+  captureSize: null,
   toast: null,
-  injectedTags: [],
-  styleChanges: [],
+  history: EMPTY_HISTORY,
+  elementHTML: null,
+  breakpoints: [],
+  mutationLog: [],
+  patchResults: {},
 };
 
 const resetState = (): AppState => ({ ...initialState });
 
 const logger = new Logger('sidepanel');
 
+// Oldest entries are dropped from the mutation log beyond this many
+const MAX_MUTATION_LOG_ENTRIES = 500;
+
 export default function App() {
   const [tabId, setTabId] = useState<number | null>(null);
+  const [tabUrl, setTabUrl] = useState<string | null>(null);
   const [connectionManager, setConnectionManager] = useState<ConnectionManager | null>(null);
   const [contentScriptContext, setContentScriptContext] = useState<Context>('undefined');
   const initialized = React.useRef(false);
+  const previousSelectedContext = React.useRef<Context>('undefined');
+  // Message handlers are bound once, so they reach the connection through a ref
+  const connectionManagerRef = React.useRef<ConnectionManager | null>(null);
+  // Requests waiting for the markup of the selected element
+  const htmlRequests = React.useRef<((html: string) => void)[]>([]);
+  // Commands of the undo history waiting for the page to report whether they were made, by ID
+  const commandRequests = React.useRef(
+    new Map<string, (result: MessagePayloads['COMMAND_RESULT']) => void>()
+  );
+  // Undo or redo waiting for the page, the history moves once it is done
+  const historyPending = React.useRef(false);
   const [state, setState] = useState<AppState>(resetState());
+  const { settings } = useSettings();
 
   useEffect(() => {
     if (initialized.current) {
@@ -80,12 +162,14 @@ export default function App() {
       try {
         const manager = new ConnectionManager('sidepanel', handleMessage);
         manager.connect();
+        connectionManagerRef.current = manager;
         setConnectionManager(manager);
 
         // Initialize active tab
         const [tab] = await chrome.tabs.query({ active: true, currentWindow: true });
         if (tab?.id) {
           setTabId(tab.id);
+          setTabUrl(tab.url ?? null);
           initialized.current = true;
         }
 
@@ -105,13 +189,14 @@ export default function App() {
 
       logger.debug('Tab info change detected from storage:', newTab);
       setTabId(newTab.tabId);
+      setTabUrl(newTab.url);
       setState(resetState());
     });
   }, []);
 
   useEffect(() => {
-    // Update content script context
-    const newContentScriptContext: Context = tabId ? `content-${tabId}` : 'undefined';
+    // Update content script context, addressing the content scripts of all frames in the tab
+    const newContentScriptContext: Context = tabId ? getTabContext(tabId) : 'undefined';
     setContentScriptContext(newContentScriptContext);
 
     // Reset state when tab changes
@@ -123,9 +208,30 @@ export default function App() {
         type: 'TOGGLE_SELECTION_MODE',
         payload: { enabled: false } as MessagePayloads['TOGGLE_SELECTION_MODE'],
       });
+      connectionManager?.sendMessage(newContentScriptContext, {
+        type: 'GET_PATCH_RESULTS',
+        payload: undefined,
+      });
     }
   }, [tabId, connectionManager]);
 
+  useEffect(() => {
+    // Only one frame holds the selection, clear it in the frame selected before
+    const previousContext = previousSelectedContext.current;
+    previousSelectedContext.current = state.selectedContext;
+
+    if (
+      previousContext !== 'undefined' &&
+      state.selectedContext !== 'undefined' &&
+      previousContext !== state.selectedContext
+    ) {
+      connectionManager?.sendMessage(previousContext, {
+        type: 'CLEAR_SELECTION',
+        payload: undefined,
+      });
+    }
+  }, [state.selectedContext, connectionManager]);
+
   // Event handlers
   const handleMessage = (message: BaseMessage) => {
     logger.debug('Message received', { type: message.type });
@@ -137,6 +243,10 @@ export default function App() {
             ...prev,
             imageDataUrl: payload.imageDataUrl || null,
             captureUrl: payload.url || '',
+            captureSize:
+              payload.width && payload.height
+                ? { width: payload.width, height: payload.height }
+                : null,
           }));
         } else {
           setState((prev) => ({
@@ -151,21 +261,192 @@ export default function App() {
         }
         break;
       }
+      case 'ELEMENT_HTML': {
+        const payload = message.payload as MessagePayloads['ELEMENT_HTML'];
+        setState((prev) => ({ ...prev, elementHTML: payload.html }));
+        htmlRequests.current.forEach((resolve) => resolve(payload.html));
+        htmlRequests.current = [];
+        break;
+      }
+      case 'COMMAND_RESULT': {
+        const payload = message.payload as MessagePayloads['COMMAND_RESULT'];
+        commandRequests.current.get(payload.id)?.(payload);
+        break;
+      }
       case 'ELEMENT_SELECTED': {
         const payload = message.payload as MessagePayloads['ELEMENT_SELECTED'];
         setState((prev) => ({
           ...prev,
           selectedElement: payload.elementInfo,
+          selection: payload.selection,
+          selectedContext: message.source,
+          selectionDetached: false,
+        }));
+        break;
+      }
+      case 'ELEMENT_STRUCTURE_EDITED': {
+        const payload = message.payload as MessagePayloads['ELEMENT_STRUCTURE_EDITED'];
+        const entry: HistoryEntry = {
+          id: nanoid(),
+          command: { type: 'structure', change: payload.change },
+          frameId: parseFrameContext(message.source)?.frameId ?? 0,
+          targets: [],
+        };
+        setState((prev) => ({ ...prev, history: pushCommand(prev.history, entry) }));
+        break;
+      }
+      case 'ELEMENT_STYLES_REVERTED': {
+        const payload = message.payload as MessagePayloads['ELEMENT_STYLES_REVERTED'];
+        const frameId = parseFrameContext(message.source)?.frameId ?? 0;
+        setState((prev) => ({
+          ...prev,
+          history: removeStyleTarget(prev.history, frameId, payload),
+        }));
+        break;
+      }
+      case 'ELEMENT_TEXT_EDITED': {
+        const payload = message.payload as MessagePayloads['ELEMENT_TEXT_EDITED'];
+        const frameId = parseFrameContext(message.source)?.frameId ?? 0;
+        // The edit was made on the page, the element is described as it is after the edit
+        setState((prev) => ({
+          ...prev,
+          history: pushCommand(prev.history, {
+            id: nanoid(),
+            command: {
+              type: 'text',
+              change: {
+                id: nanoid(),
+                timestamp: Date.now(),
+                oldTexts: [payload.oldText],
+                newText: payload.newText,
+              },
+            },
+            frameId,
+            targets: [payload.target],
+          }),
         }));
         break;
       }
       case 'ELEMENT_UNSELECTED': {
+        // Ignore frames that were asked to clear a selection replaced by another frame
+        setState((prev) =>
+          prev.selectedContext === message.source
+            ? { ...prev, selectedElement: null, selection: [], selectionDetached: false }
+            : prev
+        );
+        break;
+      }
+      case 'DOM_MUTATIONS_RECORDED': {
+        const payload = message.payload as MessagePayloads['DOM_MUTATIONS_RECORDED'];
+        const frameId = parseFrameContext(message.source)?.frameId ?? 0;
+        const entries = payload.entries.map((entry) => ({ ...entry, frameId })).reverse();
         setState((prev) => ({
           ...prev,
-          selectedElement: null,
+          mutationLog: [...entries, ...prev.mutationLog].slice(0, MAX_MUTATION_LOG_ENTRIES),
         }));
         break;
       }
+      case 'ELEMENT_DETACHED': {
+        setState((prev) =>
+          prev.selectedContext === message.source ? { ...prev, selectionDetached: true } : prev
+        );
+        break;
+      }
+      case 'ELEMENT_TREE_CHANGED': {
+        const payload = message.payload as MessagePayloads['ELEMENT_TREE_CHANGED'];
+        const frameId = parseFrameContext(message.source)?.frameId;
+        if (frameId === undefined) break;
+
+        // Like loaded children, the changes apply to the selected element's tree and the frame tree
+        setState((prev) => {
+          const apply = (tree: ElementInfo) => applyElementTreeChanges(tree, payload.changes);
+          const frameTree = prev.frameTrees[frameId];
+          return {
+            ...prev,
+            selectedElement:
+              prev.selectedElement && prev.selectedContext === message.source
+                ? apply(prev.selectedElement)
+                : prev.selectedElement,
+            frameTrees: frameTree
+              ? { ...prev.frameTrees, [frameId]: apply(frameTree) }
+              : prev.frameTrees,
+            treeChanges: { frameId, paths: payload.changes.map((change) => change.path) },
+          };
+        });
+        break;
+      }
+      case 'ELEMENT_CHILDREN': {
+        const payload = message.payload as MessagePayloads['ELEMENT_CHILDREN'];
+        const frameId = parseFrameContext(message.source)?.frameId;
+        if (frameId === undefined) break;
+
+        // The children may belong to the selected element's tree, the frame tree or both
+        setState((prev) => {
+          const insert = (tree: ElementInfo) =>
+            insertElementChildren(tree, payload.path, payload, payload.offset);
+          const frameTree = prev.frameTrees[frameId];
+          return {
+            ...prev,
+            selectedElement:
+              prev.selectedElement && prev.selectedContext === message.source
+                ? insert(prev.selectedElement)
+                : prev.selectedElement,
+            frameTrees: frameTree
+              ? { ...prev.frameTrees, [frameId]: insert(frameTree) }
+              : prev.frameTrees,
+          };
+        });
+        break;
+      }
+      case 'FRAME_TREE': {
+        const payload = message.payload as MessagePayloads['FRAME_TREE'];
+        setState((prev) => ({
+          ...prev,
+          frameTrees: { ...prev.frameTrees, [payload.frameId]: payload.elementInfo },
+        }));
+        break;
+      }
+      case 'PATCH_RESULTS': {
+        const payload = message.payload as MessagePayloads['PATCH_RESULTS'];
+        const frame = parseFrameContext(message.source);
+        if (!frame) break;
+
+        setState((prev) => ({
+          ...prev,
+          patchResults: { ...prev.patchResults, [frame.frameId]: payload.results },
+        }));
+        break;
+      }
+      case 'QUERY_RESULT': {
+        const payload = message.payload as MessagePayloads['QUERY_RESULT'];
+        setState((prev) => ({ ...prev, queryResult: payload, queryContext: message.source }));
+        break;
+      }
+      case 'SEARCH_RESULT': {
+        const payload = message.payload as MessagePayloads['SEARCH_RESULT'];
+        setState((prev) => ({ ...prev, searchResult: payload, searchContext: message.source }));
+
+        // Load the document tree the hits are revealed in
+        connectionManagerRef.current?.sendMessage(message.source, {
+          type: 'GET_FRAME_TREE',
+          payload: undefined,
+        });
+        break;
+      }
+      case 'SELECTION_MODE_CHANGED': {
+        const payload = message.payload as MessagePayloads['SELECTION_MODE_CHANGED'];
+        setState((prev) => ({ ...prev, isSelectionMode: payload.enabled }));
+
+        // Selection mode was left in one frame, leave it in the other frames of the tab too
+        const frame = parseFrameContext(message.source);
+        if (frame && !payload.enabled) {
+          connectionManagerRef.current?.sendMessage(getTabContext(frame.tabId), {
+            type: 'TOGGLE_SELECTION_MODE',
+            payload: { enabled: false, keepSelection: true },
+          });
+        }
+        break;
+      }
       case 'SHOW_TOAST': {
         const showToastPayload = message.payload as MessagePayloads['SHOW_TOAST'];
         setState((prev) => ({
@@ -181,32 +462,281 @@ export default function App() {
     }
   };
 
+  // Apply or invert a modification in the frame it was made in, resolving with what the page
+  // reports once it was made, and rejecting if it was not
+  const sendCommand = useCallback(
+    (
+      entry: HistoryEntry,
+      direction: 'apply' | 'invert'
+    ): Promise<MessagePayloads['COMMAND_RESULT']> => {
+      if (!tabId) return Promise.reject(new Error('No active tab'));
+
+      return new Promise<MessagePayloads['COMMAND_RESULT']>((resolve, reject) => {
+        const id = nanoid();
+        const timeoutId = setTimeout(() => {
+          commandRequests.current.delete(id);
+          reject(new Error('Timed out waiting for the command result'));
+        }, 5000);
+
+        commandRequests.current.set(id, (result) => {
+          clearTimeout(timeoutId);
+          commandRequests.current.delete(id);
+          if (result.success) {
+            resolve(result);
+          } else {
+            reject(new Error('The page could not run the command'));
+          }
+        });
+        connectionManager?.sendMessage(getFrameContext(tabId, entry.frameId), {
+          type: 'RUN_COMMAND',
+          payload: {
+            id,
+            command: getCommandMessage(entry, direction),
+          } as MessagePayloads['RUN_COMMAND'],
+        });
+      });
+    },
+    [tabId, connectionManager]
+  );
+
+  // Apply a modification, to the selected elements unless other targets are given, and record it
+  // in the undo history once the page has made it
+  const applyCommand = useCallback(
+    async (command: PageCommand, placement?: Pick<HistoryEntry, 'frameId' | 'targets'>) => {
+      if (!tabId) return;
+
+      const entry: HistoryEntry = {
+        id: nanoid(),
+        command,
+        frameId: placement?.frameId ?? parseFrameContext(state.selectedContext)?.frameId ?? 0,
+        targets: placement?.targets ?? state.selection,
+      };
+      let result: MessagePayloads['COMMAND_RESULT'];
+      try {
+        result = await sendCommand(entry, 'apply');
+      } catch (error) {
+        // The content script reports the failure itself
+        logger.error('Failed to apply modification:', error);
+        return;
+      }
+
+      // Style changes are undone to the inline value each target had
+      const { oldValues } = result;
+      const applied: HistoryEntry = {
+        ...entry,
+        command:
+          command.type === 'style' && oldValues
+            ? { ...command, change: { ...command.change, oldValues } }
+            : command,
+        targets: result.targets ?? entry.targets,
+      };
+      setState((prev) => ({ ...prev, history: pushCommand(prev.history, applied) }));
+    },
+    [state.selection, state.selectedContext, tabId, sendCommand]
+  );
+
+  // Undo or redo the latest entry of one stack. The entry moves to the other stack only once the
+  // page reports that it was taken back or made again, the stacks are left as they are otherwise.
+  const moveHistoryEntry = useCallback(
+    async (direction: 'undo' | 'redo') => {
+      const [entry] = state.history[direction];
+      if (!entry || historyPending.current) return;
+
+      historyPending.current = true;
+      try {
+        const result = await sendCommand(entry, direction === 'undo' ? 'invert' : 'apply');
+        const targets = result.targets ?? entry.targets;
+        setState((prev) => {
+          // The history may have been replaced while waiting
+          if (prev.history[direction][0]?.id !== entry.id) return prev;
+          const move = direction === 'undo' ? undoCommand : redoCommand;
+          return { ...prev, history: setEntryTargets(move(prev.history), entry.id, targets) };
+        });
+      } catch (error) {
+        logger.error(`Failed to ${direction} modification:`, error);
+        setState((prev) => ({
+          ...prev,
+          toast: {
+            id: Date.now().toString(),
+            message: chrome.i18n.getMessage(
+              direction === 'undo' ? 'toastUndoFailed' : 'toastRedoFailed'
+            ),
+            type: 'error',
+          },
+        }));
+      } finally {
+        historyPending.current = false;
+      }
+    },
+    [state.history, sendCommand]
+  );
+
   // UI event handlers
   const uiHandlers = {
     handleCapture: useCallback(() => {
       if (!tabId) return;
-      setState((prev) => ({ ...prev, showShareCapture: true }));
+      setState((prev) => ({ ...prev, showShareCapture: true, imageDataUrl: null }));
 
+      // Element capture needs a selection, fall back to the viewport otherwise
+      const requiresElement = ['element', 'fullElement'].includes(settings.capture.mode);
+      const mode = requiresElement && !state.selectedElement ? 'viewport' : settings.capture.mode;
       connectionManager?.sendMessage('background', {
         type: 'CAPTURE_TAB',
-        payload: undefined as MessagePayloads['CAPTURE_TAB'],
+        payload: {
+          mode,
+          padding: settings.capture.padding,
+          hideHighlights: settings.capture.hideHighlights,
+          frameId: parseFrameContext(state.selectedContext)?.frameId ?? 0,
+        } as MessagePayloads['CAPTURE_TAB'],
       });
-    }, [tabId, connectionManager]),
+    }, [tabId, connectionManager, state.selectedElement, state.selectedContext, settings.capture]),
 
     handleShareClose: useCallback(() => {
       setState((prev) => ({ ...prev, showShareCapture: false }));
     }, []),
 
     handleSelectElement: useCallback(
-      (path: number[]) => {
+      (path: ElementPath, frameId?: number, locator?: ElementLocator, additive?: boolean) => {
         if (!tabId) return;
 
-        connectionManager?.sendMessage(contentScriptContext, {
+        const context =
+          frameId !== undefined ? getFrameContext(tabId, frameId) : state.selectedContext;
+        connectionManager?.sendMessage(context, {
           type: 'SELECT_ELEMENT',
-          payload: { path } as MessagePayloads['SELECT_ELEMENT'],
+          payload: { path, locator, additive } as MessagePayloads['SELECT_ELEMENT'],
+        });
+      },
+      [tabId, connectionManager, state.selectedContext]
+    ),
+
+    handleUnselectElement: useCallback(
+      (elementInfo: ElementInfo) => {
+        if (!tabId) return;
+
+        connectionManager?.sendMessage(state.selectedContext, {
+          type: 'UNSELECT_ELEMENT',
+          payload: {
+            path: elementInfo.path,
+            locator: elementInfo.locator,
+          } as MessagePayloads['UNSELECT_ELEMENT'],
+        });
+      },
+      [tabId, connectionManager, state.selectedContext]
+    ),
+
+    handleRevertElement: useCallback(
+      (elementInfo: ElementInfo) => {
+        if (!tabId) return;
+
+        connectionManager?.sendMessage(state.selectedContext, {
+          type: 'REVERT_ELEMENT_CHANGES',
+          payload: {
+            path: elementInfo.path,
+            locator: elementInfo.locator,
+          } as MessagePayloads['REVERT_ELEMENT_CHANGES'],
+        });
+      },
+      [tabId, connectionManager, state.selectedContext]
+    ),
+
+    handleQueryElements: useCallback(
+      (query: string) => {
+        if (!tabId) return;
+
+        // Query the frame of the selection, or the top frame if nothing is selected
+        const context =
+          state.selectedContext !== 'undefined' ? state.selectedContext : getFrameContext(tabId, 0);
+        // Clear the matches highlighted by the previous query, which may be in another frame
+        if (state.queryContext !== 'undefined' && state.queryContext !== context) {
+          connectionManager?.sendMessage(state.queryContext, {
+            type: 'QUERY_ELEMENTS',
+            payload: { query: '' } as MessagePayloads['QUERY_ELEMENTS'],
+          });
+        }
+        connectionManager?.sendMessage(context, {
+          type: 'QUERY_ELEMENTS',
+          payload: { query } as MessagePayloads['QUERY_ELEMENTS'],
+        });
+
+        if (!query.trim()) {
+          setState((prev) => ({ ...prev, queryResult: null, queryContext: 'undefined' }));
+        }
+      },
+      [tabId, connectionManager, state.selectedContext, state.queryContext]
+    ),
+
+    handleSelectQueryMatch: useCallback(
+      (match: ElementInfo) => {
+        if (!tabId || state.queryContext === 'undefined') return;
+
+        connectionManager?.sendMessage(state.queryContext, {
+          type: 'SELECT_ELEMENT',
+          payload: {
+            path: match.path,
+            locator: match.locator,
+          } as MessagePayloads['SELECT_ELEMENT'],
+        });
+      },
+      [tabId, connectionManager, state.queryContext]
+    ),
+
+    handleSearchDOM: useCallback(
+      (query: string) => {
+        if (!tabId) return;
+
+        if (!query.trim()) {
+          setState((prev) => ({ ...prev, searchResult: null, searchContext: 'undefined' }));
+          return;
+        }
+
+        // Search the frame of the selection, or the top frame if nothing is selected
+        const context =
+          state.selectedContext !== 'undefined' ? state.selectedContext : getFrameContext(tabId, 0);
+        connectionManager?.sendMessage(context, {
+          type: 'SEARCH_DOM',
+          payload: { query } as MessagePayloads['SEARCH_DOM'],
+        });
+      },
+      [tabId, connectionManager, state.selectedContext]
+    ),
+
+    handleSelectSearchMatch: useCallback(
+      (match: SearchMatch) => {
+        if (!tabId || state.searchContext === 'undefined') return;
+
+        connectionManager?.sendMessage(state.searchContext, {
+          type: 'SELECT_ELEMENT',
+          payload: {
+            path: match.elementInfo.path,
+            locator: match.elementInfo.locator,
+          } as MessagePayloads['SELECT_ELEMENT'],
+        });
+      },
+      [tabId, connectionManager, state.searchContext]
+    ),
+
+    handleLoadChildren: useCallback(
+      (node: ElementInfo, frameId: number, offset: number) => {
+        if (!tabId) return;
+
+        connectionManager?.sendMessage(getFrameContext(tabId, frameId), {
+          type: 'GET_ELEMENT_CHILDREN',
+          payload: { path: node.path, offset } as MessagePayloads['GET_ELEMENT_CHILDREN'],
         });
       },
-      [tabId, connectionManager, contentScriptContext]
+      [tabId, connectionManager]
+    ),
+
+    handleExpandFrame: useCallback(
+      (frameId: number) => {
+        if (!tabId) return;
+
+        connectionManager?.sendMessage(getFrameContext(tabId, frameId), {
+          type: 'GET_FRAME_TREE',
+          payload: undefined,
+        });
+      },
+      [tabId, connectionManager]
     ),
 
     toggleSelectionMode: useCallback(async () => {
@@ -226,93 +756,317 @@ export default function App() {
 
     handleStyleChange: useCallback(
       (property: string, value: string, oldValue: string) => {
-        if (!tabId || !state.selectedElement) return;
+        if (!state.selectedElement) return;
 
-        const changeEntry: StyleChange = {
-          id: nanoid(),
-          timestamp: Date.now(),
-          property: property as keyof CSSStyleDeclaration,
-          oldValue,
-          newValue: value,
-        };
+        applyCommand({
+          type: 'style',
+          change: {
+            id: nanoid(),
+            timestamp: Date.now(),
+            property,
+            oldValue,
+            newValue: value,
+          },
+        });
+      },
+      [state.selectedElement, state.selection, applyCommand]
+    ),
 
-        setState((prev) => ({
-          ...prev,
-          styleChanges: [changeEntry, ...prev.styleChanges],
-        }));
-        connectionManager?.sendMessage(contentScriptContext, {
-          type: 'UPDATE_ELEMENT_STYLE',
-          payload: { property: property, value: value } as MessagePayloads['UPDATE_ELEMENT_STYLE'],
+    // Reverting is not recorded as a modification, the changes reverted are forgotten instead
+    // once the content script reports the revert
+    handleRevertElementStyles: useCallback(
+      (target: ElementInfo, frameId: number) => {
+        if (!tabId) return;
+
+        connectionManager?.sendMessage(getFrameContext(tabId, frameId), {
+          type: 'REVERT_ELEMENT_STYLES',
+          payload: {
+            path: target.path,
+            locator: target.locator,
+          } as MessagePayloads['REVERT_ELEMENT_STYLES'],
         });
       },
-      [state.selectedElement, tabId, connectionManager, contentScriptContext]
+      [tabId, connectionManager]
     ),
 
-    handleUndoStyleChange: useCallback(() => {
-      if (!tabId || state.styleChanges.length === 0) return;
+    handleAttributeChange: useCallback(
+      (name: string, value: string | null, oldValue: string | null) => {
+        if (!state.selectedElement) return;
 
-      const latestChange = state.styleChanges[0];
-      connectionManager?.sendMessage(contentScriptContext, {
-        type: 'UPDATE_ELEMENT_STYLE',
-        payload: {
-          property: latestChange.property,
-          value: latestChange.oldValue,
-        } as MessagePayloads['UPDATE_ELEMENT_STYLE'],
+        // The content script rejects these names, so they are not recorded in the history
+        if (!isEditableAttributeName(name)) {
+          logger.warn('Attribute name not editable:', name);
+          setState((prev) => ({
+            ...prev,
+            toast: {
+              id: Date.now().toString(),
+              message: chrome.i18n.getMessage('toastAttributeUpdateFailed'),
+              type: 'error',
+            },
+          }));
+          return;
+        }
+
+        applyCommand({
+          type: 'attribute',
+          change: { id: nanoid(), timestamp: Date.now(), name, oldValue, newValue: value },
+        });
+      },
+      [state.selectedElement, applyCommand]
+    ),
+
+    handleTextChange: useCallback(
+      (text: string) => {
+        if (!state.selectedElement) return;
+
+        // Each selected element gets its own text back when the change is undone
+        const oldTexts = state.selection.map((target) => target.text ?? '');
+        applyCommand({
+          type: 'text',
+          change: { id: nanoid(), timestamp: Date.now(), oldTexts, newText: text },
+        });
+      },
+      [state.selectedElement, state.selection, applyCommand]
+    ),
+
+    handleUndo: useCallback(() => moveHistoryEntry('undo'), [moveHistoryEntry]),
+
+    handleRedo: useCallback(() => moveHistoryEntry('redo'), [moveHistoryEntry]),
+
+    handleEditTextOnPage: useCallback(() => {
+      if (!tabId || !state.selectedElement) return;
+
+      connectionManager?.sendMessage(state.selectedContext, {
+        type: 'EDIT_ELEMENT_TEXT',
+        payload: undefined,
       });
+    }, [state.selectedElement, state.selectedContext, tabId, connectionManager]),
 
-      setState((prev) => ({
-        ...prev,
-        styleChanges: prev.styleChanges.slice(1),
-      }));
-    }, [state.styleChanges, tabId, connectionManager, contentScriptContext]),
+    handleEditStructure: useCallback(
+      (operation: StructureOperation) => {
+        if (!tabId || !state.selectedElement) return;
+
+        connectionManager?.sendMessage(state.selectedContext, {
+          type: 'EDIT_ELEMENT_STRUCTURE',
+          payload: { operation } as MessagePayloads['EDIT_ELEMENT_STRUCTURE'],
+        });
+      },
+      [state.selectedElement, state.selectedContext, tabId, connectionManager]
+    ),
+
+    handleLoadHTML: useCallback(() => {
+      if (!tabId || !state.selectedElement) return;
+
+      setState((prev) => ({ ...prev, elementHTML: null }));
+      connectionManager?.sendMessage(state.selectedContext, {
+        type: 'GET_ELEMENT_HTML',
+        payload: undefined,
+      });
+    }, [state.selectedElement, state.selectedContext, tabId, connectionManager]),
+
+    // Markup of the selected element as the page has it, for copying and reports
+    handleFetchHTML: useCallback((): Promise<string> => {
+      if (!tabId || !state.selectedElement) return Promise.reject(new Error('No element selected'));
+
+      return new Promise<string>((resolve, reject) => {
+        const request = (html: string) => {
+          clearTimeout(timeoutId);
+          resolve(html);
+        };
+        const timeoutId = setTimeout(() => {
+          htmlRequests.current = htmlRequests.current.filter((pending) => pending !== request);
+          reject(new Error('Timed out waiting for the element HTML'));
+        }, 5000);
+
+        htmlRequests.current.push(request);
+        connectionManager?.sendMessage(state.selectedContext, {
+          type: 'GET_ELEMENT_HTML',
+          payload: undefined,
+        });
+      });
+    }, [state.selectedElement, state.selectedContext, tabId, connectionManager]),
+
+    handleReplaceHTML: useCallback(
+      (html: string) => {
+        if (!tabId || !state.selectedElement) return;
+
+        connectionManager?.sendMessage(state.selectedContext, {
+          type: 'EDIT_ELEMENT_STRUCTURE',
+          payload: {
+            operation: { type: 'replace', html },
+          } as MessagePayloads['EDIT_ELEMENT_STRUCTURE'],
+        });
+      },
+      [state.selectedElement, state.selectedContext, tabId, connectionManager]
+    ),
+
+    handleMoveNode: useCallback(
+      (node: ElementInfo, target: ElementInfo, position: MovePosition, frameId: number) => {
+        // Paths may be stale, the content script finds both elements by their locators
+        if (!tabId || !node.locator || !target.locator) return;
+
+        connectionManager?.sendMessage(getFrameContext(tabId, frameId), {
+          type: 'EDIT_ELEMENT_STRUCTURE',
+          payload: {
+            operation: { type: 'move', locator: node.locator, target: target.locator, position },
+          } as MessagePayloads['EDIT_ELEMENT_STRUCTURE'],
+        });
+      },
+      [tabId, connectionManager]
+    ),
 
     handleTagInject: useCallback(
       async (tag: string, tagId: string) => {
+        applyCommand({ type: 'injectTag', tag: { id: tagId, tag, timestamp: Date.now() } });
+      },
+      [applyCommand]
+    ),
+
+    // Removal is recorded for the frame and elements the tag was injected into, to inject it
+    // there again when the removal is undone
+    handleTagRemove: useCallback(
+      async (tagId: string) => {
+        const injection = state.history.undo.find(
+          ({ command }) => command.type === 'injectTag' && command.tag.id === tagId
+        );
+        if (!injection || injection.command.type !== 'injectTag') return;
+
+        const { frameId, targets } = injection;
+        applyCommand({ type: 'removeTag', tag: injection.command.tag }, { frameId, targets });
+      },
+      [state.history, applyCommand]
+    ),
+
+    handleAddBreakpoint: useCallback(
+      (types: DOMBreakpointType[], selectChangedNode: boolean) => {
+        if (!tabId || !state.selectedElement) return;
+
+        const { startTag, path, locator } = state.selectedElement;
+        const breakpoint: FrameBreakpoint = {
+          id: nanoid(),
+          elementInfo: { startTag, path, locator, children: [] },
+          types,
+          selectChangedNode,
+          frameId: parseFrameContext(state.selectedContext)?.frameId ?? 0,
+        };
+        connectionManager?.sendMessage(state.selectedContext, {
+          type: 'SET_DOM_BREAKPOINT',
+          payload: { breakpoint } as MessagePayloads['SET_DOM_BREAKPOINT'],
+        });
+
+        setState((prev) => ({ ...prev, breakpoints: [...prev.breakpoints, breakpoint] }));
+      },
+      [tabId, connectionManager, state.selectedElement, state.selectedContext]
+    ),
+
+    handleRemoveBreakpoint: useCallback(
+      (breakpoint: FrameBreakpoint) => {
         if (!tabId) return;
 
-        connectionManager?.sendMessage(contentScriptContext, {
-          type: 'INJECT_TAG',
-          payload: { tag: tag, tagId: tagId } as MessagePayloads['INJECT_TAG'],
+        connectionManager?.sendMessage(getFrameContext(tabId, breakpoint.frameId), {
+          type: 'REMOVE_DOM_BREAKPOINT',
+          payload: { id: breakpoint.id } as MessagePayloads['REMOVE_DOM_BREAKPOINT'],
         });
 
         setState((prev) => ({
           ...prev,
-          injectedTags: [
-            {
-              id: tagId,
-              tag,
-              timestamp: Date.now(),
-            },
-            ...prev.injectedTags,
-          ],
+          breakpoints: prev.breakpoints.filter((b) => b.id !== breakpoint.id),
         }));
-        state.injectedTags.forEach((tag) => {
-          logger.info('injected tags:', JSON.stringify(tag));
-        });
       },
-      [tabId, connectionManager, contentScriptContext]
+      [tabId, connectionManager]
     ),
 
-    handleTagRemove: useCallback(
-      async (tagId: string) => {
+    handleClearMutationLog: useCallback(() => {
+      setState((prev) => ({ ...prev, mutationLog: [] }));
+    }, []),
+
+    handleSelectMutationTarget: useCallback(
+      (entry: FrameMutationEntry) => {
         if (!tabId) return;
 
-        connectionManager?.sendMessage(contentScriptContext, {
-          type: 'REMOVE_TAG',
-          payload: { tagId: tagId } as MessagePayloads['REMOVE_TAG'],
+        connectionManager?.sendMessage(getFrameContext(tabId, entry.frameId), {
+          type: 'SELECT_ELEMENT',
+          payload: {
+            path: entry.target.path,
+            locator: entry.target.locator,
+          } as MessagePayloads['SELECT_ELEMENT'],
         });
+      },
+      [tabId, connectionManager]
+    ),
+
+    // The changes move into the patch: the top frame gives the saved elements back what the page
+    // had and applies the patch instead, so that the changes stay when the side panel is closed
+    handleSavePatch: useCallback(
+      async (name: string, urlPattern: string) => {
+        if (!tabId) return;
+
+        const { entries, modifications } = getPatchModifications(state.history, 0);
+        if (modifications.length === 0) return;
+
+        try {
+          await addPatch({
+            id: nanoid(),
+            name,
+            urlPattern,
+            enabled: true,
+            createdAt: Date.now(),
+            modifications,
+          });
+        } catch (error) {
+          logger.error('Failed to save patch:', error);
+          setState((prev) => ({
+            ...prev,
+            toast: {
+              id: Date.now().toString(),
+              message: chrome.i18n.getMessage('toastPatchSaveFailed'),
+              type: 'error',
+            },
+          }));
+          return;
+        }
 
+        // Messages are handled in order, so the changes are taken back before the patch is applied
+        const context = getFrameContext(tabId, 0);
+        connectionManager?.sendMessage(context, {
+          type: 'REVERT_SAVED_CHANGES',
+          payload: {
+            targets: entries.flatMap((entry) =>
+              entry.command.type === 'injectTag'
+                ? []
+                : entry.targets.filter(({ locator }) => locator)
+            ),
+            tagIds: entries.flatMap(({ command }) =>
+              command.type === 'injectTag' ? [command.tag.id] : []
+            ),
+          } as MessagePayloads['REVERT_SAVED_CHANGES'],
+        });
+        connectionManager?.sendMessage(context, { type: 'REAPPLY_PATCHES', payload: undefined });
         setState((prev) => ({
           ...prev,
-          injectedTags: prev.injectedTags.filter((t) => t.id !== tagId),
+          history: removeEntries(
+            prev.history,
+            entries.map((entry) => entry.id)
+          ),
+          toast: {
+            id: Date.now().toString(),
+            message: chrome.i18n.getMessage('toastPatchSaved'),
+            type: 'success',
+          },
         }));
-        state.injectedTags.forEach((tag) => {
-          logger.info('injected tags:', JSON.stringify(tag));
-        });
       },
-      [tabId, connectionManager, contentScriptContext]
+      [state.history, tabId, connectionManager]
     ),
 
+    handlePatchesChanged: useCallback(() => {
+      if (!tabId) return;
+
+      connectionManager?.sendMessage(getTabContext(tabId), {
+        type: 'REAPPLY_PATCHES',
+        payload: undefined,
+      });
+    }, [tabId, connectionManager]),
+
     handleToastClose: useCallback(() => {
       setState((prev) => ({ ...prev, toast: null }));
     }, []),
@@ -322,6 +1076,49 @@ export default function App() {
     }, []),
   };
 
+  useEffect(() => {
+    // Text fields keep their own undo
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (!(event.ctrlKey || event.metaKey) || event.key.toLowerCase() !== 'z') return;
+      if ((event.target as HTMLElement | null)?.closest('input, textarea, [contenteditable]')) {
+        return;
+      }
+
+      event.preventDefault();
+      if (event.shiftKey) {
+        uiHandlers.handleRedo();
+      } else {
+        uiHandlers.handleUndo();
+      }
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [uiHandlers.handleUndo, uiHandlers.handleRedo]);
+
+  // Modifications listed by each editor and in the share report, derived from the undo history
+  const changes = useMemo(
+    () => ({
+      styleChanges: getCommands(state.history, 'style').map(
+        ({ command, frameId, targets }): FrameStyleChange => ({
+          ...command.change,
+          frameId,
+          targets,
+        })
+      ),
+      attributeChanges: getCommands(state.history, 'attribute').map(
+        ({ command }) => command.change
+      ),
+      textChanges: getCommands(state.history, 'text').map(({ command }) => command.change),
+      structureChanges: getCommands(state.history, 'structure').map(
+        ({ command, frameId }): FrameStructureChange => ({ ...command.change, frameId })
+      ),
+      injectedTags: getInjectedTags(state.history),
+      patchModifications: getPatchModifications(state.history, 0).modifications,
+    }),
+    [state.history]
+  );
+
   const connectionStatus = connectionManager?.getStatus() ?? 'disconnected';
 
   if (connectionStatus === 'disconnected') {
@@ -348,6 +1145,24 @@ export default function App() {
           </button>
 
           <div className="header-actions">
+            <Tooltip content={chrome.i18n.getMessage('tooltipUndo')}>
+              <button
+                onClick={uiHandlers.handleUndo}
+                className="icon-button"
+                disabled={connectionStatus !== 'connected' || state.history.undo.length === 0}
+              >
+                <Undo2 size={16} />
+              </button>
+            </Tooltip>
+            <Tooltip content={chrome.i18n.getMessage('tooltipRedo')}>
+              <button
+                onClick={uiHandlers.handleRedo}
+                className="icon-button"
+                disabled={connectionStatus !== 'connected' || state.history.redo.length === 0}
+              >
+                <Redo2 size={16} />
+              </button>
+            </Tooltip>
             <Tooltip content={chrome.i18n.getMessage('tooltipCapture')}>
               <button
                 onClick={uiHandlers.handleCapture}
@@ -375,16 +1190,43 @@ export default function App() {
           <div className="components-container">
             <DOMSelector
               selectedElement={state.selectedElement}
+              selection={state.selection}
+              frameId={parseFrameContext(state.selectedContext)?.frameId ?? 0}
+              frameTrees={state.frameTrees}
+              treeChanges={state.treeChanges}
+              isDetached={state.selectionDetached}
               onSelectElement={uiHandlers.handleSelectElement}
+              onExpandFrame={uiHandlers.handleExpandFrame}
+              onLoadChildren={uiHandlers.handleLoadChildren}
+              onUnselectElement={uiHandlers.handleUnselectElement}
+              onRevertElement={uiHandlers.handleRevertElement}
+              onMoveNode={uiHandlers.handleMoveNode}
+              elementHTML={state.elementHTML}
+              onLoadHTML={uiHandlers.handleLoadHTML}
+              onFetchHTML={uiHandlers.handleFetchHTML}
+              onReplaceHTML={uiHandlers.handleReplaceHTML}
+              queryResult={state.queryResult}
+              onQueryElements={uiHandlers.handleQueryElements}
+              onSelectQueryMatch={uiHandlers.handleSelectQueryMatch}
+              searchResult={state.searchResult}
+              searchFrameId={parseFrameContext(state.searchContext)?.frameId ?? 0}
+              onSearchDOM={uiHandlers.handleSearchDOM}
+              onSelectSearchMatch={uiHandlers.handleSelectSearchMatch}
             />
+            <BoxModelView selectedElement={state.selectedElement} />
             {state.showShareCapture && (
               <ShareCapture
                 onClose={uiHandlers.handleShareClose}
                 selectedElement={state.selectedElement}
                 imageDataUrl={state.imageDataUrl}
                 captureUrl={state.captureUrl}
-                injectedTags={state.injectedTags}
-                styleChanges={state.styleChanges}
+                captureSize={state.captureSize}
+                injectedTags={changes.injectedTags}
+                styleChanges={changes.styleChanges}
+                attributeChanges={changes.attributeChanges}
+                textChanges={changes.textChanges}
+                structureChanges={changes.structureChanges}
+                onFetchHTML={uiHandlers.handleFetchHTML}
               />
             )}
             {state.toast && (
@@ -397,16 +1239,48 @@ export default function App() {
             )}
             <StyleEditor
               selectedElement={state.selectedElement}
-              styleChanges={state.styleChanges}
+              styleChanges={changes.styleChanges}
               onStyleChange={uiHandlers.handleStyleChange}
-              onUndoStyleChange={uiHandlers.handleUndoStyleChange}
+              onRevertElementStyles={uiHandlers.handleRevertElementStyles}
+            />
+            <AttributeEditor
+              selectedElement={state.selectedElement}
+              attributeChanges={changes.attributeChanges}
+              onAttributeChange={uiHandlers.handleAttributeChange}
+            />
+            <TextEditor
+              selectedElement={state.selectedElement}
+              textChanges={changes.textChanges}
+              onTextChange={uiHandlers.handleTextChange}
+              onEditOnPage={uiHandlers.handleEditTextOnPage}
+            />
+            <StructureEditor
+              selectedElement={state.selectedElement}
+              structureChanges={changes.structureChanges}
+              onEditStructure={uiHandlers.handleEditStructure}
             />
             <TagInjector
               selectedElement={state.selectedElement}
-              injectedTags={state.injectedTags}
+              injectedTags={changes.injectedTags}
               onInjectTag={uiHandlers.handleTagInject}
               onRemoveTag={uiHandlers.handleTagRemove}
             />
+            <DOMBreakpoints
+              selectedElement={state.selectedElement}
+              breakpoints={state.breakpoints}
+              mutationLog={state.mutationLog}
+              onAddBreakpoint={uiHandlers.handleAddBreakpoint}
+              onRemoveBreakpoint={uiHandlers.handleRemoveBreakpoint}
+              onClearLog={uiHandlers.handleClearMutationLog}
+              onSelectTarget={uiHandlers.handleSelectMutationTarget}
+            />
+            <PatchManager
+              pageUrl={tabUrl}
+              modificationCount={changes.patchModifications.length}
+              results={Object.values(state.patchResults).flat()}
+              onSavePatch={uiHandlers.handleSavePatch}
+              onPatchesChanged={uiHandlers.handlePatchesChanged}
+            />
           </div>
         )}
         {connectionStatus === 'connecting' && (
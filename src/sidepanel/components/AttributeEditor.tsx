@@ -0,0 +1,181 @@
+import { AlertCircle, Check, Plus, X } from 'lucide-react';
+import React, { useState } from 'react';
+import { AttributeChange, ElementInfo } from '../../types/types';
+import { isEditableAttributeName } from '../../utils/htmlValidator';
+import { Card } from './common/Card';
+import { Tooltip } from './common/Tooltip';
+
+interface AttributeEditorProps {
+  /** The currently selected element */
+  selectedElement: ElementInfo | null;
+  /** Attribute changes made so far, the latest first */
+  attributeChanges: AttributeChange[];
+  /** Callback function to set an attribute, or remove it when the value is null */
+  onAttributeChange: (name: string, value: string | null, oldValue: string | null) => void;
+}
+
+const formatValue = (value: string | null): string => (value === null ? '-' : value);
+
+/**
+ * Attribute editor: edit, add and remove attributes of the selected element
+ * @param selectedElement - The currently selected element
+ * @param attributeChanges - Attribute changes made so far
+ * @param onAttributeChange - Callback function to set or remove an attribute
+ * @returns A React element representing the attribute editor
+ */
+export const AttributeEditor: React.FC<AttributeEditorProps> = ({
+  selectedElement,
+  attributeChanges,
+  onAttributeChange,
+}) => {
+  const [values, setValues] = useState<Record<string, string>>({});
+  const [isAdding, setIsAdding] = useState(false);
+  const [newName, setNewName] = useState('');
+  const [newValue, setNewValue] = useState('');
+  const [error, setError] = useState<string | null>(null);
+
+  const attributes = selectedElement?.attributes;
+
+  React.useEffect(() => {
+    setValues(Object.fromEntries((attributes ?? []).map(({ name, value }) => [name, value])));
+  }, [attributes]);
+
+  const handleBlur = (name: string, oldValue: string) => {
+    const value = values[name] ?? '';
+    if (value !== oldValue) onAttributeChange(name, value, oldValue);
+  };
+
+  const resetAddForm = () => {
+    setIsAdding(false);
+    setNewName('');
+    setNewValue('');
+    setError(null);
+  };
+
+  const handleAdd = () => {
+    const name = newName.trim();
+    if (!isEditableAttributeName(name)) {
+      setError(chrome.i18n.getMessage('attributeNameInvalid'));
+      return;
+    }
+
+    const oldValue = attributes?.find((attribute) => attribute.name === name)?.value ?? null;
+    onAttributeChange(name, newValue, oldValue);
+    resetAddForm();
+  };
+
+  if (!attributes) {
+    return (
+      <Card title="Attributes" initialCollapsed={true}>
+        <div className="style-editor-empty">
+          {chrome.i18n.getMessage('attributeEditorEmptyState')}
+        </div>
+      </Card>
+    );
+  }
+
+  return (
+    <Card title="Attributes" initialCollapsed={true}>
+      <div className="attribute-editor">
+        {attributeChanges.length > 0 && (
+          <div className="style-history">
+            <div className="style-history-header">
+              <h4 className="style-history-title">Attribute Changes ({attributeChanges.length})</h4>
+            </div>
+            {attributeChanges.map((entry) => (
+              <div key={entry.id} className="style-history-item">
+                <div className="style-history-meta">
+                  {new Date(entry.timestamp).toLocaleTimeString()}
+                </div>
+                <div className="style-history-content">
+                  <span className="style-history-property">{entry.name}</span>
+                  <span className="style-history-old">{formatValue(entry.oldValue)}</span>
+                  <span className="style-history-arrow">→</span>
+                  <span className="style-history-new">{formatValue(entry.newValue)}</span>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+
+        <div className="attribute-editor-grid">
+          {attributes.map(({ name, value }) => (
+            <React.Fragment key={name}>
+              <div className="style-editor-property" title={name}>
+                {name}
+              </div>
+              <input
+                value={values[name] ?? ''}
+                onChange={(e) => setValues((prev) => ({ ...prev, [name]: e.target.value }))}
+                onBlur={() => handleBlur(name, value)}
+                className="style-editor-input"
+              />
+              <Tooltip content={chrome.i18n.getMessage('tooltipRemoveAttribute')}>
+                <button
+                  className="style-editor-button style-editor-button-danger"
+                  onClick={() => onAttributeChange(name, null, value)}
+                >
+                  <X size={14} />
+                </button>
+              </Tooltip>
+            </React.Fragment>
+          ))}
+        </div>
+
+        <div className="style-editor-add">
+          {isAdding ? (
+            <>
+              <div className="style-editor-add-form">
+                <input
+                  placeholder="Name"
+                  value={newName}
+                  onChange={(e) => {
+                    setNewName(e.target.value);
+                    setError(null);
+                  }}
+                  className="style-editor-input"
+                />
+                <input
+                  placeholder="Value"
+                  value={newValue}
+                  onChange={(e) => setNewValue(e.target.value)}
+                  className="style-editor-input"
+                />
+                <div className="style-editor-button-group">
+                  <button
+                    onClick={handleAdd}
+                    className="style-editor-button style-editor-button-primary"
+                    title="Add attribute"
+                  >
+                    <Check size={16} />
+                  </button>
+                  <button
+                    onClick={resetAddForm}
+                    className="style-editor-button style-editor-button-danger"
+                    title="Cancel"
+                  >
+                    <X size={16} />
+                  </button>
+                </div>
+              </div>
+              {error && (
+                <div className="error-message">
+                  <AlertCircle />
+                  <span>{error}</span>
+                </div>
+              )}
+            </>
+          ) : (
+            <button
+              onClick={() => setIsAdding(true)}
+              className="style-editor-button style-editor-button-primary"
+              title="Add new attribute"
+            >
+              <Plus size={16} />
+            </button>
+          )}
+        </div>
+      </div>
+    </Card>
+  );
+};
@@ -0,0 +1,79 @@
+import React from 'react';
+import { BoxEdges, ElementInfo } from '../../types/types';
+import { formatBoxValue, getContentSize } from '../../utils/boxModel';
+import { Card } from './common/Card';
+
+interface BoxModelViewProps {
+  /** The currently selected element */
+  selectedElement: ElementInfo | null;
+}
+
+interface BoxLayerProps {
+  /** Class name of the layer, also used to color it */
+  name: 'margin' | 'border' | 'padding';
+  /** Label shown in the corner of the layer */
+  label: string;
+  /** Sizes of the four sides of the layer */
+  edges: BoxEdges;
+  /** The layer inside this one */
+  children: React.ReactNode;
+}
+
+// Zero sizes are shown as a dash, as in the DevTools box model
+const formatEdge = (value: number): string => (value === 0 ? '-' : formatBoxValue(value));
+
+const BoxLayer: React.FC<BoxLayerProps> = ({ name, label, edges, children }) => (
+  <div className={`box-model-layer ${name}`}>
+    <span className="box-model-label">{label}</span>
+    <span className="box-model-edge top">{formatEdge(edges.top)}</span>
+    <span className="box-model-edge left">{formatEdge(edges.left)}</span>
+    <div className="box-model-inner">{children}</div>
+    <span className="box-model-edge right">{formatEdge(edges.right)}</span>
+    <span className="box-model-edge bottom">{formatEdge(edges.bottom)}</span>
+  </div>
+);
+
+/**
+ * Shows the margin, border, padding and content boxes of the selected element
+ * @param selectedElement - The currently selected element
+ * @returns A React element representing the box model diagram
+ */
+export const BoxModelView: React.FC<BoxModelViewProps> = ({ selectedElement }) => {
+  const boxModel = selectedElement?.boxModel;
+
+  if (!boxModel) {
+    return (
+      <Card title="Box Model" initialCollapsed={true}>
+        <div className="style-editor-empty">{chrome.i18n.getMessage('boxModelEmptyState')}</div>
+      </Card>
+    );
+  }
+
+  const content = getContentSize(boxModel);
+
+  return (
+    <Card title="Box Model">
+      <div className="box-model-summary">
+        <span>
+          {chrome.i18n.getMessage('labelBoxSize')} {formatBoxValue(boxModel.width)} ×{' '}
+          {formatBoxValue(boxModel.height)}
+        </span>
+        <span>
+          {chrome.i18n.getMessage('labelBoxPosition')} {formatBoxValue(boxModel.x)},{' '}
+          {formatBoxValue(boxModel.y)}
+        </span>
+      </div>
+      <div className="box-model-diagram">
+        <BoxLayer name="margin" label="margin" edges={boxModel.margin}>
+          <BoxLayer name="border" label="border" edges={boxModel.border}>
+            <BoxLayer name="padding" label="padding" edges={boxModel.padding}>
+              <div className="box-model-content">
+                {formatBoxValue(content.width)} × {formatBoxValue(content.height)}
+              </div>
+            </BoxLayer>
+          </BoxLayer>
+        </BoxLayer>
+      </div>
+    </Card>
+  );
+};
@@ -0,0 +1,225 @@
+import { Download, Plus, Trash2, X } from 'lucide-react';
+import React, { useState } from 'react';
+import { Logger } from '../../lib/logger';
+import { DOMBreakpoint, DOMBreakpointType, DOMMutationEntry, ElementInfo } from '../../types/types';
+import { downloadFile } from '../../utils/download';
+import { generateFilename } from '../../utils/formatters';
+import { formatElementTag } from '../../utils/htmlTagFormatter';
+import { Card } from './common/Card';
+import { Tooltip } from './common/Tooltip';
+
+/** A DOM breakpoint with the frame it was set in */
+export interface FrameBreakpoint extends DOMBreakpoint {
+  frameId: number;
+}
+
+/** A change caught by a DOM breakpoint with the frame it happened in */
+export interface FrameMutationEntry extends DOMMutationEntry {
+  frameId: number;
+}
+
+interface DOMBreakpointsProps {
+  /** The currently selected element */
+  selectedElement: ElementInfo | null;
+  /** Breakpoints set so far */
+  breakpoints: FrameBreakpoint[];
+  /** Changes caught by the breakpoints, the latest first */
+  mutationLog: FrameMutationEntry[];
+  /** Callback function to watch the selected element */
+  onAddBreakpoint: (types: DOMBreakpointType[], selectChangedNode: boolean) => void;
+  /** Callback function to stop watching an element */
+  onRemoveBreakpoint: (breakpoint: FrameBreakpoint) => void;
+  /** Callback function to empty the mutation log */
+  onClearLog: () => void;
+  /** Callback function to select the element a change was made to */
+  onSelectTarget: (entry: FrameMutationEntry) => void;
+}
+
+const BREAKPOINT_TYPES: { type: DOMBreakpointType; messageKey: string }[] = [
+  { type: 'subtree', messageKey: 'breakpointSubtree' },
+  { type: 'attributes', messageKey: 'breakpointAttributes' },
+  { type: 'removal', messageKey: 'breakpointRemoval' },
+];
+
+const formatValue = (value: string | null | undefined): string =>
+  value === null || value === undefined ? '-' : JSON.stringify(value);
+
+// One line describing what changed
+const formatMutation = (entry: DOMMutationEntry): string => {
+  switch (entry.type) {
+    case 'attributes':
+      return `${entry.attributeName}: ${formatValue(entry.oldValue)} → ${formatValue(entry.newValue)}`;
+    case 'removal':
+      return chrome.i18n.getMessage('mutationRemoved');
+    case 'subtree':
+      if (entry.addedNodes || entry.removedNodes) {
+        return [
+          ...(entry.addedNodes ?? []).map((node) => `+ ${node}`),
+          ...(entry.removedNodes ?? []).map((node) => `- ${node}`),
+        ].join(' ');
+      }
+      return `${formatValue(entry.oldValue)} → ${formatValue(entry.newValue)}`;
+  }
+};
+
+/**
+ * DOM breakpoints: watch the selected element for subtree changes, attribute changes or removal,
+ * and keep a log of the changes caught that can be exported as JSON
+ * @param selectedElement - The currently selected element
+ * @param breakpoints - Breakpoints set so far
+ * @param mutationLog - Changes caught by the breakpoints
+ * @param onAddBreakpoint - Callback function to watch the selected element
+ * @param onRemoveBreakpoint - Callback function to stop watching an element
+ * @param onClearLog - Callback function to empty the mutation log
+ * @param onSelectTarget - Callback function to select the element a change was made to
+ * @returns A React element representing the breakpoints and the mutation log
+ */
+export const DOMBreakpoints: React.FC<DOMBreakpointsProps> = ({
+  selectedElement,
+  breakpoints,
+  mutationLog,
+  onAddBreakpoint,
+  onRemoveBreakpoint,
+  onClearLog,
+  onSelectTarget,
+}) => {
+  const [types, setTypes] = useState<DOMBreakpointType[]>(['subtree']);
+  const [selectChangedNode, setSelectChangedNode] = useState(false);
+
+  const logger = new Logger('DOMBreakpoints');
+
+  const toggleType = (type: DOMBreakpointType) => {
+    setTypes((prev) => (prev.includes(type) ? prev.filter((t) => t !== type) : [...prev, type]));
+  };
+
+  const handleExport = async () => {
+    const now = new Date();
+    const log = { exportedAt: now.toISOString(), breakpoints, mutations: mutationLog };
+    try {
+      await downloadFile(
+        new Blob([JSON.stringify(log, null, 2)], { type: 'application/json' }),
+        generateFilename(now, 'json', 'mutation-log')
+      );
+    } catch (error) {
+      logger.error('Failed to export the mutation log:', error);
+    }
+  };
+
+  return (
+    <Card title="DOM Breakpoints" initialCollapsed={true}>
+      <div className="dom-breakpoints">
+        {selectedElement ? (
+          <div className="breakpoint-form">
+            {BREAKPOINT_TYPES.map(({ type, messageKey }) => (
+              <label key={type} className="breakpoint-option">
+                <input
+                  type="checkbox"
+                  checked={types.includes(type)}
+                  onChange={() => toggleType(type)}
+                />
+                {chrome.i18n.getMessage(messageKey)}
+              </label>
+            ))}
+            <label className="breakpoint-option">
+              <input
+                type="checkbox"
+                checked={selectChangedNode}
+                onChange={(e) => setSelectChangedNode(e.target.checked)}
+              />
+              {chrome.i18n.getMessage('breakpointSelectChangedNode')}
+            </label>
+            <Tooltip content={chrome.i18n.getMessage('tooltipAddBreakpoint')}>
+              <button
+                className="style-editor-button style-editor-button-primary"
+                onClick={() => onAddBreakpoint(types, selectChangedNode)}
+                disabled={types.length === 0}
+              >
+                <Plus size={16} />
+              </button>
+            </Tooltip>
+          </div>
+        ) : (
+          <div className="style-editor-empty">
+            {chrome.i18n.getMessage('breakpointsEmptyState')}
+          </div>
+        )}
+
+        {breakpoints.length > 0 && (
+          <div className="selection-list">
+            <h4 className="injected-tags-title">Breakpoints ({breakpoints.length})</h4>
+            {breakpoints.map((breakpoint) => (
+              <div key={breakpoint.id} className="selection-item">
+                <Tooltip content={breakpoint.elementInfo.locator?.selector ?? ''}>
+                  <span className="selection-item-tag">
+                    {formatElementTag(breakpoint.elementInfo.startTag, { maxLength: 30 })}
+                  </span>
+                </Tooltip>
+                <span className="breakpoint-types">{breakpoint.types.join(', ')}</span>
+                <Tooltip content={chrome.i18n.getMessage('tooltipRemoveBreakpoint')}>
+                  <button
+                    className="style-editor-button style-editor-button-danger"
+                    onClick={() => onRemoveBreakpoint(breakpoint)}
+                  >
+                    <X size={14} />
+                  </button>
+                </Tooltip>
+              </div>
+            ))}
+          </div>
+        )}
+
+        {mutationLog.length > 0 && (
+          <div className="mutation-log">
+            <div className="style-history-header">
+              <h4 className="style-history-title">Mutation Log ({mutationLog.length})</h4>
+              <div className="header-actions">
+                <Tooltip content={chrome.i18n.getMessage('tooltipExportMutationLog')}>
+                  <button className="style-editor-button" onClick={handleExport}>
+                    <Download size={16} />
+                  </button>
+                </Tooltip>
+                <Tooltip content={chrome.i18n.getMessage('tooltipClearMutationLog')}>
+                  <button
+                    className="style-editor-button style-editor-button-danger"
+                    onClick={onClearLog}
+                  >
+                    <Trash2 size={16} />
+                  </button>
+                </Tooltip>
+              </div>
+            </div>
+            {mutationLog.map((entry) => (
+              <div key={entry.id} className="mutation-log-item">
+                <div className="style-history-meta">
+                  {new Date(entry.timestamp).toLocaleTimeString()}
+                  <span className={`mutation-type ${entry.type}`}>{entry.type}</span>
+                  <Tooltip
+                    content={
+                      entry.scripts.length > 0
+                        ? entry.scripts.join('\n')
+                        : chrome.i18n.getMessage('mutationNoExternalScripts')
+                    }
+                  >
+                    <span className="mutation-scripts">
+                      {chrome.i18n.getMessage('mutationScripts', [
+                        String(entry.scripts.length),
+                        String(entry.inlineScripts),
+                      ])}
+                    </span>
+                  </Tooltip>
+                </div>
+                <span
+                  className="selection-item-tag"
+                  onClick={() => entry.type !== 'removal' && onSelectTarget(entry)}
+                >
+                  {formatElementTag(entry.target.startTag, { maxLength: 40 })}
+                </span>
+                <div className="mutation-details">{formatMutation(entry)}</div>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+    </Card>
+  );
+};
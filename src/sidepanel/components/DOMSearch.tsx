@@ -0,0 +1,150 @@
+import { Search, X } from 'lucide-react';
+import React, { useEffect, useState } from 'react';
+import { DOMSearchResult, ElementInfo, ElementPath, SearchMatch } from '../../types/types';
+import { formatElementPath } from '../../utils/domSelection';
+import { formatElementTag } from '../../utils/htmlTagFormatter';
+import { DOMTreeView, TreeChanges } from './common/DOMTreeView';
+import { Tooltip } from './common/Tooltip';
+
+interface DOMSearchProps {
+  /** Result of the last search, null if nothing has been searched */
+  result: DOMSearchResult | null;
+  /** Frame the search ran in, 0 for the top frame */
+  frameId: number;
+  /** Document trees of frames loaded so far, keyed by frame ID */
+  frameTrees: Record<number, ElementInfo>;
+  /** Callback function to search the document, an empty query clears the result */
+  onSearch: (query: string) => void;
+  /** Callback function to select a search hit */
+  onSelectMatch: (match: SearchMatch) => void;
+  /** Callback function to select a node of the document tree */
+  onSelectNode: (node: ElementInfo, frameId: number) => void;
+  /** Callback function to request the document tree of a frame */
+  onExpandFrame: (frameId: number) => void;
+  /** Callback function to load children left out of the document tree */
+  onLoadChildren: (node: ElementInfo, frameId: number, offset: number) => void;
+  /** Nodes the page changed most recently, flashed in the document tree */
+  treeChanges: TreeChanges | null;
+}
+
+/**
+ * Full-text search of the document by visible text, attribute values and tag names. Picking a
+ * hit selects it and expands the document tree down to it.
+ * @param result - Result of the last search
+ * @param frameId - Frame the search ran in
+ * @param frameTrees - Document trees of frames loaded so far
+ * @param onSearch - Callback function to search the document
+ * @param onSelectMatch - Callback function to select a search hit
+ * @param onSelectNode - Callback function to select a node of the document tree
+ * @param onExpandFrame - Callback function to request the document tree of a frame
+ * @param onLoadChildren - Callback function to load children left out of the document tree
+ * @param treeChanges - Nodes the page changed most recently
+ * @returns A React element representing the search box and its results
+ */
+export const DOMSearch: React.FC<DOMSearchProps> = ({
+  result,
+  frameId,
+  frameTrees,
+  onSearch,
+  onSelectMatch,
+  onSelectNode,
+  onExpandFrame,
+  onLoadChildren,
+  treeChanges,
+}) => {
+  const [query, setQuery] = useState('');
+  const [revealPath, setRevealPath] = useState<ElementPath | undefined>(undefined);
+  const documentTree = frameTrees[frameId];
+
+  useEffect(() => {
+    setRevealPath(undefined);
+  }, [result]);
+
+  const handleSubmit = (event: React.FormEvent) => {
+    event.preventDefault();
+    onSearch(query);
+  };
+
+  const handleClear = () => {
+    setQuery('');
+    onSearch('');
+  };
+
+  const handleMatchSelect = (match: SearchMatch) => {
+    setRevealPath(match.elementInfo.path);
+    onSelectMatch(match);
+  };
+
+  const renderResults = () => {
+    if (!result) return null;
+    if (result.total === 0) {
+      return <div className="element-query-status">{chrome.i18n.getMessage('queryNoMatches')}</div>;
+    }
+
+    return (
+      <>
+        <div className="element-query-status">
+          <span>
+            {chrome.i18n.getMessage('queryMatchCount', [String(result.total)])}
+            {result.total > result.matches.length &&
+              ` ${chrome.i18n.getMessage('queryMatchesShown', [String(result.matches.length)])}`}
+          </span>
+        </div>
+        <div className="element-query-matches">
+          {result.matches.map((match, index) => (
+            <div
+              key={index}
+              className={`selection-item search-match ${
+                match.elementInfo.path === revealPath ? 'active' : ''
+              }`}
+              onClick={() => handleMatchSelect(match)}
+            >
+              <Tooltip content={formatElementPath(match.elementInfo.path)}>
+                <span className="selection-item-tag">
+                  {formatElementTag(match.elementInfo.startTag, { maxLength: 40 })}
+                </span>
+              </Tooltip>
+              <span className={`search-match-snippet ${match.field}`}>{match.snippet}</span>
+            </div>
+          ))}
+        </div>
+        {revealPath &&
+          (documentTree ? (
+            <DOMTreeView
+              elementInfo={documentTree}
+              frameId={frameId}
+              frameTrees={frameTrees}
+              onSelect={onSelectNode}
+              onExpandFrame={onExpandFrame}
+              revealPath={revealPath}
+              onLoadChildren={onLoadChildren}
+              changes={treeChanges}
+            />
+          ) : (
+            <div className="tree-frame-loading">{chrome.i18n.getMessage('treeFrameLoading')}</div>
+          ))}
+      </>
+    );
+  };
+
+  return (
+    <div className="element-query">
+      <form className="style-editor-search" onSubmit={handleSubmit}>
+        <Search className="style-editor-search-icon" size={16} />
+        <input
+          type="text"
+          placeholder={chrome.i18n.getMessage('searchPlaceholder')}
+          value={query}
+          onChange={(e) => setQuery(e.target.value)}
+          className="style-editor-search-input element-query-input"
+        />
+        {query && (
+          <button type="button" className="element-query-clear" onClick={handleClear}>
+            <X size={14} />
+          </button>
+        )}
+      </form>
+      {renderResults()}
+    </div>
+  );
+};
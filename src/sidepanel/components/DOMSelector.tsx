@@ -1,35 +1,132 @@
-import { ChevronUp, Clipboard, ClipboardCheck } from 'lucide-react';
+import { ChevronUp, Clipboard, ClipboardCheck, Code, FileCode, RotateCcw, X } from 'lucide-react';
 import React, { useState } from 'react';
 import { Logger } from '../../lib/logger';
-import { ElementInfo } from '../../types/types';
-import { elementInfoToHTML } from '../../utils/elementInfoToHTML';
+import {
+  DOMSearchResult,
+  ElementInfo,
+  ElementLocator,
+  ElementPath,
+  ElementQueryResult,
+  MovePosition,
+  SearchMatch,
+} from '../../types/types';
+import { formatElementPath, getParentPath } from '../../utils/domSelection';
+import { formatHTML } from '../../utils/formatters';
+import { formatElementTag } from '../../utils/htmlTagFormatter';
 import { Card } from './common/Card';
-import { DOMTreeView } from './common/DOMTreeView';
+import { DOMTreeView, TreeChanges } from './common/DOMTreeView';
 import { Tooltip } from './common/Tooltip';
+import { DOMSearch } from './DOMSearch';
+import { ElementQuery } from './ElementQuery';
+import { HTMLEditor } from './HTMLEditor';
 
 interface DOMSelectorProps {
   /** The currently selected element */
   selectedElement: ElementInfo | null;
-  /** Callback function to handle element selection */
-  onSelectElement: (path: number[]) => void;
+  /** All selected elements, the primary selection last */
+  selection: ElementInfo[];
+  /** Frame the selected element belongs to, 0 for the top frame */
+  frameId: number;
+  /** Document trees of frames expanded in the tree view, keyed by frame ID */
+  frameTrees: Record<number, ElementInfo>;
+  /** Nodes the page changed most recently, flashed in the tree view */
+  treeChanges: TreeChanges | null;
+  /** Whether the page removed the selected element */
+  isDetached: boolean;
+  /** Callback function to handle element selection, in the given frame if specified */
+  onSelectElement: (
+    path: ElementPath,
+    frameId?: number,
+    locator?: ElementLocator,
+    additive?: boolean
+  ) => void;
+  /** Callback function to request the document tree of a frame */
+  onExpandFrame: (frameId: number) => void;
+  /** Callback function to load children left out of a tree, starting at offset */
+  onLoadChildren: (node: ElementInfo, frameId: number, offset: number) => void;
+  /** Callback function to remove an element from the selection */
+  onUnselectElement: (elementInfo: ElementInfo) => void;
+  /** Callback function to revert the changes made to an element */
+  onRevertElement: (elementInfo: ElementInfo) => void;
+  /** Callback function to move a node dragged onto another node in the tree view */
+  onMoveNode: (
+    node: ElementInfo,
+    target: ElementInfo,
+    position: MovePosition,
+    frameId: number
+  ) => void;
+  /** Markup of the selected element loaded for editing, null until it arrives */
+  elementHTML: string | null;
+  /** Callback function to load the markup of the selected element for editing */
+  onLoadHTML: () => void;
+  /** Fetches the markup of the selected element from the page, for copying */
+  onFetchHTML: () => Promise<string>;
+  /** Callback function to replace the selected element with edited markup */
+  onReplaceHTML: (html: string) => void;
+  /** Result of the last CSS selector or XPath query */
+  queryResult: ElementQueryResult | null;
+  /** Callback function to find elements by CSS selector or XPath */
+  onQueryElements: (query: string) => void;
+  /** Callback function to select a match of the query */
+  onSelectQueryMatch: (match: ElementInfo) => void;
+  /** Result of the last full-text search */
+  searchResult: DOMSearchResult | null;
+  /** Frame the full-text search ran in */
+  searchFrameId: number;
+  /** Callback function to search the document by text, attribute values and tag names */
+  onSearchDOM: (query: string) => void;
+  /** Callback function to select a hit of the full-text search */
+  onSelectSearchMatch: (match: SearchMatch) => void;
 }
 
+/** How elements are found from the query box */
+type FindMode = 'selector' | 'text';
+
 // Utility functions
 const hasParentElement = (element: ElementInfo): boolean => {
   return element.path.length > 0;
 };
 
-const getParentPath = (path: number[]): number[] => {
-  return path.slice(0, -1);
-};
-
-export const DOMSelector: React.FC<DOMSelectorProps> = ({ selectedElement, onSelectElement }) => {
+export const DOMSelector: React.FC<DOMSelectorProps> = ({
+  selectedElement,
+  selection,
+  frameId,
+  frameTrees,
+  treeChanges,
+  isDetached,
+  onSelectElement,
+  onExpandFrame,
+  onLoadChildren,
+  onUnselectElement,
+  onRevertElement,
+  onMoveNode,
+  elementHTML,
+  onLoadHTML,
+  onFetchHTML,
+  onReplaceHTML,
+  queryResult,
+  onQueryElements,
+  onSelectQueryMatch,
+  searchResult,
+  searchFrameId,
+  onSearchDOM,
+  onSelectSearchMatch,
+}) => {
   const logger = new Logger('DOMSelector');
+  const [findMode, setFindMode] = useState<FindMode>('selector');
   const [isCopied, setIsCopied] = useState(false);
+  const [isSelectorCopied, setIsSelectorCopied] = useState(false);
+  const [isEditingHTML, setIsEditingHTML] = useState(false);
+
+  // The editor belongs to the element it was opened for
+  const selectedKey = selectedElement && formatElementPath(selectedElement.path);
+  React.useEffect(() => {
+    setIsEditingHTML(false);
+  }, [selectedKey, frameId]);
 
-  const handleElementInfoSelect = (elementInfo: ElementInfo): void => {
-    logger.info('Element selected:', elementInfo);
-    onSelectElement(elementInfo.path);
+  const handleElementInfoSelect = (elementInfo: ElementInfo, elementFrameId: number): void => {
+    logger.info('Element selected:', elementInfo, 'frameId:', elementFrameId);
+    onSelectElement(elementInfo.path, elementFrameId, elementInfo.locator);
   };
 
   const handleParentSelect = (): void => {
@@ -44,7 +141,8 @@ export const DOMSelector: React.FC<DOMSelectorProps> = ({ selectedElement, onSel
     if (!selectedElement) return;
 
     try {
-      const htmlString = elementInfoToHTML(selectedElement);
+      // The tree only holds the loaded part of the subtree, the page has all of it
+      const htmlString = formatHTML(await onFetchHTML());
       await navigator.clipboard.writeText(htmlString);
 
       // Set the copied state to true and then reset it after 2 seconds
@@ -59,9 +157,126 @@ export const DOMSelector: React.FC<DOMSelectorProps> = ({ selectedElement, onSel
     }
   };
 
+  const handleCopySelector = async (): Promise<void> => {
+    if (!selectedElement?.locator) return;
+
+    try {
+      await navigator.clipboard.writeText(selectedElement.locator.selector);
+
+      setIsSelectorCopied(true);
+      setTimeout(() => {
+        setIsSelectorCopied(false);
+      }, 2000);
+
+      logger.info('Selector copied to clipboard');
+    } catch (error) {
+      logger.error('Failed to copy selector:', error);
+    }
+  };
+
+  const handleEditHTML = (): void => {
+    if (isEditingHTML) {
+      setIsEditingHTML(false);
+      return;
+    }
+
+    setIsEditingHTML(true);
+    onLoadHTML();
+  };
+
+  const handleSaveHTML = (html: string): void => {
+    onReplaceHTML(html);
+    setIsEditingHTML(false);
+  };
+
+  // Make an element of the selection the primary selection without dropping the others
+  const handleSelectionFocus = (elementInfo: ElementInfo): void => {
+    onSelectElement(elementInfo.path, undefined, elementInfo.locator, true);
+  };
+
+  const renderSelectionList = () => {
+    return (
+      <div className="selection-list">
+        <h4 className="injected-tags-title">Selected Elements ({selection.length})</h4>
+        {selection.map((elementInfo, index) => (
+          <div
+            key={elementInfo.locator?.selector ?? index}
+            className={`selection-item ${index === selection.length - 1 ? 'active' : ''}`}
+          >
+            <Tooltip content={elementInfo.locator?.selector ?? elementInfo.startTag}>
+              <span
+                className="selection-item-tag"
+                onClick={() => handleSelectionFocus(elementInfo)}
+              >
+                {formatElementTag(elementInfo.startTag, { maxLength: 40 })}
+              </span>
+            </Tooltip>
+            <Tooltip content={chrome.i18n.getMessage('tooltipRevertElement')}>
+              <button className="style-editor-button" onClick={() => onRevertElement(elementInfo)}>
+                <RotateCcw size={14} />
+              </button>
+            </Tooltip>
+            <Tooltip content={chrome.i18n.getMessage('tooltipUnselectElement')}>
+              <button
+                className="style-editor-button style-editor-button-danger"
+                onClick={() => onUnselectElement(elementInfo)}
+              >
+                <X size={14} />
+              </button>
+            </Tooltip>
+          </div>
+        ))}
+      </div>
+    );
+  };
+
+  // Switching modes drops the result of the mode that is left
+  const handleFindModeChange = (mode: FindMode): void => {
+    if (mode === findMode) return;
+    if (findMode === 'selector' && queryResult) onQueryElements('');
+    if (findMode === 'text' && searchResult) onSearchDOM('');
+    setFindMode(mode);
+  };
+
+  const elementQuery = (
+    <>
+      <div className="find-mode-toggle">
+        {(['selector', 'text'] as FindMode[]).map((mode) => (
+          <button
+            key={mode}
+            className={`find-mode-button ${findMode === mode ? 'active' : ''}`}
+            onClick={() => handleFindModeChange(mode)}
+          >
+            {chrome.i18n.getMessage(mode === 'selector' ? 'findModeSelector' : 'findModeText')}
+          </button>
+        ))}
+      </div>
+      {findMode === 'selector' ? (
+        <ElementQuery
+          result={queryResult}
+          onQuery={onQueryElements}
+          onSelectMatch={onSelectQueryMatch}
+        />
+      ) : (
+        <DOMSearch
+          result={searchResult}
+          frameId={searchFrameId}
+          frameTrees={frameTrees}
+          onSearch={onSearchDOM}
+          onSelectMatch={onSelectSearchMatch}
+          onSelectNode={handleElementInfoSelect}
+          onExpandFrame={onExpandFrame}
+          onLoadChildren={onLoadChildren}
+          treeChanges={treeChanges}
+        />
+      )}
+    </>
+  );
+
   if (!selectedElement) {
     return (
       <Card title="DOM Selector">
+        {elementQuery}
         <div className="style-editor-empty">{chrome.i18n.getMessage('domSelectorEmptyState')}</div>
       </Card>
     );
@@ -69,6 +284,7 @@ export const DOMSelector: React.FC<DOMSelectorProps> = ({ selectedElement, onSel
 
   return (
     <Card title="DOM Selector">
+      {elementQuery}
       <div className="selected-element-info">
         <div className="element-header">
           <h3>Selected Element:</h3>
@@ -80,6 +296,22 @@ export const DOMSelector: React.FC<DOMSelectorProps> = ({ selectedElement, onSel
                 </button>
               </Tooltip>
             )}
+            {selectedElement.locator && (
+              <Tooltip
+                content={
+                  isSelectorCopied
+                    ? chrome.i18n.getMessage('copiedToClipboard')
+                    : chrome.i18n.getMessage('tooltipCopySelector')
+                }
+              >
+                <button
+                  onClick={handleCopySelector}
+                  className={`icon-button ${isSelectorCopied ? 'icon-button-success' : ''}`}
+                >
+                  <Code size={16} />
+                </button>
+              </Tooltip>
+            )}
             <Tooltip
               content={
                 isCopied
@@ -94,13 +326,51 @@ export const DOMSelector: React.FC<DOMSelectorProps> = ({ selectedElement, onSel
                 {isCopied ? <ClipboardCheck size={16} /> : <Clipboard size={16} />}
               </button>
             </Tooltip>
+            {hasParentElement(selectedElement) && (
+              <Tooltip content={chrome.i18n.getMessage('tooltipEditAsHTML')}>
+                <button
+                  onClick={handleEditHTML}
+                  className={`icon-button ${isEditingHTML ? 'active' : ''}`}
+                >
+                  <FileCode size={16} />
+                </button>
+              </Tooltip>
+            )}
           </div>
         </div>
         <Tooltip content={chrome.i18n.getMessage('labelDOMPath')}>
-          <div className="element-path">{selectedElement.path.join(' > ')}</div>
+          <div className="element-path">
+            {frameId !== 0 && `#frame-${frameId} > `}
+            {formatElementPath(selectedElement.path)}
+          </div>
         </Tooltip>
+        {selectedElement.locator && (
+          <Tooltip content={chrome.i18n.getMessage('labelSelector')}>
+            <div className="element-path">{selectedElement.locator.selector}</div>
+          </Tooltip>
+        )}
+        {isDetached && (
+          <div className="selection-detached">{chrome.i18n.getMessage('selectionDetached')}</div>
+        )}
       </div>
-      <DOMTreeView elementInfo={selectedElement} onSelect={handleElementInfoSelect} />
+      {isEditingHTML && (
+        <HTMLEditor
+          html={elementHTML}
+          onSave={handleSaveHTML}
+          onCancel={() => setIsEditingHTML(false)}
+        />
+      )}
+      {selection.length > 1 && renderSelectionList()}
+      <DOMTreeView
+        elementInfo={selectedElement}
+        frameId={frameId}
+        frameTrees={frameTrees}
+        onSelect={handleElementInfoSelect}
+        onExpandFrame={onExpandFrame}
+        onLoadChildren={onLoadChildren}
+        changes={treeChanges}
+        onMoveNode={onMoveNode}
+      />
     </Card>
   );
 };
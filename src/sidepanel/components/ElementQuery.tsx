@@ -0,0 +1,129 @@
+import { ChevronLeft, ChevronRight, Search, X } from 'lucide-react';
+import React, { useEffect, useState } from 'react';
+import { ElementInfo, ElementQueryResult } from '../../types/types';
+import { formatElementPath } from '../../utils/domSelection';
+import { formatElementTag } from '../../utils/htmlTagFormatter';
+import { Tooltip } from './common/Tooltip';
+
+interface ElementQueryProps {
+  /** Result of the last query, null if nothing has been queried */
+  result: ElementQueryResult | null;
+  /** Callback function to evaluate a query, an empty query clears the matches */
+  onQuery: (query: string) => void;
+  /** Callback function to select one of the matches */
+  onSelectMatch: (match: ElementInfo) => void;
+}
+
+/**
+ * Query box to find elements by CSS selector or XPath and step through the matches
+ * @param result - Result of the last query
+ * @param onQuery - Callback function to evaluate a query
+ * @param onSelectMatch - Callback function to select one of the matches
+ * @returns A React element representing the query box
+ */
+export const ElementQuery: React.FC<ElementQueryProps> = ({ result, onQuery, onSelectMatch }) => {
+  const [query, setQuery] = useState('');
+  const [currentIndex, setCurrentIndex] = useState(-1);
+
+  // Start stepping from the first match again for every new result
+  useEffect(() => {
+    setCurrentIndex(-1);
+  }, [result]);
+
+  const matches = result?.matches ?? [];
+
+  const handleSubmit = (event: React.FormEvent) => {
+    event.preventDefault();
+    onQuery(query);
+  };
+
+  const handleClear = () => {
+    setQuery('');
+    onQuery('');
+  };
+
+  const selectMatch = (index: number) => {
+    setCurrentIndex(index);
+    onSelectMatch(matches[index]);
+  };
+
+  const handleStep = (step: number) => {
+    if (matches.length === 0) return;
+    const start = currentIndex < 0 && step < 0 ? 0 : currentIndex;
+    selectMatch((start + step + matches.length) % matches.length);
+  };
+
+  const renderStatus = () => {
+    if (!result) return null;
+    if (result.error) {
+      return <div className="element-query-error">{result.error}</div>;
+    }
+    if (result.total === 0) {
+      return <div className="element-query-status">{chrome.i18n.getMessage('queryNoMatches')}</div>;
+    }
+
+    return (
+      <>
+        <div className="element-query-status">
+          <span>
+            {chrome.i18n.getMessage('queryMatchCount', [String(result.total)])}
+            {result.total > matches.length &&
+              ` ${chrome.i18n.getMessage('queryMatchesShown', [String(matches.length)])}`}
+          </span>
+          <div className="header-actions">
+            <span>
+              {currentIndex + 1} / {matches.length}
+            </span>
+            <Tooltip content={chrome.i18n.getMessage('tooltipPreviousMatch')}>
+              <button className="style-editor-button" onClick={() => handleStep(-1)}>
+                <ChevronLeft size={14} />
+              </button>
+            </Tooltip>
+            <Tooltip content={chrome.i18n.getMessage('tooltipNextMatch')}>
+              <button className="style-editor-button" onClick={() => handleStep(1)}>
+                <ChevronRight size={14} />
+              </button>
+            </Tooltip>
+          </div>
+        </div>
+        <div className="element-query-matches">
+          {matches.map((match, index) => (
+            <div
+              key={index}
+              className={`selection-item ${index === currentIndex ? 'active' : ''}`}
+              onClick={() => selectMatch(index)}
+            >
+              <Tooltip content={formatElementPath(match.path)}>
+                <span className="selection-item-tag">
+                  {formatElementTag(match.startTag, { maxLength: 40 })}
+                </span>
+              </Tooltip>
+            </div>
+          ))}
+        </div>
+      </>
+    );
+  };
+
+  return (
+    <div className="element-query">
+      <form className="style-editor-search" onSubmit={handleSubmit}>
+        <Search className="style-editor-search-icon" size={16} />
+        <input
+          type="text"
+          placeholder={chrome.i18n.getMessage('queryPlaceholder')}
+          value={query}
+          onChange={(e) => setQuery(e.target.value)}
+          className="style-editor-search-input element-query-input"
+          spellCheck={false}
+        />
+        {query && (
+          <button type="button" className="element-query-clear" onClick={handleClear}>
+            <X size={14} />
+          </button>
+        )}
+      </form>
+      {renderStatus()}
+    </div>
+  );
+};
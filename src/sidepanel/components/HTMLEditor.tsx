@@ -0,0 +1,79 @@
+import { AlertCircle, Check, X } from 'lucide-react';
+import React, { useState } from 'react';
+import { isValidHtmlString } from '../../utils/htmlValidator';
+import { Tooltip } from './common/Tooltip';
+
+interface HTMLEditorProps {
+  /** Markup of the selected element as the page has it, null while it is loading */
+  html: string | null;
+  /** Callback function to replace the selected element with the edited markup */
+  onSave: (html: string) => void;
+  /** Callback function to leave the editor without changes */
+  onCancel: () => void;
+}
+
+/**
+ * Editor for the outer HTML of the selected element, which replaces the element when saved
+ * @param html - Markup of the selected element, null while it is loading
+ * @param onSave - Callback function to replace the selected element with the edited markup
+ * @param onCancel - Callback function to leave the editor without changes
+ * @returns A React element representing the HTML editor
+ */
+export const HTMLEditor: React.FC<HTMLEditorProps> = ({ html, onSave, onCancel }) => {
+  const [value, setValue] = useState(html ?? '');
+  const [validationError, setValidationError] = useState<string | undefined>(undefined);
+
+  React.useEffect(() => {
+    setValue(html ?? '');
+    setValidationError(undefined);
+  }, [html]);
+
+  const handleInput = (e: React.ChangeEvent<HTMLTextAreaElement>): void => {
+    const newValue = e.target.value;
+    setValue(newValue);
+
+    try {
+      const isValid = newValue.trim() !== '' && isValidHtmlString(newValue);
+      setValidationError(isValid ? undefined : chrome.i18n.getMessage('htmlEditorValidationError'));
+    } catch (err) {
+      setValidationError((err as Error).message);
+    }
+  };
+
+  if (html === null) {
+    return <div className="style-editor-empty">{chrome.i18n.getMessage('htmlEditorLoading')}</div>;
+  }
+
+  return (
+    <div className="html-editor">
+      <textarea
+        value={value}
+        onChange={handleInput}
+        className={`injection-tag ${validationError ? 'error' : ''}`}
+        spellCheck={false}
+      />
+      {validationError && (
+        <div className="error-message">
+          <AlertCircle />
+          <span>{validationError}</span>
+        </div>
+      )}
+      <div className="html-editor-actions">
+        <Tooltip content={chrome.i18n.getMessage('tooltipSaveHTML')}>
+          <button
+            className="style-editor-button style-editor-button-primary"
+            onClick={() => onSave(value)}
+            disabled={!!validationError || value === html}
+          >
+            <Check size={16} />
+          </button>
+        </Tooltip>
+        <Tooltip content={chrome.i18n.getMessage('tooltipCancelHTML')}>
+          <button className="style-editor-button style-editor-button-danger" onClick={onCancel}>
+            <X size={16} />
+          </button>
+        </Tooltip>
+      </div>
+    </div>
+  );
+};
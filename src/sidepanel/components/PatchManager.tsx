@@ -0,0 +1,245 @@
+import { AlertCircle, AlertTriangle, ChevronDown, ChevronUp, Save, Trash2, X } from 'lucide-react';
+import React, { useState } from 'react';
+import { usePatches } from '../../lib/patches';
+import { Patch, PatchModification, PatchResult } from '../../types/types';
+import { formatElementTag } from '../../utils/htmlTagFormatter';
+import { getDefaultUrlPattern } from '../../utils/urlPattern';
+import { Card } from './common/Card';
+import { Tooltip } from './common/Tooltip';
+
+interface PatchManagerProps {
+  /** URL of the page in the tab, null while it is unknown */
+  pageUrl: string | null;
+  /** Number of modifications of the top frame that would be saved in a new patch */
+  modificationCount: number;
+  /** Patches applied in the top frame of the tab */
+  results: PatchResult[];
+  /** Callback function to save the current changes as a patch */
+  onSavePatch: (name: string, urlPattern: string) => Promise<void>;
+  /** Callback function to apply the patches to the tab again after they were edited */
+  onPatchesChanged: () => void;
+}
+
+// What a modification does, e.g. "color: red"
+const describeModification = (modification: PatchModification): React.ReactNode => {
+  switch (modification.type) {
+    case 'style':
+      return `${modification.property}: ${modification.value}`;
+    case 'attribute':
+      return modification.value === null
+        ? `-${modification.name}`
+        : `${modification.name}="${modification.value}"`;
+    case 'tag':
+      return formatElementTag(modification.tag, { maxLength: 40 });
+  }
+};
+
+interface PatchItemProps {
+  patch: Patch;
+  result: PatchResult | null;
+  onUpdate: (changes: Partial<Omit<Patch, 'id'>>) => void;
+  onDelete: () => void;
+}
+
+const PatchItem: React.FC<PatchItemProps> = ({ patch, result, onUpdate, onDelete }) => {
+  const [name, setName] = useState(patch.name);
+  const [urlPattern, setUrlPattern] = useState(patch.urlPattern);
+  const [isExpanded, setIsExpanded] = useState(false);
+
+  React.useEffect(() => {
+    setName(patch.name);
+    setUrlPattern(patch.urlPattern);
+  }, [patch.name, patch.urlPattern]);
+
+  // Empty names and patterns are not saved, the field shows the saved value again
+  const handleBlur = (
+    key: 'name' | 'urlPattern',
+    value: string,
+    reset: (value: string) => void
+  ) => {
+    const trimmed = value.trim();
+    if (!trimmed) {
+      reset(patch[key]);
+    } else if (trimmed !== patch[key]) {
+      onUpdate({ [key]: trimmed });
+    }
+  };
+
+  const removeModification = (index: number) => {
+    onUpdate({ modifications: patch.modifications.filter((_, i) => i !== index) });
+  };
+
+  return (
+    <div className="patch-item">
+      <div className="patch-item-header">
+        <Tooltip content={chrome.i18n.getMessage('tooltipEnablePatch')}>
+          <input
+            type="checkbox"
+            checked={patch.enabled}
+            onChange={(e) => onUpdate({ enabled: e.target.checked })}
+          />
+        </Tooltip>
+        <input
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+          onBlur={() => handleBlur('name', name, setName)}
+          className="style-editor-input"
+        />
+        {result && (
+          <span className="patch-active">
+            {chrome.i18n.getMessage('patchActive', [`${result.applied}`])}
+          </span>
+        )}
+        <Tooltip content={chrome.i18n.getMessage('tooltipEditPatch')}>
+          <button className="style-editor-button" onClick={() => setIsExpanded(!isExpanded)}>
+            {isExpanded ? <ChevronUp size={16} /> : <ChevronDown size={16} />}
+          </button>
+        </Tooltip>
+        <Tooltip content={chrome.i18n.getMessage('tooltipDeletePatch')}>
+          <button className="style-editor-button style-editor-button-danger" onClick={onDelete}>
+            <Trash2 size={16} />
+          </button>
+        </Tooltip>
+      </div>
+
+      {result && result.unresolved.length > 0 && (
+        <Tooltip content={result.unresolved.join('\n')}>
+          <div className="patch-unresolved">
+            <AlertTriangle size={14} />
+            {chrome.i18n.getMessage('patchUnresolved', [`${result.unresolved.length}`])}
+          </div>
+        </Tooltip>
+      )}
+
+      {isExpanded && (
+        <div className="patch-details">
+          <input
+            value={urlPattern}
+            onChange={(e) => setUrlPattern(e.target.value)}
+            onBlur={() => handleBlur('urlPattern', urlPattern, setUrlPattern)}
+            placeholder={chrome.i18n.getMessage('patchUrlPatternPlaceholder')}
+            className="style-editor-input"
+          />
+          {patch.modifications.map((modification, index) => (
+            <div key={index} className="style-history-item patch-modification">
+              <div className="style-history-content">
+                <Tooltip content={modification.locator.selector}>
+                  <span className="style-history-property">
+                    {formatElementTag(`<${modification.locator.tagName}>`, { maxLength: 30 })}
+                  </span>
+                </Tooltip>
+                <span>{describeModification(modification)}</span>
+              </div>
+              <Tooltip content={chrome.i18n.getMessage('tooltipRemoveModification')}>
+                <button
+                  className="style-editor-button style-editor-button-danger"
+                  onClick={() => removeModification(index)}
+                >
+                  <X size={14} />
+                </button>
+              </Tooltip>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+/**
+ * Patches: style changes, attribute edits and injected tags saved for pages whose URL matches a
+ * pattern, and applied again whenever such a page loads
+ * @param pageUrl - URL of the page in the tab
+ * @param modificationCount - Number of modifications that would be saved in a new patch
+ * @param results - Patches applied in the top frame of the tab
+ * @param onSavePatch - Callback function to save the current changes as a patch
+ * @param onPatchesChanged - Callback function to apply the patches again after they were edited
+ * @returns A React element representing the patch manager
+ */
+export const PatchManager: React.FC<PatchManagerProps> = ({
+  pageUrl,
+  modificationCount,
+  results,
+  onSavePatch,
+  onPatchesChanged,
+}) => {
+  const { patches, updatePatch, deletePatch, error } = usePatches();
+  const [name, setName] = useState('');
+  const [urlPattern, setUrlPattern] = useState('');
+
+  React.useEffect(() => {
+    setUrlPattern(pageUrl ? getDefaultUrlPattern(pageUrl) : '');
+  }, [pageUrl]);
+
+  const handleSave = async () => {
+    await onSavePatch(name.trim(), urlPattern.trim());
+    setName('');
+  };
+
+  const handleUpdate = async (id: string, changes: Partial<Omit<Patch, 'id'>>) => {
+    await updatePatch(id, changes);
+    onPatchesChanged();
+  };
+
+  const handleDelete = async (id: string) => {
+    await deletePatch(id);
+    onPatchesChanged();
+  };
+
+  return (
+    <Card title="Patches" initialCollapsed={true}>
+      <div className="patch-manager">
+        <div className="patch-form">
+          <input
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            placeholder={chrome.i18n.getMessage('patchNamePlaceholder')}
+            className="style-editor-input"
+          />
+          <input
+            value={urlPattern}
+            onChange={(e) => setUrlPattern(e.target.value)}
+            placeholder={chrome.i18n.getMessage('patchUrlPatternPlaceholder')}
+            className="style-editor-input"
+          />
+          <Tooltip content={chrome.i18n.getMessage('tooltipSavePatch')}>
+            <button
+              className="style-editor-button style-editor-button-primary"
+              onClick={handleSave}
+              disabled={modificationCount === 0 || !name.trim() || !urlPattern.trim()}
+            >
+              <Save size={16} />
+            </button>
+          </Tooltip>
+        </div>
+        <div className="text-editor-hint">
+          {chrome.i18n.getMessage('patchSaveHint', [`${modificationCount}`])}
+        </div>
+
+        {error && (
+          <div className="error-message">
+            <AlertCircle />
+            <span>{error}</span>
+          </div>
+        )}
+
+        {patches.length > 0 ? (
+          <div className="patch-list">
+            <h4 className="injected-tags-title">Saved Patches ({patches.length})</h4>
+            {patches.map((patch) => (
+              <PatchItem
+                key={patch.id}
+                patch={patch}
+                result={results.find((result) => result.patchId === patch.id) ?? null}
+                onUpdate={(changes) => handleUpdate(patch.id, changes)}
+                onDelete={() => handleDelete(patch.id)}
+              />
+            ))}
+          </div>
+        ) : (
+          <div className="style-editor-empty">{chrome.i18n.getMessage('patchesEmptyState')}</div>
+        )}
+      </div>
+    </Card>
+  );
+};
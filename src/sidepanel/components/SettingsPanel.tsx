@@ -1,6 +1,8 @@
 // SettingsPanel.tsx
 import React from 'react';
 import {
+  CaptureMode,
+  CaptureSettings,
   LogLevel,
   PaperOrientation,
   PaperSettings,
@@ -46,6 +48,18 @@ export const SettingsPanel: React.FC = () => {
     });
   };
 
+  const handleCaptureSettingChange = (
+    key: keyof CaptureSettings,
+    value: CaptureSettings[keyof CaptureSettings]
+  ) => {
+    updateSettings({
+      capture: {
+        ...settings.capture,
+        [key]: value,
+      },
+    });
+  };
+
   return (
     <div className="card">
       <div className="card-header">
@@ -86,6 +100,43 @@ export const SettingsPanel: React.FC = () => {
             <option value="landscape">Landscape</option>
           </select>
         </div>
+
+        <div className="setting-group">
+          <label>Capture Mode</label>
+          <select
+            value={settings.capture.mode}
+            onChange={(e) => handleCaptureSettingChange('mode', e.target.value as CaptureMode)}
+          >
+            <option value="viewport">Viewport</option>
+            <option value="element">Selected Element</option>
+            <option value="fullElement">Selected Element (Full)</option>
+            <option value="fullPage">Full Page</option>
+          </select>
+        </div>
+
+        <div className="setting-group">
+          <label>Capture Padding (px)</label>
+          <input
+            type="number"
+            min={0}
+            value={settings.capture.padding}
+            disabled={!['element', 'fullElement'].includes(settings.capture.mode)}
+            onChange={(e) =>
+              handleCaptureSettingChange('padding', Math.max(0, Number(e.target.value) || 0))
+            }
+          />
+        </div>
+
+        <div className="setting-group">
+          <label className="setting-checkbox">
+            <input
+              type="checkbox"
+              checked={settings.capture.hideHighlights}
+              onChange={(e) => handleCaptureSettingChange('hideHighlights', e.target.checked)}
+            />
+            Hide selection highlights in captures
+          </label>
+        </div>
       </div>
 
       <div className="setting-group">
@@ -4,32 +4,35 @@ import { Logger } from '../../lib/logger';
 import { useSettings } from '../../lib/settings';
 import { shareAsPDF } from '../../lib/shareAsPDF';
 import { shareAsPPT } from '../../lib/shareAsPPT';
-import { ElementInfo, SharePayload } from '../../types/types';
-import { elementInfoToHTML } from '../../utils/elementInfoToHTML';
+import {
+  AttributeChange,
+  ElementInfo,
+  InjectedTagInfo,
+  SharePayload,
+  StructureChange,
+  TextChange,
+} from '../../types/types';
+import { formatElementPath } from '../../utils/domSelection';
+import { formatLocator } from '../../utils/elementLocator';
+import { formatHTML } from '../../utils/formatters';
 import { formatElementTag } from '../../utils/htmlTagFormatter';
 import { Tooltip } from './common/Tooltip';
-
-interface InjectedTagInfo {
-  id: string;
-  tag: string;
-  timestamp: number;
-}
-
-interface StyleChange {
-  id: string;
-  timestamp: number;
-  property: keyof CSSStyleDeclaration;
-  oldValue: string;
-  newValue: string;
-}
+import { formatStructureChange } from './StructureEditor';
+import { FrameStyleChange } from './StyleEditor';
 
 interface ShareCaptureProps {
   onClose: () => void;
   selectedElement: ElementInfo | null;
   imageDataUrl: string | null;
   captureUrl: string | null;
+  captureSize: { width: number; height: number } | null;
   injectedTags: InjectedTagInfo[];
-  styleChanges: StyleChange[];
+  styleChanges: FrameStyleChange[];
+  attributeChanges: AttributeChange[];
+  textChanges: TextChange[];
+  structureChanges: StructureChange[];
+  /** Fetches the markup of the selected element from the page */
+  onFetchHTML: () => Promise<string>;
 }
 
 export type ShareFormat = 'pdf' | 'ppt';
@@ -62,13 +65,48 @@ const formatTagChanges = (tags: InjectedTagInfo[]): string => {
     .join('\n');
 };
 
-const formatStyleChanges = (changes: StyleChange[]): string => {
+const formatStyleChanges = (changes: FrameStyleChange[]): string => {
+  if (changes.length === 0) return '';
+
+  return changes
+    .map((change) => {
+      const date = new Date(change.timestamp).toLocaleString();
+      const elements = change.targets.map((target) => target.startTag).join(', ');
+      return `[${date}] ${elements} ${String(change.property)}: ${change.oldValue} → ${change.newValue}`;
+    })
+    .join('\n');
+};
+
+const formatAttributeChanges = (changes: AttributeChange[]): string => {
+  if (changes.length === 0) return '';
+
+  const formatValue = (value: string | null) => (value === null ? '-' : JSON.stringify(value));
+  return changes
+    .map((change) => {
+      const date = new Date(change.timestamp).toLocaleString();
+      return `[${date}] ${change.name}: ${formatValue(change.oldValue)} → ${formatValue(change.newValue)}`;
+    })
+    .join('\n');
+};
+
+const formatTextChanges = (changes: TextChange[]): string => {
+  if (changes.length === 0) return '';
+
+  return changes
+    .map((change) => {
+      const date = new Date(change.timestamp).toLocaleString();
+      return `[${date}] ${change.oldTexts.map((text) => JSON.stringify(text)).join(', ')} → ${JSON.stringify(change.newText)}`;
+    })
+    .join('\n');
+};
+
+const formatStructureChanges = (changes: StructureChange[]): string => {
   if (changes.length === 0) return '';
 
   return changes
     .map((change) => {
       const date = new Date(change.timestamp).toLocaleString();
-      return `[${date}] ${String(change.property)}: ${change.oldValue} → ${change.newValue}`;
+      return `[${date}] ${formatStructureChange(change)}`;
     })
     .join('\n');
 };
@@ -79,8 +117,12 @@ const formatStyleChanges = (changes: StyleChange[]): string => {
  * @param selectedElement - Information about the selected element
  * @param imageDataUrl - Data URL of the screen capture image
  * @param captureUrl - URL of the captured page
+ * @param captureSize - Pixel dimensions of the screen capture image
  * @param injectedTags - List of injected tags
  * @param styleChanges - List of style changes
+ * @param attributeChanges - List of attribute changes
+ * @param textChanges - List of text changes
+ * @param structureChanges - List of structural edits
  * @returns JSX.Element
  */
 export const ShareCapture: React.FC<ShareCaptureProps> = ({
@@ -88,8 +130,13 @@ export const ShareCapture: React.FC<ShareCaptureProps> = ({
   selectedElement,
   imageDataUrl,
   captureUrl,
+  captureSize,
   injectedTags,
   styleChanges,
+  attributeChanges,
+  textChanges,
+  structureChanges,
+  onFetchHTML,
 }) => {
   const { settings } = useSettings();
   const logger = new Logger('ShareCapture');
@@ -146,9 +193,13 @@ export const ShareCapture: React.FC<ShareCaptureProps> = ({
       const payload: SharePayload = {
         imageData: imageDataUrl,
         url: captureUrl || '',
-        html: selectedElement ? elementInfoToHTML(selectedElement) : '',
+        html: selectedElement ? formatHTML(await onFetchHTML()) : '',
+        selector: selectedElement?.locator ? formatLocator(selectedElement.locator) : '',
         comment,
         styleChanges: formatStyleChanges(styleChanges),
+        attributeChanges: formatAttributeChanges(attributeChanges),
+        textChanges: formatTextChanges(textChanges),
+        structureChanges: formatStructureChanges(structureChanges),
         injectedTags: formatTagChanges(injectedTags),
         paperSettings: settings.paper,
       };
@@ -179,7 +230,8 @@ export const ShareCapture: React.FC<ShareCaptureProps> = ({
 
         {selectedElement && (
           <div className="element-info">
-            <p>[ {selectedElement.path.join(' > ')} ]</p>
+            <p>[ {formatElementPath(selectedElement.path)} ]</p>
+            {selectedElement.locator && <p>{selectedElement.locator.selector}</p>}
             <p>
               {formatElementTag(selectedElement.startTag, {
                 showFullContent: true,
@@ -210,6 +262,14 @@ export const ShareCapture: React.FC<ShareCaptureProps> = ({
               <span className="info-label">Paper:</span>
               <span className="info-value">{formatPaperSettings()}</span>
             </div>
+            {captureSize && (
+              <div className="info-item">
+                <span className="info-label">Image:</span>
+                <span className="info-value">
+                  {captureSize.width} × {captureSize.height} px
+                </span>
+              </div>
+            )}
           </div>
         </div>
         {styleChanges.length > 0 && (
@@ -218,6 +278,24 @@ export const ShareCapture: React.FC<ShareCaptureProps> = ({
             <pre>{formatStyleChanges(styleChanges)}</pre>
           </div>
         )}
+        {attributeChanges.length > 0 && (
+          <div className="changes-section">
+            <h3>Attribute Changes</h3>
+            <pre>{formatAttributeChanges(attributeChanges)}</pre>
+          </div>
+        )}
+        {textChanges.length > 0 && (
+          <div className="changes-section">
+            <h3>Text Changes</h3>
+            <pre>{formatTextChanges(textChanges)}</pre>
+          </div>
+        )}
+        {structureChanges.length > 0 && (
+          <div className="changes-section">
+            <h3>Structure Changes</h3>
+            <pre>{formatStructureChanges(structureChanges)}</pre>
+          </div>
+        )}
         {injectedTags.length > 0 && (
           <div className="changes-section">
             <h3>Injected Tags</h3>
@@ -0,0 +1,155 @@
+import { ArrowDown, ArrowUp, Copy, EyeOff, Trash2 } from 'lucide-react';
+import React from 'react';
+import { ElementInfo, MovePosition, StructureChange, StructureOperation } from '../../types/types';
+import { formatElementTag } from '../../utils/htmlTagFormatter';
+import { Card } from './common/Card';
+import { Tooltip } from './common/Tooltip';
+
+/** A structural edit with the frame it was made in */
+export interface FrameStructureChange extends StructureChange {
+  frameId: number;
+}
+
+interface StructureEditorProps {
+  /** The currently selected element */
+  selectedElement: ElementInfo | null;
+  /** Structural edits made so far, the latest first */
+  structureChanges: FrameStructureChange[];
+  /** Callback function to edit the selected elements or move an element */
+  onEditStructure: (operation: StructureOperation) => void;
+}
+
+// Words joining the moved element and the target
+const POSITION_WORDS: Record<MovePosition, string> = {
+  before: 'before',
+  after: 'after',
+  inside: 'into',
+};
+
+// Word joining the moved or replaced elements and the target, if there is one
+const getTargetWord = (change: StructureChange): string | null => {
+  if (!change.target) return null;
+  return change.position ? POSITION_WORDS[change.position] : 'with';
+};
+
+/**
+ * One line describing a structural edit for reports, e.g. "move <li> before <li class="first">"
+ * @param change - The structural edit
+ * @returns The description of the edit
+ */
+export const formatStructureChange = (change: StructureChange): string => {
+  const description = `${change.type} ${change.elements.join(', ')}`;
+  const targetWord = getTargetWord(change);
+  if (!targetWord) return description;
+  return `${description} ${targetWord} ${change.target}`;
+};
+
+/**
+ * Structural edits: hide, delete, duplicate the selected elements or move them among their
+ * siblings. Elements can also be moved by dragging them in the DOM tree.
+ * @param selectedElement - The currently selected element
+ * @param structureChanges - Structural edits made so far
+ * @param onEditStructure - Callback function to edit the selected elements or move an element
+ * @returns A React element representing the structural edits
+ */
+export const StructureEditor: React.FC<StructureEditorProps> = ({
+  selectedElement,
+  structureChanges,
+  onEditStructure,
+}) => {
+  const moveTo = (sibling: ElementInfo | undefined, position: MovePosition) => {
+    const locator = selectedElement?.locator;
+    if (!locator || !sibling?.locator) return;
+    onEditStructure({ type: 'move', locator, target: sibling.locator, position });
+  };
+
+  // The document element is left alone
+  const canEdit = !!selectedElement && selectedElement.path.length > 0;
+
+  return (
+    <Card title="Structure" initialCollapsed={true}>
+      <div className="structure-editor">
+        {selectedElement ? (
+          <div className="structure-editor-actions">
+            <Tooltip content={chrome.i18n.getMessage('tooltipHideElement')}>
+              <button
+                className="style-editor-button"
+                onClick={() => onEditStructure({ type: 'hide' })}
+                disabled={!canEdit}
+              >
+                <EyeOff size={16} />
+              </button>
+            </Tooltip>
+            <Tooltip content={chrome.i18n.getMessage('tooltipDuplicateElement')}>
+              <button
+                className="style-editor-button"
+                onClick={() => onEditStructure({ type: 'duplicate' })}
+                disabled={!canEdit}
+              >
+                <Copy size={16} />
+              </button>
+            </Tooltip>
+            <Tooltip content={chrome.i18n.getMessage('tooltipMoveElementUp')}>
+              <button
+                className="style-editor-button"
+                onClick={() => moveTo(selectedElement.previousSibling, 'before')}
+                disabled={!canEdit || !selectedElement.previousSibling}
+              >
+                <ArrowUp size={16} />
+              </button>
+            </Tooltip>
+            <Tooltip content={chrome.i18n.getMessage('tooltipMoveElementDown')}>
+              <button
+                className="style-editor-button"
+                onClick={() => moveTo(selectedElement.nextSibling, 'after')}
+                disabled={!canEdit || !selectedElement.nextSibling}
+              >
+                <ArrowDown size={16} />
+              </button>
+            </Tooltip>
+            <Tooltip content={chrome.i18n.getMessage('tooltipDeleteElement')}>
+              <button
+                className="style-editor-button style-editor-button-danger"
+                onClick={() => onEditStructure({ type: 'delete' })}
+                disabled={!canEdit}
+              >
+                <Trash2 size={16} />
+              </button>
+            </Tooltip>
+          </div>
+        ) : (
+          <div className="style-editor-empty">
+            {chrome.i18n.getMessage('structureEditorEmptyState')}
+          </div>
+        )}
+
+        {structureChanges.length > 0 && (
+          <div className="style-history">
+            <div className="style-history-header">
+              <h4 className="style-history-title">Structure Changes ({structureChanges.length})</h4>
+            </div>
+            {structureChanges.map((entry) => (
+              <div key={entry.id} className="style-history-item">
+                <div className="style-history-meta">
+                  {new Date(entry.timestamp).toLocaleTimeString()}
+                </div>
+                <div className="style-history-content">
+                  <span className="style-history-property">{entry.type}</span>
+                  {entry.elements.map((element, index) => (
+                    <span key={index}>{formatElementTag(element, { maxLength: 30 })}</span>
+                  ))}
+                  {entry.target && (
+                    <>
+                      <span className="style-history-arrow">{getTargetWord(entry)}</span>
+                      <span>{formatElementTag(entry.target, { maxLength: 30 })}</span>
+                    </>
+                  )}
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+    </Card>
+  );
+};
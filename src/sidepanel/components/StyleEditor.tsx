@@ -1,25 +1,51 @@
 import { Check, Plus, RotateCcw, Search, X } from 'lucide-react';
 import React, { useMemo, useState } from 'react';
 import { Logger } from '../../lib/logger';
-import { ElementInfo } from '../../types/types';
+import { ElementInfo, PropertyCascade, StyleChange } from '../../types/types';
+import { getTargetKey } from '../../utils/commandHistory';
+import { getWinningDeclaration, toCSSPropertyName } from '../../utils/cssCascade';
+import { formatElementTag } from '../../utils/htmlTagFormatter';
 import { Card } from './common/Card';
 import { Tooltip } from './common/Tooltip';
 
 interface StyleEditorProps {
   selectedElement: ElementInfo | null;
   onStyleChange: (property: string, value: string, oldValue: string) => void;
-  onUndoStyleChange: () => void;
-  styleChanges: StyleChange[];
+  /** Style changes made so far, the latest first */
+  styleChanges: FrameStyleChange[];
+  /** Callback function to revert all style changes made to an element */
+  onRevertElementStyles: (target: ElementInfo, frameId: number) => void;
 }
 
-interface StyleChange {
-  id: string;
-  timestamp: number;
-  property: keyof CSSStyleDeclaration;
-  oldValue: string;
-  newValue: string;
+/** A style change with the frame and the elements it was made to */
+export interface FrameStyleChange extends StyleChange {
+  frameId: number;
+  targets: ElementInfo[];
 }
 
+/** Style changes made to one element, the latest first */
+interface StyleChangeGroup {
+  key: string;
+  frameId: number;
+  target: ElementInfo;
+  changes: FrameStyleChange[];
+}
+
+// Group style changes by the element they were made to, in the order the elements were last
+// changed. A change made to several elements is listed for each of them.
+const groupStyleChanges = (changes: FrameStyleChange[]): StyleChangeGroup[] => {
+  const groups = new Map<string, StyleChangeGroup>();
+  changes.forEach((change) => {
+    change.targets.forEach((target) => {
+      const key = `${change.frameId}:${getTargetKey(target)}`;
+      const group = groups.get(key) ?? { key, frameId: change.frameId, target, changes: [] };
+      group.changes.push(change);
+      groups.set(key, group);
+    });
+  });
+  return Array.from(groups.values());
+};
+
 const isValidCSSProperty = (property: string): boolean => {
   const excludedCSSProperties: (keyof CSSStyleDeclaration)[] = [
     'length',
@@ -35,14 +61,62 @@ const isValidCSSProperty = (property: string): boolean => {
   if (excludedCSSProperties.includes(property as keyof CSSStyleDeclaration)) {
     return false;
   }
-  return property in document.body.style;
+  return property.startsWith('--') || property in document.body.style;
+};
+
+// File name of a stylesheet, or a placeholder for styles written in the page
+const formatStylesheet = (stylesheetUrl?: string): string => {
+  if (!stylesheetUrl) return chrome.i18n.getMessage('styleEmbeddedSource');
+  return stylesheetUrl.split(/[?#]/)[0].split('/').pop() || stylesheetUrl;
+};
+
+/**
+ * Declarations that set a property, from the style attribute down to the rule with the lowest
+ * precedence; all but the one that wins are struck through
+ */
+const CascadeView: React.FC<{ cascade: PropertyCascade }> = ({ cascade }) => {
+  const winner = getWinningDeclaration(cascade);
+  const importantSuffix = (important: boolean) => (important ? ' !important' : '');
+
+  return (
+    <div className="style-cascade">
+      {cascade.inline && (
+        <div className={`style-cascade-entry ${winner === 'inline' ? '' : 'overridden'}`}>
+          <span className="style-cascade-selector">
+            {chrome.i18n.getMessage('styleInlineSource')}
+          </span>
+          <span className="style-cascade-value">
+            {cascade.inline.value}
+            {importantSuffix(cascade.inline.important)}
+          </span>
+        </div>
+      )}
+      {cascade.rules.map((rule, index) => (
+        <div key={index} className={`style-cascade-entry ${winner === index ? '' : 'overridden'}`}>
+          <Tooltip
+            content={chrome.i18n.getMessage('styleSpecificity', [rule.specificity.join(', ')])}
+          >
+            <span className="style-cascade-selector">{rule.selector}</span>
+          </Tooltip>
+          <span className="style-cascade-value">
+            {rule.value}
+            {importantSuffix(rule.important)}
+          </span>
+          <span className="style-cascade-source" title={rule.stylesheetUrl}>
+            {formatStylesheet(rule.stylesheetUrl)}
+            {rule.media && ` @media ${rule.media}`}
+          </span>
+        </div>
+      ))}
+    </div>
+  );
 };
 
 export const StyleEditor: React.FC<StyleEditorProps> = ({
   selectedElement,
   onStyleChange,
-  onUndoStyleChange,
   styleChanges,
+  onRevertElementStyles,
 }) => {
   const [searchTerm, setSearchTerm] = useState('');
   const [newProperty, setNewProperty] = useState('');
@@ -50,27 +124,22 @@ export const StyleEditor: React.FC<StyleEditorProps> = ({
   const [isAdding, setIsAdding] = useState(false);
   const [currentStyles, setCurrentStyles] = useState<Record<string, string>>({});
   const [focusValue, setFocusValue] = useState<string | null>(null);
+  const [showAll, setShowAll] = useState(false);
 
   const logger = new Logger('StyleEditor');
 
   React.useEffect(() => {
-    if (selectedElement?.computedStyle) {
+    const style = selectedElement?.style;
+    if (style) {
       const initialStyles = Object.fromEntries(
-        Object.entries(selectedElement.computedStyle)
-          .filter(
-            ([key]) =>
-              typeof key === 'string' &&
-              isNaN(Number(key)) &&
-              typeof selectedElement.computedStyle[key as keyof CSSStyleDeclaration] !== 'function'
-          )
-          .map(([key, value]) => [key, String(value)])
+        Object.entries(style).map(([property, cascade]) => [property, cascade.computed])
       );
       setCurrentStyles(initialStyles);
     }
   }, [selectedElement]);
 
-  const handleStyleChange = (property: keyof CSSStyleDeclaration, value: string) => {
-    if (!selectedElement?.computedStyle) return;
+  const handleStyleChange = (property: string, value: string) => {
+    if (!selectedElement?.style) return;
 
     setCurrentStyles((prev) => ({
       ...prev,
@@ -78,40 +147,35 @@ export const StyleEditor: React.FC<StyleEditorProps> = ({
     }));
   };
 
-  const handleStyleFocus = (property: keyof CSSStyleDeclaration) => {
-    setFocusValue(currentStyles[property as string] || '');
+  const handleStyleFocus = (property: string) => {
+    setFocusValue(currentStyles[property] || '');
   };
 
-  const handleStyleBlur = (property: keyof CSSStyleDeclaration) => {
+  const handleStyleBlur = (property: string) => {
     if (focusValue === null) return;
 
-    const newValue = currentStyles[property as string] || '';
+    const newValue = currentStyles[property] || '';
     if (newValue === focusValue) return;
 
-    onStyleChange?.(property as string, newValue, focusValue);
+    onStyleChange?.(property, newValue, focusValue);
     setFocusValue(null);
   };
 
-  const handleUndoLatest = () => {
-    if (styleChanges.length === 0) return;
-    onUndoStyleChange();
-  };
-
   const handleAddStyle = () => {
-    const trimmedProperty = newProperty.trim();
+    const trimmedProperty = toCSSPropertyName(newProperty.trim());
     const trimmedValue = newValue.trim();
 
     if (!trimmedProperty || !trimmedValue) return;
 
     if (isValidCSSProperty(trimmedProperty)) {
-      const property = trimmedProperty as keyof CSSStyleDeclaration;
-      const oldValue = currentStyles[property as string] || '';
+      const property = trimmedProperty;
+      const oldValue = currentStyles[property] || '';
       setCurrentStyles((prev) => ({
         ...prev,
         [property]: trimmedValue,
       }));
 
-      onStyleChange(property as string, trimmedValue, oldValue);
+      onStyleChange(property, trimmedValue, oldValue);
       setNewProperty('');
       setNewValue('');
       setIsAdding(false);
@@ -120,21 +184,18 @@ export const StyleEditor: React.FC<StyleEditorProps> = ({
     }
   };
 
+  // Properties set by a rule or the style attribute, or all computed properties
   const styleEntries = useMemo(() => {
-    if (!selectedElement?.computedStyle) return [];
+    const style = selectedElement?.style;
+    if (!style) return [];
 
-    return Object.entries(selectedElement.computedStyle)
-      .filter(
-        ([key]) =>
-          typeof key === 'string' &&
-          isNaN(Number(key)) &&
-          typeof selectedElement.computedStyle[key as keyof CSSStyleDeclaration] !== 'function'
-      )
+    return Object.entries(style)
+      .filter(([, cascade]) => showAll || cascade.inline || cascade.rules.length > 0)
       .filter(([key]) => key.toLowerCase().includes(searchTerm.toLowerCase()))
       .sort(([a], [b]) => a.localeCompare(b));
-  }, [selectedElement?.computedStyle, searchTerm]);
+  }, [selectedElement?.style, searchTerm, showAll]);
 
-  if (!selectedElement?.computedStyle) {
+  if (!selectedElement?.style) {
     return (
       <Card title="Style Editor" initialCollapsed={true}>
         <div className="style-editor-empty">{chrome.i18n.getMessage('styleEditorEmptyState')}</div>
@@ -155,33 +216,47 @@ export const StyleEditor: React.FC<StyleEditorProps> = ({
             className="style-editor-search-input"
           />
         </div>
+        <label className="style-editor-show-all">
+          <input type="checkbox" checked={showAll} onChange={(e) => setShowAll(e.target.checked)} />
+          {chrome.i18n.getMessage('styleShowAllProperties')}
+        </label>
 
         {/* Style History Section */}
         {styleChanges.length > 0 && (
           <div className="style-history">
             <div className="style-history-header">
               <h4 className="style-history-title">Style Changes ({styleChanges.length})</h4>
-              <Tooltip content={chrome.i18n.getMessage('styleHistoryUndoTooltip')}>
-                <button
-                  className="style-editor-button style-editor-button-secondary"
-                  onClick={handleUndoLatest}
-                  aria-label="Undo latest change"
-                >
-                  <RotateCcw size={16} />
-                </button>
-              </Tooltip>
             </div>
-            {styleChanges.map((entry) => (
-              <div key={entry.id} className="style-history-item">
-                <div className="style-history-meta">
-                  {new Date(entry.timestamp).toLocaleTimeString()}
-                </div>
-                <div className="style-history-content">
-                  <span className="style-history-property">{String(entry.property)}</span>
-                  <span className="style-history-old">{entry.oldValue}</span>
-                  <span className="style-history-arrow">→</span>
-                  <span className="style-history-new">{entry.newValue}</span>
+            {groupStyleChanges(styleChanges).map((group) => (
+              <div key={group.key} className="style-history-group">
+                <div className="style-history-group-header">
+                  <Tooltip content={group.target.locator?.selector ?? group.target.startTag}>
+                    <span className="selection-item-tag">
+                      {formatElementTag(group.target.startTag, { maxLength: 40 })}
+                    </span>
+                  </Tooltip>
+                  <Tooltip content={chrome.i18n.getMessage('tooltipRevertElementStyles')}>
+                    <button
+                      className="style-editor-button"
+                      onClick={() => onRevertElementStyles(group.target, group.frameId)}
+                    >
+                      <RotateCcw size={14} />
+                    </button>
+                  </Tooltip>
                 </div>
+                {group.changes.map((entry) => (
+                  <div key={entry.id} className="style-history-item">
+                    <div className="style-history-meta">
+                      {new Date(entry.timestamp).toLocaleTimeString()}
+                    </div>
+                    <div className="style-history-content">
+                      <span className="style-history-property">{String(entry.property)}</span>
+                      <span className="style-history-old">{entry.oldValue}</span>
+                      <span className="style-history-arrow">→</span>
+                      <span className="style-history-new">{entry.newValue}</span>
+                    </div>
+                  </div>
+                ))}
               </div>
             ))}
           </div>
@@ -190,20 +265,19 @@ export const StyleEditor: React.FC<StyleEditorProps> = ({
         {/* Styles Section */}
         <div className="style-editor-content">
           <div className="style-editor-grid">
-            {styleEntries.map(([property]) => (
+            {styleEntries.map(([property, cascade]) => (
               <React.Fragment key={property}>
                 <div className="style-editor-property" title={property}>
                   {property}
                 </div>
                 <input
                   value={currentStyles[property] || ''}
-                  onChange={(e) =>
-                    handleStyleChange(property as keyof CSSStyleDeclaration, e.target.value)
-                  }
-                  onFocus={() => handleStyleFocus(property as keyof CSSStyleDeclaration)}
-                  onBlur={() => handleStyleBlur(property as keyof CSSStyleDeclaration)}
+                  onChange={(e) => handleStyleChange(property, e.target.value)}
+                  onFocus={() => handleStyleFocus(property)}
+                  onBlur={() => handleStyleBlur(property)}
                   className="style-editor-input"
                 />
+                {(cascade.inline || cascade.rules.length > 0) && <CascadeView cascade={cascade} />}
               </React.Fragment>
             ))}
           </div>
@@ -2,7 +2,7 @@ import { AlertCircle, Send, Trash2 } from 'lucide-react';
 import { nanoid } from 'nanoid';
 import React, { useCallback, useState } from 'react';
 import { Logger } from '../../lib/logger';
-import { ElementInfo } from '../../types/types';
+import { ElementInfo, InjectedTagInfo } from '../../types/types';
 import { formatElementTag } from '../../utils/htmlTagFormatter';
 import { isValidHtmlString } from '../../utils/htmlValidator';
 import { Card } from './common/Card';
@@ -23,12 +23,6 @@ interface TagInjectorProps {
   };
 }
 
-interface InjectedTagInfo {
-  id: string;
-  tag: string;
-  timestamp: number;
-}
-
 export const TagInjector: React.FC<TagInjectorProps> = ({
   selectedElement,
   onInjectTag,
@@ -0,0 +1,107 @@
+import { Check, Pencil } from 'lucide-react';
+import React, { useState } from 'react';
+import { ElementInfo, TextChange } from '../../types/types';
+import { Card } from './common/Card';
+import { Tooltip } from './common/Tooltip';
+
+interface TextEditorProps {
+  /** The currently selected element */
+  selectedElement: ElementInfo | null;
+  /** Text changes made so far, the latest first */
+  textChanges: TextChange[];
+  /** Callback function to replace the content of the selected element with text */
+  onTextChange: (text: string) => void;
+  /** Callback function to make the selected element editable on the page */
+  onEditOnPage: () => void;
+}
+
+/**
+ * Text editor: change the text of the selected element from the side panel or on the page
+ * @param selectedElement - The currently selected element
+ * @param textChanges - Text changes made so far
+ * @param onTextChange - Callback function to replace the content of the selected element
+ * @param onEditOnPage - Callback function to make the selected element editable on the page
+ * @returns A React element representing the text editor
+ */
+export const TextEditor: React.FC<TextEditorProps> = ({
+  selectedElement,
+  textChanges,
+  onTextChange,
+  onEditOnPage,
+}) => {
+  const [text, setText] = useState('');
+
+  const currentText = selectedElement?.text;
+
+  React.useEffect(() => {
+    setText(currentText ?? '');
+  }, [currentText]);
+
+  if (currentText === undefined || !selectedElement) {
+    return (
+      <Card title="Text" initialCollapsed={true}>
+        <div className="style-editor-empty">{chrome.i18n.getMessage('textEditorEmptyState')}</div>
+      </Card>
+    );
+  }
+
+  const hasChildElements = (selectedElement.childCount ?? selectedElement.children.length) > 0;
+
+  return (
+    <Card title="Text" initialCollapsed={true}>
+      <div className="text-editor">
+        <textarea
+          value={text}
+          onChange={(e) => setText(e.target.value)}
+          className="injection-tag"
+          spellCheck={false}
+        />
+        {hasChildElements && (
+          <div className="text-editor-hint">
+            {chrome.i18n.getMessage('textEditorReplacesChildren')}
+          </div>
+        )}
+
+        <div className="text-editor-actions">
+          <Tooltip content={chrome.i18n.getMessage('tooltipEditTextOnPage')}>
+            <button
+              className="style-editor-button style-editor-button-primary"
+              onClick={onEditOnPage}
+            >
+              <Pencil size={16} />
+            </button>
+          </Tooltip>
+          <Tooltip content={chrome.i18n.getMessage('tooltipApplyText')}>
+            <button
+              className="style-editor-button style-editor-button-primary"
+              onClick={() => onTextChange(text)}
+              disabled={text === currentText}
+            >
+              <Check size={16} />
+            </button>
+          </Tooltip>
+        </div>
+
+        {textChanges.length > 0 && (
+          <div className="style-history">
+            <div className="style-history-header">
+              <h4 className="style-history-title">Text Changes ({textChanges.length})</h4>
+            </div>
+            {textChanges.map((entry) => (
+              <div key={entry.id} className="style-history-item">
+                <div className="style-history-meta">
+                  {new Date(entry.timestamp).toLocaleTimeString()}
+                </div>
+                <div className="style-history-content">
+                  <span className="style-history-old">{entry.oldTexts.join(', ')}</span>
+                  <span className="style-history-arrow">→</span>
+                  <span className="style-history-new">{entry.newText}</span>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+    </Card>
+  );
+};
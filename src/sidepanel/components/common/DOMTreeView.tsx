@@ -1,47 +1,284 @@
 // DOMTreeView.tsx
 import { ChevronDown, ChevronRight } from 'lucide-react';
-import React, { useState } from 'react';
-import { ElementInfo } from '../../../types/types';
+import React, { useEffect, useRef, useState } from 'react';
+import { ElementInfo, ElementPath, MovePosition } from '../../../types/types';
 import { formatElementTag } from '../../../utils/htmlTagFormatter';
 import { Tooltip } from './Tooltip';
 
+/** Nodes changed by the page in one update, by path */
+export interface TreeChanges {
+  frameId: number;
+  paths: ElementPath[];
+}
+
+// How long changed nodes are flashed, matching the tree-node-changed animation
+const CHANGE_FLASH_DURATION = 1000;
+
 interface Props {
   /** The element information to display in the tree view */
   elementInfo: ElementInfo;
-  /** Callback function to handle node selection */
-  onSelect?: (node: ElementInfo) => void;
+  /** Frame the element information belongs to, 0 for the top frame */
+  frameId?: number;
+  /** Document trees of frames expanded so far, keyed by frame ID */
+  frameTrees?: Record<number, ElementInfo>;
+  /** Callback function to handle node selection, with the frame the node belongs to */
+  onSelect?: (node: ElementInfo, frameId: number) => void;
+  /** Callback function to request the document tree of a frame */
+  onExpandFrame?: (frameId: number) => void;
+  /** Path of a node to expand the tree to and focus, such as a search hit */
+  revealPath?: ElementPath;
+  /** Callback function to load children left out of the tree, starting at offset */
+  onLoadChildren?: (node: ElementInfo, frameId: number, offset: number) => void;
+  /** Nodes the page changed most recently, to flash */
+  changes?: TreeChanges | null;
+  /** Callback function to move a node dropped on another node of the same frame */
+  onMoveNode?: (
+    node: ElementInfo,
+    target: ElementInfo,
+    position: MovePosition,
+    frameId: number
+  ) => void;
 }
 
+/** A rendered node with its neighbours, used for keyboard navigation */
+interface TreeEntry {
+  node: ElementInfo;
+  frameId: number;
+  parentKey: string | null;
+  childKeys: string[];
+}
+
+const getNodeKey = (node: ElementInfo, parentKey = ''): string =>
+  parentKey ? `${parentKey}-${node.path.join('.')}` : node.path.join('.');
+
+// Number of children on the page, including those not loaded yet
+const getChildCount = (node: ElementInfo): number => node.childCount ?? node.children.length;
+
+const isPathPrefix = (prefix: ElementPath, path: ElementPath): boolean =>
+  prefix.length <= path.length && prefix.every((segment, index) => segment === path[index]);
+
+// Drop before or after a node near its top or bottom edge, into it in the middle
+const getDropPosition = (event: React.DragEvent<HTMLElement>, node: ElementInfo): MovePosition => {
+  // Nothing can be placed next to the document element
+  if (node.path.length === 0) return 'inside';
+
+  const rect = event.currentTarget.getBoundingClientRect();
+  const offset = (event.clientY - rect.top) / rect.height;
+  if (offset < 0.25) return 'before';
+  if (offset > 0.75) return 'after';
+  return 'inside';
+};
+
 /**
- * Component to render a tree view of DOM elements
+ * Component to render a tree view of DOM elements. When focused, the arrow keys move between
+ * parents, children and siblings, Enter selects the node and Esc leaves the tree. Children left
+ * out of the tree are loaded when their parent is expanded, one page at a time, and nodes changed
+ * by the page flash briefly. Nodes can be dragged onto other nodes of the same frame to move them.
  * @param elementInfo - The element information to display in the tree view
+ * @param frameId - Frame the element information belongs to
+ * @param frameTrees - Document trees of expanded frames
  * @param onSelect - Callback function to handle node selection
+ * @param onExpandFrame - Callback function to request the document tree of a frame
+ * @param revealPath - Path of a node to expand the tree to and focus
+ * @param onLoadChildren - Callback function to load children left out of the tree
+ * @param changes - Nodes the page changed most recently
+ * @param onMoveNode - Callback function to move a node dropped on another node
  * @returns A React element representing the DOM tree view
  */
-export const DOMTreeView = ({ elementInfo, onSelect }: Props) => {
+export const DOMTreeView = ({
+  elementInfo,
+  frameId = 0,
+  frameTrees = {},
+  onSelect,
+  onExpandFrame,
+  revealPath,
+  onLoadChildren,
+  changes,
+  onMoveNode,
+}: Props) => {
   const [expandedNodes, setExpandedNodes] = useState<string[]>([]);
+  const [focusedKey, setFocusedKey] = useState<string | null>(null);
+  // Changed nodes being flashed, as frame ID and path
+  const [flashedNodes, setFlashedNodes] = useState<string[]>([]);
+  const containerRef = useRef<HTMLDivElement>(null);
+  // Loaded children arrive as a new tree, so each node object is only asked for children once
+  const requestedNodes = useRef(new WeakSet<ElementInfo>());
+  const nodeIndex = new Map<string, TreeEntry>();
+  // Node being dragged to move it, and the node it would be dropped on
+  const dragged = useRef<{ node: ElementInfo; frameId: number } | null>(null);
+  const [dropTarget, setDropTarget] = useState<{ key: string; position: MovePosition } | null>(
+    null
+  );
+
+  const requestChildren = (node: ElementInfo, nodeFrameId: number, offset: number) => {
+    if (requestedNodes.current.has(node)) return;
+    requestedNodes.current.add(node);
+    onLoadChildren?.(node, nodeFrameId, offset);
+  };
+
+  // Load the children of expanded nodes that were left out of the tree
+  useEffect(() => {
+    expandedNodes.forEach((key) => {
+      const entry = nodeIndex.get(key);
+      if (entry && entry.node.children.length === 0 && getChildCount(entry.node) > 0) {
+        requestChildren(entry.node, entry.frameId, 0);
+      }
+    });
+  });
+
+  // Expand the ancestors of the node to reveal and focus it, loading them as needed
+  useEffect(() => {
+    if (!revealPath || !isPathPrefix(elementInfo.path, revealPath)) return;
+
+    const ancestorKeys: string[] = [];
+    let node: ElementInfo | undefined = elementInfo;
+    let key = getNodeKey(elementInfo);
+    while (node && node.path.length < revealPath.length) {
+      ancestorKeys.push(key);
+      const parent: ElementInfo = node;
+      node = parent.children.find((child) => isPathPrefix(child.path, revealPath));
+      if (node) {
+        key = getNodeKey(node, key);
+      } else if (parent.children.length > 0 && parent.children.length < getChildCount(parent)) {
+        // The node is on a page of children that has not been loaded yet
+        requestChildren(parent, frameId, parent.children.length);
+      }
+    }
+
+    setExpandedNodes((prev) => [...prev, ...ancestorKeys.filter((k) => !prev.includes(k))]);
+    if (node) setFocusedKey(key);
+  }, [revealPath, elementInfo]);
+
+  useEffect(() => {
+    if (!changes) return;
+    setFlashedNodes(changes.paths.map((path) => `${changes.frameId}:${path.join('.')}`));
+    const timer = setTimeout(() => setFlashedNodes([]), CHANGE_FLASH_DURATION);
+    return () => clearTimeout(timer);
+  }, [changes]);
+
+  // Keep the focused node visible
+  useEffect(() => {
+    containerRef.current
+      ?.querySelector('.tree-node-content.focused')
+      ?.scrollIntoView({ block: 'nearest' });
+  }, [focusedKey, expandedNodes]);
+
+  const getChildNodes = (node: ElementInfo): ElementInfo[] => {
+    if (node.contentFrameId === undefined) return node.children;
+    const frameTree = frameTrees[node.contentFrameId];
+    return frameTree ? [frameTree] : [];
+  };
 
-  const toggleNode = (path: string) => {
+  const toggleNode = (path: string, node: ElementInfo) => {
+    const contentFrameId = node.contentFrameId;
+    if (contentFrameId !== undefined && !expandedNodes.includes(path)) {
+      // Load the frame document when its iframe is expanded
+      onExpandFrame?.(contentFrameId);
+    }
     setExpandedNodes((prev) =>
       prev.includes(path) ? prev.filter((p) => p !== path) : [...prev, path]
     );
   };
 
-  const renderNode = (node: ElementInfo, parentPath = '') => {
-    const currentPath = parentPath ? `${parentPath}-${node.path.join('.')}` : node.path.join('.');
+  const renderChildren = (node: ElementInfo, currentPath: string, nodeFrameId: number) => {
+    if (node.contentFrameId === undefined) {
+      if (node.children.length === 0) {
+        return <div className="tree-frame-loading">{chrome.i18n.getMessage('treeLoading')}</div>;
+      }
+
+      const remaining = getChildCount(node) - node.children.length;
+      return (
+        <>
+          {node.children.map((child) => renderNode(child, currentPath, nodeFrameId))}
+          {remaining > 0 && (
+            <button
+              className="tree-load-more"
+              onClick={() => requestChildren(node, nodeFrameId, node.children.length)}
+            >
+              {chrome.i18n.getMessage('treeLoadMore', [String(remaining)])}
+            </button>
+          )}
+        </>
+      );
+    }
+
+    const frameTree = frameTrees[node.contentFrameId];
+    return frameTree ? (
+      renderNode(frameTree, currentPath, node.contentFrameId)
+    ) : (
+      <div className="tree-frame-loading">{chrome.i18n.getMessage('treeFrameLoading')}</div>
+    );
+  };
+
+  // A node can be dropped on nodes of its frame other than itself and its descendants
+  const canDrop = (target: ElementInfo, targetFrameId: number): boolean => {
+    const source = dragged.current;
+    return (
+      !!source &&
+      source.frameId === targetFrameId &&
+      !target.isShadowRoot &&
+      !isPathPrefix(source.node.path, target.path)
+    );
+  };
+
+  const endDrag = () => {
+    dragged.current = null;
+    setDropTarget(null);
+  };
+
+  const renderNode = (node: ElementInfo, parentPath = '', nodeFrameId = frameId) => {
+    const currentPath = getNodeKey(node, parentPath);
     const isExpanded = expandedNodes.includes(currentPath);
-    const hasChildren = node.children.length > 0;
+    const hasChildren = getChildCount(node) > 0 || node.contentFrameId !== undefined;
+
+    nodeIndex.set(currentPath, {
+      node,
+      frameId: nodeFrameId,
+      parentKey: parentPath || null,
+      childKeys: getChildNodes(node).map((child) => getNodeKey(child, currentPath)),
+    });
+
+    const dropClass = dropTarget?.key === currentPath ? `drop-${dropTarget.position}` : '';
 
     return (
       <div key={currentPath} className="tree-node">
-        <div className="tree-node-content">
+        <div
+          className={`tree-node-content ${focusedKey === currentPath ? 'focused' : ''} ${
+            flashedNodes.includes(`${nodeFrameId}:${node.path.join('.')}`) ? 'changed' : ''
+          } ${dropClass}`}
+          draggable={!!onMoveNode && !node.isShadowRoot && node.path.length > 0}
+          onDragStart={(event) => {
+            dragged.current = { node, frameId: nodeFrameId };
+            event.dataTransfer.effectAllowed = 'move';
+          }}
+          onDragOver={(event) => {
+            if (!canDrop(node, nodeFrameId)) return;
+            event.preventDefault();
+            const position = getDropPosition(event, node);
+            if (dropTarget?.key !== currentPath || dropTarget.position !== position) {
+              setDropTarget({ key: currentPath, position });
+            }
+          }}
+          onDragLeave={() => {
+            if (dropTarget?.key === currentPath) setDropTarget(null);
+          }}
+          onDrop={(event) => {
+            event.preventDefault();
+            const source = dragged.current;
+            if (source && canDrop(node, nodeFrameId)) {
+              onMoveNode?.(source.node, node, getDropPosition(event, node), nodeFrameId);
+            }
+            endDrag();
+          }}
+          onDragEnd={endDrag}
+        >
           {hasChildren ? (
             <Tooltip
               content={
                 isExpanded ? chrome.i18n.getMessage('collapse') : chrome.i18n.getMessage('expand')
               }
             >
-              <div className="tree-chevron" onClick={() => toggleNode(currentPath)}>
+              <div className="tree-chevron" onClick={() => toggleNode(currentPath, node)}>
                 {isExpanded ? <ChevronDown size={16} /> : <ChevronRight size={16} />}
               </div>
             </Tooltip>
@@ -49,21 +286,75 @@ export const DOMTreeView = ({ elementInfo, onSelect }: Props) => {
             <div className="tree-chevron-placeholder" />
           )}
           <div className="tree-tag-container">
-            <Tooltip content={node.startTag}>
-              <span className="tree-tag" onClick={() => onSelect?.(node)}>
-                {formatElementTag(node.startTag)}
-              </span>
-            </Tooltip>
+            {node.isShadowRoot ? (
+              <span className="tree-shadow-root">{node.startTag}</span>
+            ) : (
+              <Tooltip content={node.startTag}>
+                <span className="tree-tag" onClick={() => onSelect?.(node, nodeFrameId)}>
+                  {formatElementTag(node.startTag)}
+                </span>
+              </Tooltip>
+            )}
           </div>
         </div>
         {isExpanded && hasChildren && (
-          <div className="tree-children">
-            {node.children.map((child) => renderNode(child, currentPath))}
-          </div>
+          <div className="tree-children">{renderChildren(node, currentPath, nodeFrameId)}</div>
         )}
       </div>
     );
   };
 
-  return <div className="dom-tree-view">{renderNode(elementInfo)}</div>;
+  const handleKeyDown = (event: React.KeyboardEvent<HTMLDivElement>) => {
+    const entry = focusedKey ? nodeIndex.get(focusedKey) : undefined;
+    const siblingKeys = entry?.parentKey ? (nodeIndex.get(entry.parentKey)?.childKeys ?? []) : [];
+    const siblingIndex = focusedKey ? siblingKeys.indexOf(focusedKey) : -1;
+
+    switch (event.key) {
+      case 'ArrowUp':
+        if (!entry) {
+          setFocusedKey(getNodeKey(elementInfo));
+        } else if (entry.parentKey) {
+          setFocusedKey(entry.parentKey);
+        }
+        break;
+      case 'ArrowDown': {
+        if (!entry || !focusedKey) {
+          setFocusedKey(getNodeKey(elementInfo));
+          break;
+        }
+        if (!expandedNodes.includes(focusedKey)) {
+          if (getChildCount(entry.node) === 0 && entry.node.contentFrameId === undefined) break;
+          toggleNode(focusedKey, entry.node);
+        }
+        if (entry.childKeys.length > 0) {
+          setFocusedKey(entry.childKeys[0]);
+        }
+        break;
+      }
+      case 'ArrowLeft':
+        if (siblingIndex > 0) setFocusedKey(siblingKeys[siblingIndex - 1]);
+        break;
+      case 'ArrowRight':
+        if (siblingIndex >= 0 && siblingIndex < siblingKeys.length - 1) {
+          setFocusedKey(siblingKeys[siblingIndex + 1]);
+        }
+        break;
+      case 'Enter':
+        if (entry && !entry.node.isShadowRoot) onSelect?.(entry.node, entry.frameId);
+        break;
+      case 'Escape':
+        setFocusedKey(null);
+        event.currentTarget.blur();
+        break;
+      default:
+        return;
+    }
+    event.preventDefault();
+  };
+
+  return (
+    <div className="dom-tree-view" tabIndex={0} onKeyDown={handleKeyDown} ref={containerRef}>
+      {renderNode(elementInfo)}
+    </div>
+  );
 };
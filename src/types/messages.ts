@@ -1,4 +1,18 @@
-import { Context, ElementInfo } from './types';
+import { CaptureMode } from '../lib/settings';
+import {
+  Context,
+  DOMBreakpoint,
+  DOMMutationEntry,
+  DOMSearchResult,
+  ElementInfo,
+  ElementLocator,
+  ElementPath,
+  ElementQueryResult,
+  ElementTreeChange,
+  PatchResult,
+  StructureChange,
+  StructureOperation,
+} from './types';
 
 // Tab information type
 export interface TabInfo {
@@ -10,25 +24,130 @@ export interface TabInfo {
 
 // Message payloads type
 export interface MessagePayloads {
-  CAPTURE_TAB: void;
+  CAPTURE_TAB: {
+    mode: CaptureMode;
+    padding: number;
+    hideHighlights: boolean;
+    /** Frame containing the selected element, 0 for the top frame */
+    frameId: number;
+  };
   CAPTURE_TAB_RESULT: {
     success: boolean;
     error?: string;
     imageDataUrl?: string;
     url: string | null;
+    /** Width of the captured image in pixels */
+    width?: number;
+    /** Height of the captured image in pixels */
+    height?: number;
+  };
+  CLEAR_SELECTION: void;
+  /**
+   * Whether the command sent with RUN_COMMAND under the same ID was made, with its targets as
+   * they are after it and, for a style change, the inline value each had before, in the same order
+   */
+  COMMAND_RESULT: { id: string; success: boolean; targets?: ElementInfo[]; oldValues?: string[] };
+  /** Changes caught by one DOM breakpoint in one batch of mutations */
+  DOM_MUTATIONS_RECORDED: { entries: DOMMutationEntry[] };
+  EDIT_ELEMENT_STRUCTURE: { operation: StructureOperation };
+  /** Make the selected element editable on the page, the edit is reported when it ends */
+  EDIT_ELEMENT_TEXT: void;
+  /** Children of a tree node loaded on demand, starting at offset */
+  ELEMENT_CHILDREN: {
+    path: ElementPath;
+    offset: number;
+    children: ElementInfo[];
+    childCount: number;
   };
-  ELEMENT_SELECTED: { elementInfo: ElementInfo };
+  /** The primary selection was removed from the page and could not be found again */
+  ELEMENT_DETACHED: { elementInfo: ElementInfo };
+  /** Markup of the primary selection, without the attributes the extension adds */
+  ELEMENT_HTML: { html: string };
+  ELEMENT_SELECTED: {
+    elementInfo: ElementInfo;
+    /** All selected elements without their children, the primary selection last */
+    selection: ElementInfo[];
+  };
+  /** A structural edit was made, it can be undone with REVERT_STRUCTURE_EDIT */
+  ELEMENT_STRUCTURE_EDITED: { change: StructureChange };
+  /** Styles of an element were reverted after REVERT_ELEMENT_STYLES, the element as requested */
+  ELEMENT_STYLES_REVERTED: { path: ElementPath; locator?: ElementLocator };
+  /** Text of the selected element was edited on the page, the element is described after the edit */
+  ELEMENT_TEXT_EDITED: { oldText: string; newText: string; target: ElementInfo };
+  /** Changes made by the page to the selected element and its subtree */
+  ELEMENT_TREE_CHANGED: { changes: ElementTreeChange[] };
   ELEMENT_UNSELECTED: { elementInfo: ElementInfo };
   EXECUTE_SCRIPT: { script: string } | { url: string };
   EXECUTE_SCRIPT_RESULT: { success: boolean; result?: any; error?: string };
-  INJECT_TAG: { tag: string; tagId: string };
+  FRAME_TREE: { frameId: number; elementInfo: ElementInfo };
+  GET_ELEMENT_CHILDREN: { path: ElementPath; offset: number };
+  GET_ELEMENT_HTML: void;
+  GET_FRAME_TREE: void;
+  GET_PATCH_RESULTS: void;
+  /** Elements are added to the given targets, or to the selected elements */
+  INJECT_TAG: { tag: string; tagId: string; targets?: ElementInfo[] };
+  /** Patches applied to the page of the frame that sent the message */
+  PATCH_RESULTS: { results: PatchResult[] };
+  /** An empty query clears the highlighted matches */
+  QUERY_ELEMENTS: { query: string };
+  QUERY_RESULT: ElementQueryResult;
+  /** Load the saved patches again and apply those matching the page */
+  REAPPLY_PATCHES: void;
+  /** Redo a structural edit that was undone with REVERT_STRUCTURE_EDIT */
+  REAPPLY_STRUCTURE_EDIT: { id: string };
+  REMOVE_DOM_BREAKPOINT: { id: string };
   REMOVE_TAG: { tagId: string };
-  SELECT_ELEMENT: { path: number[] };
+  REVERT_ELEMENT_CHANGES: { path: ElementPath; locator?: ElementLocator };
+  /** Restore the inline styles an element had before the style changes made to it */
+  REVERT_ELEMENT_STYLES: { path: ElementPath; locator?: ElementLocator };
+  /**
+   * Restore the styles and attributes the targets had and remove the injected tags, once the
+   * changes are saved in a patch. Nothing is left for the cleanup to restore over the patch.
+   */
+  REVERT_SAVED_CHANGES: { targets: ElementInfo[]; tagIds: string[] };
+  /** Undo a structural edit, putting the elements back where they were */
+  REVERT_STRUCTURE_EDIT: { id: string };
+  /** Run a command of the undo history, the outcome is reported with COMMAND_RESULT */
+  RUN_COMMAND: { id: string; command: CommandMessage };
+  SEARCH_DOM: { query: string };
+  SEARCH_RESULT: DOMSearchResult;
+  /**
+   * Select by locator when one is known, by index path otherwise. Additive selection keeps the
+   * other selected elements and makes this one the primary selection.
+   */
+  SELECT_ELEMENT: { path: ElementPath; locator?: ElementLocator; additive?: boolean };
+  /** Add a DOM breakpoint, or replace the one with the same ID */
+  SET_DOM_BREAKPOINT: { breakpoint: DOMBreakpoint };
+  /** Sent by a content script when selection mode is left from the page */
+  SELECTION_MODE_CHANGED: { enabled: boolean };
   SHOW_TOAST: { message: string; type?: 'success' | 'error'; duration?: number };
-  TOGGLE_SELECTION_MODE: { enabled: boolean };
-  UPDATE_ELEMENT_STYLE: { property: string; value: string };
+  /** Disabling clears the selection unless keepSelection is set */
+  TOGGLE_SELECTION_MODE: { enabled: boolean; keepSelection?: boolean };
+  UNSELECT_ELEMENT: { path: ElementPath; locator?: ElementLocator };
+  /**
+   * Updates of the selected elements, or of the given targets, which are selected once they are
+   * updated. Undo and redo give the elements a change was made to as targets.
+   */
+  UPDATE_ELEMENT_ATTRIBUTE: { name: string; value: string | null; targets?: ElementInfo[] };
+  /** A list of values gives each target its own value, an empty value removes the property */
+  UPDATE_ELEMENT_STYLE: { property: string; value: string | string[]; targets?: ElementInfo[] };
+  /** Replace the content of the selected elements, or of the given targets, with text */
+  /** A list of texts gives each target its own text, in the order of the targets */
+  UPDATE_ELEMENT_TEXT: { text: string | string[]; targets?: ElementInfo[] };
 }
 
+/** Message that applies or inverts a modification of the undo history, sent with RUN_COMMAND */
+export type CommandMessage = {
+  [K in keyof MessagePayloads]: { type: K; payload: MessagePayloads[K] };
+}[
+  | 'INJECT_TAG'
+  | 'REAPPLY_STRUCTURE_EDIT'
+  | 'REMOVE_TAG'
+  | 'REVERT_STRUCTURE_EDIT'
+  | 'UPDATE_ELEMENT_ATTRIBUTE'
+  | 'UPDATE_ELEMENT_STYLE'
+  | 'UPDATE_ELEMENT_TEXT'];
+
 // Base message structure
 export interface BaseMessage {
   type: keyof MessagePayloads;
@@ -1,23 +1,349 @@
 import { PaperSettings } from '../lib/settings';
 
+/**
+ * A step in an element path: the index of a child element, or 'shadow' to enter the open shadow
+ * root of the current element
+ */
+export type ElementPathSegment = number | 'shadow';
+
+/** Path from the document element to an element, possibly crossing open shadow roots */
+export type ElementPath = ElementPathSegment[];
+
 /** Information about a DOM element in the tree structure */
 export interface ElementInfo {
   /** HTML start tag of the element */
   startTag: string;
-  /** HTML element's computed style */
-  computedStyle: CSSStyleDeclaration;
-  /** Array of indices representing the path from root to this element */
-  path: number[];
+  /** Path from root to this element */
+  path: ElementPath;
   /** Text content of the element */
   textContent?: string;
-  /** Child nodes in the element tree */
+  /** Whether this node is the open shadow root of its parent rather than an element */
+  isShadowRoot?: boolean;
+  /** Frame ID of the document loaded in this iframe, set once its content script is known */
+  contentFrameId?: number;
+  /** Locator to find the element again after the page changes, set for elements of the page */
+  locator?: ElementLocator;
+  /** Rendered box model of the element, set for the selected element */
+  boxModel?: BoxModel;
+  /** Styles of the element and the rules they come from, set for the selected element */
+  style?: StyleSnapshot;
+  /** Attributes of the element in source order, set for the selected element */
+  attributes?: ElementAttribute[];
+  /** Text of the element and all its descendants, set for the selected elements */
+  text?: string;
+  /** Page elements before and after this one among its siblings, set for the selected element */
+  previousSibling?: ElementInfo;
+  nextSibling?: ElementInfo;
+  /** Number of child nodes on the page, more than the loaded children when the tree was cut */
+  childCount?: number;
+  /** Child nodes in the element tree, possibly only the first of them */
   children: ElementInfo[];
 }
 
+/** Attribute of an element */
+export interface ElementAttribute {
+  name: string;
+  value: string;
+}
+
+/** Style change made from the side panel */
+export interface StyleChange {
+  id: string;
+  timestamp: number;
+  property: string;
+  /** Computed value of the primary selection before the change, as shown to the user */
+  oldValue: string;
+  newValue: string;
+  /** Inline value each target had before the change, empty where it had none */
+  oldValues?: string[];
+}
+
+/** Tag injected into the selected elements, removed by its ID */
+export interface InjectedTagInfo {
+  id: string;
+  tag: string;
+  timestamp: number;
+}
+
+/** Attribute change made from the side panel; a null value means the attribute is absent */
+export interface AttributeChange {
+  id: string;
+  timestamp: number;
+  name: string;
+  oldValue: string | null;
+  newValue: string | null;
+}
+
+/** Text change made from the side panel or by editing the element on the page */
+export interface TextChange {
+  id: string;
+  timestamp: number;
+  /** Text each target had before, in the order of the targets of the history entry */
+  oldTexts: string[];
+  newText: string;
+}
+
+/** Where an element is moved, relative to the target element */
+export type MovePosition = 'before' | 'after' | 'inside';
+
+/**
+ * Structural edit on the page. Hiding, deleting and duplicating apply to the selected elements,
+ * moving applies to the element found by a locator, which need not be selected, and replacing
+ * applies to the primary selection, with HTML that has a single root element.
+ */
+export type StructureOperation =
+  | { type: 'hide' | 'delete' | 'duplicate' }
+  | { type: 'move'; locator: ElementLocator; target: ElementLocator; position: MovePosition }
+  | { type: 'replace'; html: string };
+
+/** Structural edit made on the page, undone by its ID */
+export interface StructureChange {
+  id: string;
+  timestamp: number;
+  type: StructureOperation['type'];
+  /** Start tags of the edited elements */
+  elements: string[];
+  /** Where the element was moved, set for moves */
+  position?: MovePosition;
+  /** Start tag of the element moved next to or into, or of the replacement */
+  target?: string;
+}
+
+/** Modification of the page that can be undone and redone */
+export type PageCommand =
+  | { type: 'style'; change: StyleChange }
+  | { type: 'attribute'; change: AttributeChange }
+  | { type: 'text'; change: TextChange }
+  | { type: 'structure'; change: StructureChange }
+  | { type: 'injectTag'; tag: InjectedTagInfo }
+  | { type: 'removeTag'; tag: InjectedTagInfo };
+
+/** Entry of the undo history: a modification and where it was made */
+export interface HistoryEntry {
+  id: string;
+  command: PageCommand;
+  /** Frame the modification was made in */
+  frameId: number;
+  /**
+   * Elements the modification was made to, found again by their locators when it is undone or
+   * redone. Structural edits are found by their ID instead.
+   */
+  targets: ElementInfo[];
+}
+
+/** Modification saved in a patch, made to the element found by the locator */
+export type PatchModification =
+  | { type: 'style'; locator: ElementLocator; property: string; value: string }
+  | { type: 'attribute'; locator: ElementLocator; name: string; value: string | null }
+  | { type: 'tag'; locator: ElementLocator; tag: string };
+
+/** Named set of modifications re-applied to the pages whose URL matches the pattern */
+export interface Patch {
+  id: string;
+  name: string;
+  /** URL the patch applies to, where "*" matches any characters */
+  urlPattern: string;
+  enabled: boolean;
+  createdAt: number;
+  /** Modifications in the order they are applied */
+  modifications: PatchModification[];
+}
+
+/** Result of applying a patch to the page of a frame */
+export interface PatchResult {
+  patchId: string;
+  name: string;
+  /** Number of modifications applied */
+  applied: number;
+  /** Locators of the modifications whose elements were not found or that failed, for display */
+  unresolved: string[];
+}
+
+/**
+ * Change to a node of an element tree observed on the page. Only the fields that changed are set;
+ * children are replaced from the first child on.
+ */
+export interface ElementTreeChange {
+  /** Path of the changed node */
+  path: ElementPath;
+  startTag?: string;
+  /** Direct text of the element, empty if it no longer has any */
+  textContent?: string;
+  /** Locator of the element, described again when its attributes or text changed */
+  locator?: ElementLocator;
+  childCount?: number;
+  children?: ElementInfo[];
+}
+
+/** Sizes of the four sides of a box, in pixels */
+export interface BoxEdges {
+  top: number;
+  right: number;
+  bottom: number;
+  left: number;
+}
+
+/** Box model of an element as rendered by the browser */
+export interface BoxModel {
+  /** Horizontal position of the border box in the document */
+  x: number;
+  /** Vertical position of the border box in the document */
+  y: number;
+  /** Width of the border box */
+  width: number;
+  /** Height of the border box */
+  height: number;
+  margin: BoxEdges;
+  border: BoxEdges;
+  padding: BoxEdges;
+}
+
+/** Specificity of a selector as [IDs, classes and attributes, types] */
+export type Specificity = [number, number, number];
+
+/** Value of a property in a CSS declaration block */
+export interface CSSDeclaration {
+  value: string;
+  /** Whether the declaration is marked !important */
+  important: boolean;
+}
+
+/** Declaration of a property in a CSS rule that matched an element */
+export interface MatchedCSSDeclaration extends CSSDeclaration {
+  /** Selector text of the rule */
+  selector: string;
+  /** Specificity of the most specific selector of the rule that matched */
+  specificity: Specificity;
+  /** URL of the stylesheet, absent for style elements and constructed stylesheets */
+  stylesheetUrl?: string;
+  /** Media conditions the rule is nested in, absent if it applies to all media */
+  media?: string;
+}
+
+/** Where the value of a CSS property of an element comes from */
+export interface PropertyCascade {
+  /** Computed value */
+  computed: string;
+  /** Value in the style attribute */
+  inline?: CSSDeclaration;
+  /** Declarations of the rules that matched, from the highest precedence to the lowest */
+  rules: MatchedCSSDeclaration[];
+}
+
+/** Styles of an element recorded for the side panel, keyed by CSS property name */
+export type StyleSnapshot = Record<string, PropertyCascade>;
+
+/** Attributes that tend to stay the same across page updates */
+export type StableAttribute = 'id' | 'data-testid' | 'aria-label';
+
+/** Several ways of finding an element, recorded when the element is selected */
+export interface ElementLocator {
+  /** Index path from the document element */
+  path: ElementPath;
+  /** Lower case tag name */
+  tagName: string;
+  /** CSS selector, with the selectors of nested shadow trees joined by " >>> " */
+  selector: string;
+  /** XPath from the document, absent for elements inside shadow trees */
+  xpath?: string;
+  /** Values of the stable attributes the element has */
+  attributes: Partial<Record<StableAttribute, string>>;
+  /** Start of the normalized text content */
+  text?: string;
+}
+
+/** Strategy that found an element for a locator */
+export type LocatorStrategy = 'path' | 'attributes' | 'selector' | 'xpath' | 'text';
+
+/** Result of resolving a locator */
+export interface LocatorResolution {
+  element: HTMLElement | null;
+  /** Strategy that found the element, null if none did */
+  strategy: LocatorStrategy | null;
+  /** Whether the strategy matched several elements, in which case the first one is used */
+  ambiguous: boolean;
+}
+
+/** Elements found for a CSS selector or XPath typed in the side panel */
+export interface ElementQueryResult {
+  /** The query that was evaluated */
+  query: string;
+  /** Number of matching elements */
+  total: number;
+  /** Matching elements without their children, up to a limit */
+  matches: ElementInfo[];
+  /** Error message if the query is not a valid selector or XPath */
+  error?: string;
+}
+
+/** Where a search hit was found in an element */
+export type SearchField = 'text' | 'attribute' | 'tag';
+
+/** Element found by a full-text search of the document */
+export interface SearchMatch {
+  /** The element without its children */
+  elementInfo: ElementInfo;
+  field: SearchField;
+  /** Name of the attribute whose value matched, for attribute matches */
+  attribute?: string;
+  /** The matching text with some context around it */
+  snippet: string;
+}
+
+/** Result of a full-text search of the document */
+export interface DOMSearchResult {
+  /** The text that was searched for */
+  query: string;
+  /** Number of matches in the document */
+  total: number;
+  /** Matches in document order, up to a limit */
+  matches: SearchMatch[];
+}
+
+/** Kind of change a DOM breakpoint catches */
+export type DOMBreakpointType = 'subtree' | 'attributes' | 'removal';
+
+/** Watch on an element for changes made by the page */
+export interface DOMBreakpoint {
+  id: string;
+  /** The watched element without its children */
+  elementInfo: ElementInfo;
+  types: DOMBreakpointType[];
+  /** Whether to select the changed node when the breakpoint fires */
+  selectChangedNode: boolean;
+}
+
+/** Change caught by a DOM breakpoint */
+export interface DOMMutationEntry {
+  id: string;
+  breakpointId: string;
+  timestamp: number;
+  type: DOMBreakpointType;
+  /** The changed element without its children, as it was when watched if it was removed */
+  target: ElementInfo;
+  /** Name of the changed attribute, for attribute changes */
+  attributeName?: string;
+  /** Previous attribute value or text, null if the attribute was added */
+  oldValue?: string | null;
+  /** New attribute value or text, null if the attribute was removed */
+  newValue?: string | null;
+  /** Start tags or text of the nodes added to the subtree */
+  addedNodes?: string[];
+  /** Start tags or text of the nodes removed from the subtree */
+  removedNodes?: string[];
+  /**
+   * URLs of the external scripts on the page at the time. A MutationObserver runs after the
+   * script that made the change, so the script itself cannot be told apart.
+   */
+  scripts: string[];
+  /** Number of inline scripts on the page at the time */
+  inlineScripts: number;
+}
+
 /** Payload for element selection events */
 export interface SelectElementPayload {
-  /** Array of indices representing the path from root to the selected element */
-  path: number[];
+  /** Path from root to the selected element */
+  path: ElementPath;
 }
 
 /** Payload for selection mode toggle events */
@@ -26,12 +352,74 @@ export interface SelectionModePayload {
   enabled: boolean;
 }
 
-/** Context of the message */
-export type Context = 'background' | 'sidepanel' | `content-${number}` | 'undefined';
+/**
+ * Context of the message. `content-${tabId}-${frameId}` addresses the content script of one
+ * frame, `content-${tabId}` addresses the content scripts of all frames in the tab.
+ */
+export type Context =
+  'background' | 'sidepanel' | `content-${number}` | `content-${number}-${number}` | 'undefined';
+
+/** Tab and frame a content script runs in */
+export interface FrameInfo {
+  tabId: number;
+  frameId: number;
+}
 
 /** Connection status of the connection */
 export type ConnectionStatus = 'disconnected' | 'connecting' | 'connected';
 
+/** Rectangle in CSS pixels, relative to the viewport */
+export interface CaptureRect {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+/** Geometry of the element to capture, reported by the content script */
+export interface CaptureTarget {
+  /** Bounding rectangle of the element in the viewport */
+  rect: CaptureRect;
+  /** Device pixel ratio of the page, used to map CSS pixels to image pixels */
+  devicePixelRatio: number;
+  /** Scroll position of the page when the element was measured */
+  scroll: ScrollPosition;
+  /** Frame ID of the parent frame, if the element is inside an iframe */
+  parentFrameId?: number;
+}
+
+/** Placement of an iframe within the viewport of its parent frame */
+export interface FramePlacement {
+  /** Content box of the iframe in the viewport of the parent frame */
+  rect: CaptureRect;
+  /** Frame ID of the parent frame's own parent, if it is an iframe too */
+  parentFrameId?: number;
+}
+
+/** Scroll geometry of the page, reported by the content script */
+export interface PageMetrics {
+  /** Scrollable width of the document in CSS pixels */
+  scrollWidth: number;
+  /** Scrollable height of the document in CSS pixels */
+  scrollHeight: number;
+  /** Width of the viewport in CSS pixels, excluding scrollbars */
+  viewportWidth: number;
+  /** Height of the viewport in CSS pixels, excluding scrollbars */
+  viewportHeight: number;
+  /** Horizontal scroll position of the document */
+  scrollX: number;
+  /** Vertical scroll position of the document */
+  scrollY: number;
+  /** Device pixel ratio of the page */
+  devicePixelRatio: number;
+}
+
+/** Scroll position of the page in CSS pixels */
+export interface ScrollPosition {
+  x: number;
+  y: number;
+}
+
 /** Payload for sharing the current capture */
 export interface SharePayload {
   /** Image data URL of the capture */
@@ -40,10 +428,18 @@ export interface SharePayload {
   url: string;
   /** Element information of the selected element */
   html: string;
+  /** Locator of the selected element, as CSS selector and XPath */
+  selector: string;
   /** Comment for the capture */
   comment: string;
   /** List of injected tags */
   styleChanges: string;
+  /** List of attribute changes */
+  attributeChanges: string;
+  /** List of text changes */
+  textChanges: string;
+  /** List of structural edits */
+  structureChanges: string;
   /** List of style changes */
   injectedTags: string;
   /** Paper settings for the output format */
@@ -0,0 +1,49 @@
+/**
+ * @jest-environment jsdom
+ */
+import { formatBoxValue, getBoxModel, getContentSize, getElementLabel } from '../boxModel';
+
+describe('getBoxModel', () => {
+  test('should read the margin, border and padding of an element', () => {
+    document.body.innerHTML =
+      '<div style="margin: 1px 2px 3px 4px; border: 2px solid; padding: 5px 6px"></div>';
+    const boxModel = getBoxModel(document.querySelector('div') as HTMLElement);
+
+    expect(boxModel.margin).toEqual({ top: 1, right: 2, bottom: 3, left: 4 });
+    expect(boxModel.border).toEqual({ top: 2, right: 2, bottom: 2, left: 2 });
+    expect(boxModel.padding).toEqual({ top: 5, right: 6, bottom: 5, left: 6 });
+  });
+
+  test('should subtract the border and padding for the content size', () => {
+    const edges = { top: 2, right: 2, bottom: 2, left: 2 };
+    const size = getContentSize({
+      x: 0,
+      y: 0,
+      width: 100,
+      height: 10,
+      margin: edges,
+      border: edges,
+      padding: { top: 5, right: 6, bottom: 5, left: 6 },
+    });
+
+    expect(size).toEqual({ width: 84, height: 0 });
+  });
+});
+
+describe('getElementLabel', () => {
+  test('should join the tag name, ID and classes', () => {
+    document.body.innerHTML = '<section id="main" class="card  active"></section><p></p>';
+
+    expect(getElementLabel(document.querySelector('section') as HTMLElement)).toBe(
+      'section#main.card.active'
+    );
+    expect(getElementLabel(document.querySelector('p') as HTMLElement)).toBe('p');
+  });
+});
+
+describe('formatBoxValue', () => {
+  test('should round sizes to two decimals', () => {
+    expect(formatBoxValue(12.3456)).toBe('12.35');
+    expect(formatBoxValue(40)).toBe('40');
+  });
+});
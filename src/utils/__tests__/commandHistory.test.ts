@@ -0,0 +1,256 @@
+import { HistoryEntry, PageCommand } from '../../types/types';
+import {
+  EMPTY_HISTORY,
+  getCommandMessage,
+  getCommands,
+  getInjectedTags,
+  getPatchModifications,
+  pushCommand,
+  redoCommand,
+  removeEntries,
+  removeStyleTarget,
+  setEntryTargets,
+  undoCommand,
+} from '../commandHistory';
+
+const target = { startTag: '<p class="lead">', path: [1, 0], children: [] };
+
+const createEntry = (id: string, command: PageCommand): HistoryEntry => ({
+  id,
+  command,
+  frameId: 0,
+  targets: [target],
+});
+
+const styleEntry = (id: string, newValue: string) =>
+  createEntry(id, {
+    type: 'style',
+    change: { id, timestamp: 0, property: 'color', oldValue: 'black', newValue },
+  });
+
+const tag = { id: 'tag-1', tag: '<span>new</span>', timestamp: 0 };
+
+describe('pushCommand, undoCommand and redoCommand', () => {
+  test('should move entries between the undo and redo stacks', () => {
+    let history = pushCommand(EMPTY_HISTORY, styleEntry('a', 'red'));
+    history = pushCommand(history, styleEntry('b', 'blue'));
+    history = undoCommand(history);
+
+    expect(history.undo.map((entry) => entry.id)).toEqual(['a']);
+    expect(history.redo.map((entry) => entry.id)).toEqual(['b']);
+
+    history = redoCommand(history);
+    expect(history.undo.map((entry) => entry.id)).toEqual(['b', 'a']);
+    expect(history.redo).toEqual([]);
+  });
+
+  test('should drop undone entries when a new entry is pushed', () => {
+    let history = pushCommand(EMPTY_HISTORY, styleEntry('a', 'red'));
+    history = undoCommand(history);
+    history = pushCommand(history, styleEntry('b', 'blue'));
+
+    expect(history.undo.map((entry) => entry.id)).toEqual(['b']);
+    expect(history.redo).toEqual([]);
+  });
+
+  test('should leave the history unchanged when there is nothing to undo or redo', () => {
+    expect(undoCommand(EMPTY_HISTORY)).toBe(EMPTY_HISTORY);
+    expect(redoCommand(EMPTY_HISTORY)).toBe(EMPTY_HISTORY);
+  });
+
+  test('should describe the targets of an entry again on either stack', () => {
+    const moved = { ...target, path: [1, 2] };
+    let history = pushCommand(EMPTY_HISTORY, styleEntry('a', 'red'));
+    history = pushCommand(history, styleEntry('b', 'blue'));
+    history = setEntryTargets(undoCommand(history), 'b', [moved]);
+
+    expect(history.redo[0].targets).toEqual([moved]);
+    expect(history.undo[0].targets).toEqual([target]);
+  });
+});
+
+describe('getCommandMessage', () => {
+  test('should give each target its own inline style back when a style change is inverted', () => {
+    const entry = styleEntry('a', 'red');
+    if (entry.command.type === 'style') entry.command.change.oldValues = ['blue', ''];
+
+    expect(getCommandMessage(entry, 'invert')).toEqual({
+      type: 'UPDATE_ELEMENT_STYLE',
+      payload: { property: 'color', value: ['blue', ''], targets: [target] },
+    });
+  });
+
+  test('should set the new or the old style on the targets', () => {
+    const entry = styleEntry('a', 'red');
+
+    expect(getCommandMessage(entry, 'apply')).toEqual({
+      type: 'UPDATE_ELEMENT_STYLE',
+      payload: { property: 'color', value: 'red', targets: [target] },
+    });
+    expect(getCommandMessage(entry, 'invert')).toEqual({
+      type: 'UPDATE_ELEMENT_STYLE',
+      payload: { property: 'color', value: 'black', targets: [target] },
+    });
+  });
+
+  test('should give each target its own text back when a text change is inverted', () => {
+    const other = { startTag: '<p>', path: [1, 1], children: [] };
+    const entry = {
+      ...createEntry('a', {
+        type: 'text',
+        change: { id: 'a', timestamp: 0, oldTexts: ['first', 'second'], newText: 'new' },
+      }),
+      targets: [target, other],
+    };
+
+    expect(getCommandMessage(entry, 'apply')).toEqual({
+      type: 'UPDATE_ELEMENT_TEXT',
+      payload: { text: 'new', targets: [target, other] },
+    });
+    expect(getCommandMessage(entry, 'invert')).toEqual({
+      type: 'UPDATE_ELEMENT_TEXT',
+      payload: { text: ['first', 'second'], targets: [target, other] },
+    });
+  });
+
+  test('should invert a tag removal by injecting the tag again', () => {
+    const entry = createEntry('a', { type: 'removeTag', tag });
+
+    expect(getCommandMessage(entry, 'apply')).toEqual({
+      type: 'REMOVE_TAG',
+      payload: { tagId: 'tag-1' },
+    });
+    expect(getCommandMessage(entry, 'invert')).toEqual({
+      type: 'INJECT_TAG',
+      payload: { tag: '<span>new</span>', tagId: 'tag-1', targets: [target] },
+    });
+  });
+
+  test('should reapply and revert structural edits by ID', () => {
+    const entry = createEntry('a', {
+      type: 'structure',
+      change: { id: 'edit-1', timestamp: 0, type: 'hide', elements: ['<p>'] },
+    });
+
+    expect(getCommandMessage(entry, 'apply')).toEqual({
+      type: 'REAPPLY_STRUCTURE_EDIT',
+      payload: { id: 'edit-1' },
+    });
+    expect(getCommandMessage(entry, 'invert')).toEqual({
+      type: 'REVERT_STRUCTURE_EDIT',
+      payload: { id: 'edit-1' },
+    });
+  });
+});
+
+describe('getCommands and getInjectedTags', () => {
+  test('should list the applied commands of one kind, the latest first', () => {
+    let history = pushCommand(EMPTY_HISTORY, styleEntry('a', 'red'));
+    history = pushCommand(history, createEntry('b', { type: 'injectTag', tag }));
+    history = pushCommand(history, styleEntry('c', 'blue'));
+    history = undoCommand(history);
+
+    expect(getCommands(history, 'style').map(({ command }) => command.change.newValue)).toEqual([
+      'red',
+    ]);
+  });
+
+  test('should leave out tags removed after they were injected', () => {
+    let history = pushCommand(EMPTY_HISTORY, createEntry('a', { type: 'injectTag', tag }));
+    expect(getInjectedTags(history)).toEqual([tag]);
+
+    history = pushCommand(history, createEntry('b', { type: 'removeTag', tag }));
+    expect(getInjectedTags(history)).toEqual([]);
+
+    expect(getInjectedTags(undoCommand(history))).toEqual([tag]);
+  });
+});
+
+describe('removeStyleTarget', () => {
+  test('should forget the style changes of one element and keep those of the others', () => {
+    const other = { startTag: '<h1>', path: [1, 1], children: [] };
+    const shared: HistoryEntry = {
+      ...createEntry('b', {
+        type: 'style',
+        change: {
+          id: 'b',
+          timestamp: 0,
+          property: 'color',
+          oldValue: 'black',
+          newValue: 'blue',
+        },
+      }),
+      targets: [target, other],
+    };
+
+    let history = pushCommand(EMPTY_HISTORY, styleEntry('a', 'red'));
+    history = pushCommand(history, shared);
+    history = removeStyleTarget(history, 0, target);
+
+    expect(history.undo.map((entry) => entry.id)).toEqual(['b']);
+    expect(history.undo[0].targets).toEqual([other]);
+  });
+
+  test('should forget the undone style changes of the element as well', () => {
+    let history = pushCommand(EMPTY_HISTORY, styleEntry('a', 'red'));
+    history = pushCommand(history, createEntry('b', { type: 'injectTag', tag }));
+    history = undoCommand(undoCommand(history));
+    history = removeStyleTarget(history, 0, { path: target.path });
+
+    expect(history.redo.map((entry) => entry.id)).toEqual(['b']);
+  });
+
+  test('should keep the changes made in other frames', () => {
+    const history = pushCommand(EMPTY_HISTORY, styleEntry('a', 'red'));
+    expect(removeStyleTarget(history, 1, target)).toEqual(history);
+  });
+});
+
+describe('getPatchModifications and removeEntries', () => {
+  const locator = { path: [1, 0], tagName: 'p', selector: 'body > p', attributes: {} };
+  const located = { ...target, locator };
+
+  test('should save located style, attribute and tag modifications of a frame in order', () => {
+    let history = pushCommand(EMPTY_HISTORY, {
+      ...styleEntry('a', 'red'),
+      targets: [located, target],
+    });
+    history = pushCommand(history, {
+      ...createEntry('b', {
+        type: 'attribute',
+        change: { id: 'b', timestamp: 0, name: 'title', oldValue: null, newValue: 'Hi' },
+      }),
+      targets: [located],
+    });
+    history = pushCommand(history, { ...createEntry('c', { type: 'injectTag', tag }), frameId: 1 });
+    history = pushCommand(history, {
+      ...createEntry('d', {
+        type: 'text',
+        change: { id: 'd', timestamp: 0, oldTexts: ['a'], newText: 'b' },
+      }),
+      targets: [located],
+    });
+
+    const { entries, modifications } = getPatchModifications(history, 0);
+    expect(entries.map((entry) => entry.id)).toEqual(['a', 'b']);
+    expect(modifications).toEqual([
+      { type: 'style', locator, property: 'color', value: 'red' },
+      { type: 'attribute', locator, name: 'title', value: 'Hi' },
+    ]);
+
+    expect(removeEntries(history, ['a', 'b']).undo.map((entry) => entry.id)).toEqual(['d', 'c']);
+  });
+
+  test('should leave out tags removed after they were injected', () => {
+    let history = pushCommand(EMPTY_HISTORY, {
+      ...createEntry('a', { type: 'injectTag', tag }),
+      targets: [located],
+    });
+    expect(getPatchModifications(history, 0).modifications).toEqual([
+      { type: 'tag', locator, tag: '<span>new</span>' },
+    ]);
+
+    history = pushCommand(history, createEntry('b', { type: 'removeTag', tag }));
+    expect(getPatchModifications(history, 0)).toEqual({ entries: [], modifications: [] });
+  });
+});
@@ -0,0 +1,107 @@
+/**
+ * @jest-environment jsdom
+ */
+import {
+  calculateSpecificity,
+  getStyleSnapshot,
+  getWinningDeclaration,
+  splitSelectorList,
+  toCSSPropertyName,
+} from '../cssCascade';
+
+describe('calculateSpecificity', () => {
+  test.each([
+    ['div', [0, 0, 1]],
+    ['#main .card > p:first-child', [1, 2, 1]],
+    ['a[href^="http"]:hover::before', [0, 2, 2]],
+    ['li:not(.done, #last)', [1, 0, 1]],
+    [':where(#main) p', [0, 0, 1]],
+    ['*', [0, 0, 0]],
+    ['svg|rect', [0, 0, 1]],
+  ])('should calculate the specificity of %s', (selector, expected) => {
+    expect(calculateSpecificity(selector)).toEqual(expected);
+  });
+});
+
+describe('splitSelectorList', () => {
+  test('should split only at top level commas', () => {
+    expect(splitSelectorList('a, :is(b, c), [title="x,y"]')).toEqual([
+      'a',
+      ':is(b, c)',
+      '[title="x,y"]',
+    ]);
+  });
+});
+
+describe('getStyleSnapshot', () => {
+  beforeEach(() => {
+    document.head.innerHTML = `
+      <style>
+        p { color: red; margin-top: 1px; }
+        #intro { color: blue; }
+        .note, section p { color: green !important; }
+        @media print { p { color: black; } }
+      </style>`;
+    document.body.innerHTML = '<section><p id="intro" style="color: orange">Hi</p></section>';
+    window.matchMedia = jest.fn().mockImplementation((query: string) => ({
+      matches: query !== 'print',
+    }));
+  });
+
+  test('should order matching rules by importance, specificity and source order', () => {
+    const snapshot = getStyleSnapshot(document.getElementById('intro') as HTMLElement);
+
+    expect(snapshot.color.inline).toEqual({ value: 'orange', important: false });
+    expect(
+      snapshot.color.rules.map(({ selector, specificity, important }) => [
+        selector,
+        specificity,
+        important,
+      ])
+    ).toEqual([
+      ['.note, section p', [0, 0, 2], true],
+      ['#intro', [1, 0, 0], false],
+      ['p', [0, 0, 1], false],
+    ]);
+    expect(getWinningDeclaration(snapshot.color)).toBe(0);
+    expect(snapshot['margin-top'].rules).toHaveLength(1);
+  });
+
+  test('should record media conditions and leave out excluded stylesheets', () => {
+    const style = document.createElement('style');
+    style.textContent = '@media (min-width: 1px) { p { padding-top: 2px; } }';
+    document.head.appendChild(style);
+
+    const element = document.getElementById('intro') as HTMLElement;
+    expect(getStyleSnapshot(element)['padding-top'].rules[0].media).toBe('(min-width: 1px)');
+    expect(
+      getStyleSnapshot(element, { exclude: (sheet) => sheet === style.sheet })['padding-top']
+    ).toBeUndefined();
+  });
+});
+
+describe('getWinningDeclaration', () => {
+  const rule = {
+    value: 'red',
+    selector: 'p',
+    specificity: [0, 0, 1] as [number, number, number],
+  };
+
+  test('should prefer the style attribute unless only a rule is important', () => {
+    const inline = { value: 'blue', important: false };
+
+    expect(getWinningDeclaration({ computed: 'blue', inline, rules: [] })).toBe('inline');
+    expect(
+      getWinningDeclaration({ computed: 'red', inline, rules: [{ ...rule, important: true }] })
+    ).toBe(0);
+    expect(getWinningDeclaration({ computed: 'black', rules: [] })).toBeNull();
+  });
+});
+
+describe('toCSSPropertyName', () => {
+  test('should convert JavaScript property names', () => {
+    expect(toCSSPropertyName('backgroundColor')).toBe('background-color');
+    expect(toCSSPropertyName('margin-top')).toBe('margin-top');
+    expect(toCSSPropertyName('--brandColor')).toBe('--brandColor');
+  });
+});
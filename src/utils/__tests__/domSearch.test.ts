@@ -0,0 +1,60 @@
+/**
+ * @jest-environment jsdom
+ */
+import { createSnippet, searchDOM } from '../domSearch';
+
+describe('searchDOM', () => {
+  beforeEach(() => {
+    document.body.innerHTML = `
+      <main>
+        <h1 title="Welcome banner">Hello</h1>
+        <p>Say hello to   the world</p>
+        <script>const hello = 1;</script>
+      </main>`;
+  });
+
+  test('should find visible text ignoring case', () => {
+    const { total, hits } = searchDOM('HELLO');
+
+    expect(total).toBe(2);
+    expect(hits.map((hit) => [hit.element.localName, hit.field, hit.snippet])).toEqual([
+      ['h1', 'text', 'Hello'],
+      ['p', 'text', 'Say hello to the world'],
+    ]);
+  });
+
+  test('should find attribute values and whole tag names', () => {
+    expect(searchDOM('banner').hits[0]).toMatchObject({
+      field: 'attribute',
+      attribute: 'title',
+      snippet: 'title="Welcome banner"',
+    });
+    expect(searchDOM('main').hits.map((hit) => hit.field)).toEqual(['tag']);
+    expect(searchDOM('mai').total).toBe(0);
+  });
+
+  test('should search shadow roots and skip excluded elements', () => {
+    const host = document.createElement('div');
+    host.attachShadow({ mode: 'open' }).innerHTML = '<span>hello from shadow</span>';
+    document.body.appendChild(host);
+
+    expect(searchDOM('hello').total).toBe(3);
+    expect(searchDOM('hello', { exclude: (element) => element === host }).total).toBe(2);
+  });
+
+  test('should count all matches beyond the limit', () => {
+    const { total, hits } = searchDOM('hello', { limit: 1 });
+
+    expect(total).toBe(2);
+    expect(hits).toHaveLength(1);
+  });
+});
+
+describe('createSnippet', () => {
+  test('should keep context around the match and mark cut ends', () => {
+    const text = `${'a'.repeat(40)}needle${'b'.repeat(40)}`;
+
+    expect(createSnippet(text, 40, 6)).toBe(`…${'a'.repeat(30)}needle${'b'.repeat(30)}…`);
+    expect(createSnippet('short needle', 6, 6)).toBe('short needle');
+  });
+});
@@ -0,0 +1,163 @@
+/**
+ * @jest-environment jsdom
+ */
+import {
+  applyElementTreeChanges,
+  buildChildTrees,
+  buildElementTree,
+  formatElementPath,
+  getAdjacentElement,
+  getElementByPath,
+  getElementPath,
+  getParentPath,
+  getTreeNodeByPath,
+  insertElementChildren,
+  querySelectorAllDeep,
+  SHADOW_ROOT_SEGMENT,
+} from '../domSelection';
+
+describe('element paths', () => {
+  let host: HTMLElement;
+  let inner: HTMLElement;
+
+  beforeEach(() => {
+    document.body.innerHTML = '<div id="first"></div><div id="host"><span>light</span></div>';
+    host = document.getElementById('host') as HTMLElement;
+    const shadowRoot = host.attachShadow({ mode: 'open' });
+    shadowRoot.innerHTML = '<header></header><section><button class="inner">x</button></section>';
+    inner = shadowRoot.querySelector('.inner') as HTMLElement;
+  });
+
+  test('should build an index path for light DOM elements', () => {
+    const path = getElementPath(host);
+    expect(path).toEqual([1, 1]);
+    expect(getElementByPath(path)).toBe(host);
+  });
+
+  test('should cross open shadow roots', () => {
+    const path = getElementPath(inner);
+    expect(path).toEqual([1, 1, SHADOW_ROOT_SEGMENT, 1, 0]);
+    expect(getElementByPath(path)).toBe(inner);
+  });
+
+  test('should return null for paths that do not exist', () => {
+    expect(getElementByPath([1, 5])).toBeNull();
+    expect(getElementByPath([1, 0, SHADOW_ROOT_SEGMENT, 0])).toBeNull();
+  });
+
+  test('should step out of a shadow root to its host for the parent path', () => {
+    expect(getParentPath([1, 1, SHADOW_ROOT_SEGMENT, 1])).toEqual([1, 1]);
+    expect(getParentPath([1, 1, SHADOW_ROOT_SEGMENT, 1, 0])).toEqual([
+      1,
+      1,
+      SHADOW_ROOT_SEGMENT,
+      1,
+    ]);
+  });
+
+  test('should format shadow roots in paths', () => {
+    expect(formatElementPath([1, 1, SHADOW_ROOT_SEGMENT, 1])).toBe('1 > 1 > #shadow-root > 1');
+  });
+
+  test('should list the shadow root as the first child of its host', () => {
+    const [tree] = buildElementTree(host, getElementPath(host));
+    expect(tree.children.map((child) => child.isShadowRoot ?? false)).toEqual([true, false]);
+    expect(tree.children[0].path).toEqual([1, 1, SHADOW_ROOT_SEGMENT]);
+    expect(tree.children[0].children[1].children[0].path).toEqual(getElementPath(inner));
+  });
+
+  test('should find elements inside shadow roots', () => {
+    expect(querySelectorAllDeep('.inner')).toEqual([inner]);
+    expect(querySelectorAllDeep('span, button')).toHaveLength(2);
+  });
+});
+
+describe('getAdjacentElement', () => {
+  beforeEach(() => {
+    document.body.innerHTML =
+      '<ul><li id="a"><b>x</b></li><li id="b"></li></ul><div id="host"></div>';
+    const shadowRoot = (document.getElementById('host') as HTMLElement).attachShadow({
+      mode: 'open',
+    });
+    shadowRoot.innerHTML = '<p class="inner"></p>';
+  });
+
+  test('should move between parents, children and siblings', () => {
+    const first = document.getElementById('a') as HTMLElement;
+    const second = document.getElementById('b') as HTMLElement;
+
+    expect(getAdjacentElement(first, 'parent')?.tagName).toBe('UL');
+    expect(getAdjacentElement(first, 'firstChild')?.tagName).toBe('B');
+    expect(getAdjacentElement(first, 'nextSibling')).toBe(second);
+    expect(getAdjacentElement(second, 'previousSibling')).toBe(first);
+    expect(getAdjacentElement(second, 'nextSibling')).toBeNull();
+    expect(getAdjacentElement(second, 'firstChild')).toBeNull();
+  });
+
+  test('should enter and leave shadow roots', () => {
+    const host = document.getElementById('host') as HTMLElement;
+    const inner = getAdjacentElement(host, 'firstChild') as HTMLElement;
+
+    expect(inner.className).toBe('inner');
+    expect(getAdjacentElement(inner, 'parent')).toBe(host);
+  });
+});
+
+describe('lazy element trees', () => {
+  beforeEach(() => {
+    document.body.innerHTML = '<ul><li><b>a</b></li><li></li><li></li></ul><div id="host"></div>';
+    (document.getElementById('host') as HTMLElement).attachShadow({ mode: 'open' }).innerHTML =
+      '<p></p>';
+  });
+
+  test('should count the children cut off by the depth limit', () => {
+    const list = document.querySelector('ul') as HTMLElement;
+    const [tree] = buildElementTree(list, getElementPath(list), undefined, { depth: 1 });
+
+    expect(tree.childCount).toBe(3);
+    expect(tree.children).toHaveLength(3);
+    expect(tree.children[0].childCount).toBe(1);
+    expect(tree.children[0].children).toEqual([]);
+  });
+
+  test('should page through children, shadow root first', () => {
+    const host = document.getElementById('host') as HTMLElement;
+    const list = document.querySelector('ul') as HTMLElement;
+
+    const page = buildChildTrees(list, getElementPath(list), 1, { depth: 0, pageSize: 1 });
+    expect(page.childCount).toBe(3);
+    expect(page.children.map((child) => child.path)).toEqual([[1, 0, 1]]);
+
+    const shadow = buildChildTrees(host, getElementPath(host), 0, { depth: 0 });
+    expect(shadow.children.map((child) => child.path)).toEqual([[1, 1, SHADOW_ROOT_SEGMENT]]);
+    expect(getTreeNodeByPath([1, 1, SHADOW_ROOT_SEGMENT])).toBe(host.shadowRoot);
+  });
+
+  test('should insert loaded children into a tree', () => {
+    const list = document.querySelector('ul') as HTMLElement;
+    const [tree] = buildElementTree(list, getElementPath(list), undefined, { depth: 1 });
+    const item = list.firstElementChild as HTMLElement;
+    const loaded = buildChildTrees(item, getElementPath(item));
+
+    const merged = insertElementChildren(tree, [1, 0, 0], loaded);
+    expect(merged.children[0].children[0].startTag).toBe('<b>');
+    expect(merged.children[1]).toBe(tree.children[1]);
+    expect(insertElementChildren(tree, [0, 0], loaded)).toBe(tree);
+  });
+
+  test('should apply observed changes to a tree', () => {
+    const list = document.querySelector('ul') as HTMLElement;
+    const [tree] = buildElementTree(list, getElementPath(list), undefined, { depth: 1 });
+    list.lastElementChild?.remove();
+    list.firstElementChild?.setAttribute('class', 'open');
+
+    const updated = applyElementTreeChanges(tree, [
+      { path: [1, 0], ...buildChildTrees(list, [1, 0], 0, { depth: 0 }) },
+      { path: [1, 0, 0], startTag: '<li class="open">' },
+      { path: [1, 5], startTag: '<li>' },
+    ]);
+    expect(updated.childCount).toBe(2);
+    expect(updated.children.map((child) => child.startTag)).toEqual(['<li class="open">', '<li>']);
+    expect(tree.childCount).toBe(3);
+  });
+});
@@ -0,0 +1,151 @@
+/**
+ * @jest-environment jsdom
+ */
+import {
+  buildSelector,
+  buildXPath,
+  createElementLocator,
+  formatLocator,
+  isXPathQuery,
+  queryElements,
+  querySelectorChain,
+  resolveLocator,
+} from '../elementLocator';
+
+describe('createElementLocator', () => {
+  beforeEach(() => {
+    document.body.innerHTML = `
+      <main>
+        <p>first</p>
+        <p data-testid="target" aria-label="Target">Hello   world</p>
+      </main>`;
+  });
+
+  test('should record selector, xpath, attributes and text', () => {
+    const target = document.querySelector('[data-testid="target"]') as HTMLElement;
+    const locator = createElementLocator(target);
+
+    expect(locator.tagName).toBe('p');
+    expect(locator.selector).toBe('html > body > main > p:nth-of-type(2)');
+    expect(locator.xpath).toBe('/html/body/main/p[2]');
+    expect(locator.attributes).toEqual({ 'data-testid': 'target', 'aria-label': 'Target' });
+    expect(locator.text).toBe('Hello world');
+  });
+
+  test('should anchor the selector at a unique id', () => {
+    document.body.innerHTML = '<div id="app"><span></span><span></span></div>';
+    const target = document.querySelectorAll('span')[1];
+    expect(buildSelector(target)).toBe('#app > span:nth-of-type(2)');
+  });
+
+  test('should format the selector and xpath', () => {
+    const target = document.querySelector('main') as HTMLElement;
+    expect(formatLocator(createElementLocator(target))).toBe(
+      'CSS: html > body > main\nXPath: /html/body/main'
+    );
+  });
+});
+
+describe('resolveLocator', () => {
+  test('should resolve by path while the page is unchanged', () => {
+    document.body.innerHTML = '<div><button>Buy</button></div>';
+    const button = document.querySelector('button') as HTMLElement;
+    const resolution = resolveLocator(createElementLocator(button));
+
+    expect(resolution).toEqual({ element: button, strategy: 'path', ambiguous: false });
+  });
+
+  test('should follow the element when content is inserted above it', () => {
+    document.body.innerHTML = '<div><section data-testid="offer">Offer</section></div>';
+    const section = document.querySelector('section') as HTMLElement;
+    const locator = createElementLocator(section);
+
+    section.before(document.createElement('section'));
+    const resolution = resolveLocator(locator);
+
+    expect(resolution.element).toBe(section);
+    expect(resolution.strategy).toBe('attributes');
+  });
+
+  test('should fall back to the text fingerprint', () => {
+    document.body.innerHTML = '<ul><li>One</li><li>Two</li></ul>';
+    const item = document.querySelectorAll('li')[1] as HTMLElement;
+    const locator = createElementLocator(item);
+
+    document.querySelector('ul')?.prepend(document.createElement('li'));
+    document.body.prepend(document.createElement('ul'));
+    const resolution = resolveLocator(locator);
+
+    expect(resolution.element).toBe(item);
+    expect(resolution.strategy).toBe('text');
+  });
+
+  test('should report ambiguous matches', () => {
+    document.body.innerHTML = '<div><a aria-label="More">More</a></div>';
+    const link = document.querySelector('a') as HTMLElement;
+    const locator = createElementLocator(link);
+
+    document.body.innerHTML = '<a aria-label="More">More</a><a aria-label="More">More</a>';
+    const resolution = resolveLocator(locator);
+
+    expect(resolution.ambiguous).toBe(true);
+    expect(resolution.strategy).toBe('attributes');
+    expect(resolution.element).toBe(document.querySelector('a'));
+  });
+
+  test('should return null when nothing matches', () => {
+    document.body.innerHTML = '<div><em>gone</em></div>';
+    const locator = createElementLocator(document.querySelector('em') as HTMLElement);
+
+    document.body.innerHTML = '<div></div>';
+    expect(resolveLocator(locator)).toEqual({ element: null, strategy: null, ambiguous: false });
+  });
+});
+
+describe('shadow roots', () => {
+  test('should chain selectors across shadow roots', () => {
+    document.body.innerHTML = '<div id="host"></div>';
+    const host = document.getElementById('host') as HTMLElement;
+    const shadowRoot = host.attachShadow({ mode: 'open' });
+    shadowRoot.innerHTML = '<span>a</span><span>b</span>';
+    const target = shadowRoot.querySelectorAll('span')[1];
+
+    const selector = buildSelector(target);
+    expect(selector).toBe('#host >>> span:nth-of-type(2)');
+    expect(querySelectorChain(selector)).toEqual([target]);
+    expect(buildXPath(target)).toBeUndefined();
+  });
+});
+
+describe('queryElements', () => {
+  beforeEach(() => {
+    document.body.innerHTML = '<ul><li class="item">a</li><li class="item">b</li></ul>';
+  });
+
+  test('should tell XPaths from CSS selectors', () => {
+    expect(isXPathQuery('//li')).toBe(true);
+    expect(isXPathQuery('(//li)[2]')).toBe(true);
+    expect(isXPathQuery('ul > li')).toBe(false);
+  });
+
+  test('should find elements by CSS selector and XPath', () => {
+    const items = Array.from(document.querySelectorAll('li'));
+
+    expect(queryElements('li.item')).toEqual(items);
+    expect(queryElements('//li[2]')).toEqual([items[1]]);
+  });
+
+  test('should find elements inside shadow roots', () => {
+    const host = document.createElement('div');
+    host.attachShadow({ mode: 'open' }).innerHTML = '<span class="item">c</span>';
+    document.body.appendChild(host);
+
+    expect(queryElements('.item')).toHaveLength(3);
+    expect(queryElements('div>>>span')).toHaveLength(1);
+  });
+
+  test('should throw for invalid queries', () => {
+    expect(() => queryElements('li[')).toThrow();
+    expect(() => queryElements('//li[')).toThrow();
+  });
+});
@@ -1,7 +1,7 @@
 /**
  * @jest-environment jsdom
  */
-import { isValidHtmlString } from '../htmlValidator';
+import { isEditableAttributeName, isValidAttributeName, isValidHtmlString } from '../htmlValidator';
 
 describe('isValidHtmlString', () => {
   describe('valid HTML strings', () => {
@@ -155,3 +155,22 @@ describe('isValidHtmlString', () => {
     });
   });
 });
+
+describe('isValidAttributeName', () => {
+  test.each(['class', 'data-test-id', 'aria-label', 'xlink:href'])('should accept %s', (name) => {
+    expect(isValidAttributeName(name)).toBe(true);
+  });
+
+  test.each(['', 'data test', 'a"b', 'a=b', 'a>b', 'a/b'])('should reject "%s"', (name) => {
+    expect(isValidAttributeName(name)).toBe(false);
+  });
+});
+
+describe('isEditableAttributeName', () => {
+  test('should reject the attributes the extension keeps its state in', () => {
+    expect(isEditableAttributeName('data-test-id')).toBe(true);
+    expect(isEditableAttributeName('data-extension-modified-styles')).toBe(false);
+    expect(isEditableAttributeName('DATA-EXTENSION-TAG-ID')).toBe(false);
+    expect(isEditableAttributeName('a b')).toBe(false);
+  });
+});
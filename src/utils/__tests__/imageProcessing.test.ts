@@ -0,0 +1,92 @@
+import {
+  calculateCropRegion,
+  calculateSlices,
+  calculateSliceHeight,
+  intersectRects,
+} from '../imageProcessing';
+
+describe('calculateCropRegion', () => {
+  test('should map CSS pixels to image pixels', () => {
+    const region = calculateCropRegion({ x: 10, y: 20, width: 100, height: 50 }, 2, 2000, 1000);
+    expect(region).toEqual({ x: 20, y: 40, width: 200, height: 100 });
+  });
+
+  test('should add padding around the rectangle', () => {
+    const region = calculateCropRegion({ x: 10, y: 20, width: 100, height: 50 }, 1, 1000, 500, 5);
+    expect(region).toEqual({ x: 5, y: 15, width: 110, height: 60 });
+  });
+
+  test('should clamp the region to the image bounds', () => {
+    const region = calculateCropRegion({ x: -20, y: 450, width: 100, height: 100 }, 1, 1000, 500);
+    expect(region).toEqual({ x: 0, y: 450, width: 80, height: 50 });
+  });
+
+  test('should return an empty region for rectangles outside the image', () => {
+    const region = calculateCropRegion({ x: 0, y: 600, width: 100, height: 100 }, 1, 1000, 500);
+    expect(region.height).toBe(0);
+  });
+
+  test('should round fractional coordinates outwards', () => {
+    const region = calculateCropRegion(
+      { x: 10.4, y: 10.6, width: 20.2, height: 20.2 },
+      1.5,
+      1000,
+      500
+    );
+    expect(region).toEqual({ x: 15, y: 15, width: 31, height: 32 });
+  });
+});
+
+describe('calculateSliceHeight', () => {
+  test('should return null for images that fit on one page', () => {
+    expect(calculateSliceHeight(1920, 1080, 800, 500)).toBeNull();
+  });
+
+  test('should return null for images only slightly taller than the page', () => {
+    expect(calculateSliceHeight(1000, 700, 800, 500)).toBeNull();
+  });
+
+  test('should return the slice height for tall images', () => {
+    expect(calculateSliceHeight(1000, 5000, 800, 500)).toBe(625);
+  });
+});
+
+describe('calculateSlices', () => {
+  test('should return a single slice when the height fits', () => {
+    expect(calculateSlices(500, 625)).toEqual([{ y: 0, height: 500 }]);
+  });
+
+  test('should divide the height into even slices', () => {
+    expect(calculateSlices(1000, 400)).toEqual([
+      { y: 0, height: 334 },
+      { y: 334, height: 334 },
+      { y: 668, height: 332 },
+    ]);
+  });
+
+  test('should cover the whole height', () => {
+    const slices = calculateSlices(5000, 625);
+    expect(slices).toHaveLength(8);
+    expect(slices.reduce((sum, slice) => sum + slice.height, 0)).toBe(5000);
+  });
+});
+
+describe('intersectRects', () => {
+  test('should return the overlapping area', () => {
+    expect(
+      intersectRects(
+        { x: 0, y: 0, width: 100, height: 100 },
+        { x: 50, y: 25, width: 100, height: 50 }
+      )
+    ).toEqual({ x: 50, y: 25, width: 50, height: 50 });
+  });
+
+  test('should return null for rectangles that only touch', () => {
+    expect(
+      intersectRects(
+        { x: 0, y: 0, width: 100, height: 100 },
+        { x: 100, y: 0, width: 50, height: 50 }
+      )
+    ).toBeNull();
+  });
+});
@@ -0,0 +1,40 @@
+import { getDefaultUrlPattern, matchesUrlPattern } from '../urlPattern';
+
+describe('matchesUrlPattern', () => {
+  test('should match any characters for a wildcard', () => {
+    expect(matchesUrlPattern('https://example.com/docs/a?b=1', 'https://example.com/docs/*')).toBe(
+      true
+    );
+    expect(matchesUrlPattern('https://sub.example.com/', 'https://*.example.com/*')).toBe(true);
+    expect(matchesUrlPattern('https://example.com/blog/', 'https://example.com/docs/*')).toBe(
+      false
+    );
+  });
+
+  test('should match the rest of the pattern literally against the whole URL', () => {
+    expect(matchesUrlPattern('https://example.com/a.html', 'https://example.com/a.html')).toBe(
+      true
+    );
+    expect(matchesUrlPattern('https://example.com/aXhtml', 'https://example.com/a.html')).toBe(
+      false
+    );
+    expect(matchesUrlPattern('https://example.com/a.html#top', 'https://example.com/a.html')).toBe(
+      false
+    );
+    expect(matchesUrlPattern('https://example.com/?q=(1)', 'https://example.com/?q=(1)')).toBe(
+      true
+    );
+  });
+});
+
+describe('getDefaultUrlPattern', () => {
+  test('should keep the path and match any query or hash', () => {
+    expect(getDefaultUrlPattern('https://example.com/docs/page?id=1#top')).toBe(
+      'https://example.com/docs/page*'
+    );
+  });
+
+  test('should return unparsable URLs as they are', () => {
+    expect(getDefaultUrlPattern('not a url')).toBe('not a url');
+  });
+});
@@ -0,0 +1,60 @@
+import { BoxEdges, BoxModel } from '../types/types';
+
+const readEdges = (style: CSSStyleDeclaration, property: string, suffix = ''): BoxEdges => {
+  const read = (side: keyof BoxEdges) =>
+    parseFloat(style.getPropertyValue(`${property}-${side}${suffix}`)) || 0;
+  return { top: read('top'), right: read('right'), bottom: read('bottom'), left: read('left') };
+};
+
+/**
+ * Measure the rendered box model of an element
+ * @param element - The element to measure
+ * @returns The border box in document coordinates with the margin, border and padding sizes
+ */
+export const getBoxModel = (element: Element): BoxModel => {
+  const rect = element.getBoundingClientRect();
+  const style = window.getComputedStyle(element);
+
+  return {
+    x: rect.left + window.scrollX,
+    y: rect.top + window.scrollY,
+    width: rect.width,
+    height: rect.height,
+    margin: readEdges(style, 'margin'),
+    border: readEdges(style, 'border', '-width'),
+    padding: readEdges(style, 'padding'),
+  };
+};
+
+/**
+ * Get the size of the content box inside the border and padding
+ * @param boxModel - The box model of the element
+ * @returns The width and height of the content box
+ */
+export const getContentSize = (boxModel: BoxModel): { width: number; height: number } => {
+  const { width, height, border, padding } = boxModel;
+  return {
+    width: Math.max(0, width - border.left - border.right - padding.left - padding.right),
+    height: Math.max(0, height - border.top - border.bottom - padding.top - padding.bottom),
+  };
+};
+
+/**
+ * Format a box model size for display, with at most two decimals
+ */
+export const formatBoxValue = (value: number): string => {
+  return String(Math.round(value * 100) / 100);
+};
+
+/**
+ * Build an inspector style label for an element
+ * @param element - The element to label
+ * @returns The tag name followed by the ID and classes, e.g. "div#main.card.active"
+ */
+export const getElementLabel = (element: Element): string => {
+  const id = element.id ? `#${element.id}` : '';
+  const classes = Array.from(element.classList)
+    .map((className) => `.${className}`)
+    .join('');
+  return `${element.localName}${id}${classes}`;
+};
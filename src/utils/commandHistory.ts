@@ -0,0 +1,241 @@
+import { CommandMessage } from '../types/messages';
+import {
+  ElementInfo,
+  HistoryEntry,
+  InjectedTagInfo,
+  PageCommand,
+  PatchModification,
+} from '../types/types';
+import { formatElementPath } from './domSelection';
+
+/** Undo and redo stacks of page modifications, the latest entry first */
+export interface CommandHistory {
+  undo: HistoryEntry[];
+  redo: HistoryEntry[];
+}
+
+export const EMPTY_HISTORY: CommandHistory = { undo: [], redo: [] };
+
+/**
+ * Record a modification that was just made; what was undone before can no longer be redone
+ * @param history - The history so far
+ * @param entry - The modification
+ * @returns The history with the modification
+ */
+export const pushCommand = (history: CommandHistory, entry: HistoryEntry): CommandHistory => ({
+  undo: [entry, ...history.undo],
+  redo: [],
+});
+
+/**
+ * Move the latest modification to the redo stack
+ * @param history - The history so far
+ * @returns The history after undoing, unchanged if there is nothing to undo
+ */
+export const undoCommand = (history: CommandHistory): CommandHistory => {
+  const [entry, ...undo] = history.undo;
+  return entry ? { undo, redo: [entry, ...history.redo] } : history;
+};
+
+/**
+ * Move the latest undone modification back to the undo stack
+ * @param history - The history so far
+ * @returns The history after redoing, unchanged if there is nothing to redo
+ */
+export const redoCommand = (history: CommandHistory): CommandHistory => {
+  const [entry, ...redo] = history.redo;
+  return entry ? { undo: [entry, ...history.undo], redo } : history;
+};
+
+/**
+ * Describe the elements of a modification as they are now, after it was made or taken back, so
+ * that they are found again once their text or attributes changed
+ * @param history - The history
+ * @param id - ID of the entry
+ * @param targets - The elements of the entry, in the same order
+ * @returns The history with the entry updated, on whichever stack it is
+ */
+export const setEntryTargets = (
+  history: CommandHistory,
+  id: string,
+  targets: ElementInfo[]
+): CommandHistory => {
+  const update = (entries: HistoryEntry[]) =>
+    entries.map((entry) => (entry.id === id ? { ...entry, targets } : entry));
+  return { undo: update(history.undo), redo: update(history.redo) };
+};
+
+/**
+ * Get the message that makes a modification on the page, or takes it back
+ * @param entry - The modification
+ * @param direction - Whether to apply the modification or invert it
+ * @returns The message for the content script of the frame the modification was made in
+ */
+export const getCommandMessage = (
+  entry: HistoryEntry,
+  direction: 'apply' | 'invert'
+): CommandMessage => {
+  const { command, targets } = entry;
+  const applying = direction === 'apply';
+
+  switch (command.type) {
+    case 'style': {
+      // Each target gets its own inline value back, the computed value is the fallback
+      const { property, oldValue, oldValues, newValue } = command.change;
+      return {
+        type: 'UPDATE_ELEMENT_STYLE',
+        payload: { property, value: applying ? newValue : (oldValues ?? oldValue), targets },
+      };
+    }
+    case 'attribute': {
+      const { name, oldValue, newValue } = command.change;
+      return {
+        type: 'UPDATE_ELEMENT_ATTRIBUTE',
+        payload: { name, value: applying ? newValue : oldValue, targets },
+      };
+    }
+    case 'text': {
+      const { oldTexts, newText } = command.change;
+      return {
+        type: 'UPDATE_ELEMENT_TEXT',
+        payload: { text: applying ? newText : oldTexts, targets },
+      };
+    }
+    case 'structure':
+      return {
+        type: applying ? 'REAPPLY_STRUCTURE_EDIT' : 'REVERT_STRUCTURE_EDIT',
+        payload: { id: command.change.id },
+      };
+    case 'injectTag':
+    case 'removeTag': {
+      const { id, tag } = command.tag;
+      // Removing an injected tag is inverted by injecting it again into the same elements
+      return applying === (command.type === 'injectTag')
+        ? { type: 'INJECT_TAG', payload: { tag, tagId: id, targets } }
+        : { type: 'REMOVE_TAG', payload: { tagId: id } };
+    }
+  }
+};
+
+/**
+ * Get the modifications of one kind that are applied, the latest first
+ * @param history - The history
+ * @param type - The kind of modification
+ * @returns The commands of that kind on the undo stack
+ */
+export const getCommands = <T extends PageCommand['type']>(
+  history: CommandHistory,
+  type: T
+): (HistoryEntry & { command: Extract<PageCommand, { type: T }> })[] =>
+  history.undo.filter(
+    (entry): entry is HistoryEntry & { command: Extract<PageCommand, { type: T }> } =>
+      entry.command.type === type
+  );
+
+/**
+ * Get the tags that are injected into the page after the applied modifications
+ * @param history - The history
+ * @returns The injected tags, the latest first
+ */
+export const getInjectedTags = (history: CommandHistory): InjectedTagInfo[] =>
+  history.undo.reduceRight<InjectedTagInfo[]>((tags, { command }) => {
+    if (command.type === 'injectTag') return [command.tag, ...tags];
+    if (command.type === 'removeTag') return tags.filter((tag) => tag.id !== command.tag.id);
+    return tags;
+  }, []);
+
+/**
+ * Get a key telling elements of one frame apart, by locator when the element has one
+ * @param target - The element
+ * @returns The selector of the element, or its path
+ */
+export const getTargetKey = (target: Pick<ElementInfo, 'path' | 'locator'>): string =>
+  target.locator?.selector ?? formatElementPath(target.path);
+
+/**
+ * Forget the style changes made to an element after its styles were reverted. Changes made to
+ * several elements are kept for the others.
+ * @param history - The history
+ * @param frameId - The frame the element is in
+ * @param target - The element
+ * @returns The history without the style changes of the element, on both stacks
+ */
+export const removeStyleTarget = (
+  history: CommandHistory,
+  frameId: number,
+  target: Pick<ElementInfo, 'path' | 'locator'>
+): CommandHistory => {
+  const key = getTargetKey(target);
+  const removeFrom = (entries: HistoryEntry[]) =>
+    entries.flatMap((entry): HistoryEntry[] => {
+      if (entry.command.type !== 'style' || entry.frameId !== frameId) return [entry];
+
+      const targets = entry.targets.filter((t) => getTargetKey(t) !== key);
+      if (targets.length === entry.targets.length) return [entry];
+      return targets.length > 0 ? [{ ...entry, targets }] : [];
+    });
+  return { undo: removeFrom(history.undo), redo: removeFrom(history.redo) };
+};
+
+/**
+ * Get the style changes, attribute edits and injected tags of a frame that can be saved in a
+ * patch. Elements without a locator cannot be found again and are left out.
+ * @param history - The history
+ * @param frameId - The frame the modifications were made in
+ * @returns The entries saved and their modifications, in the order they were made
+ */
+export const getPatchModifications = (
+  history: CommandHistory,
+  frameId: number
+): { entries: HistoryEntry[]; modifications: PatchModification[] } => {
+  const injectedTagIds = new Set(getInjectedTags(history).map((tag) => tag.id));
+  const entries: HistoryEntry[] = [];
+  const modifications: PatchModification[] = [];
+
+  [...history.undo].reverse().forEach((entry) => {
+    const { command } = entry;
+    if (entry.frameId !== frameId) return;
+
+    const locators = entry.targets
+      .map((target) => target.locator)
+      .filter((locator) => locator !== undefined);
+    let saved: PatchModification[];
+
+    switch (command.type) {
+      case 'style': {
+        const { property, newValue } = command.change;
+        saved = locators.map((locator) => ({ type: 'style', locator, property, value: newValue }));
+        break;
+      }
+      case 'attribute': {
+        const { name, newValue } = command.change;
+        saved = locators.map((locator) => ({ type: 'attribute', locator, name, value: newValue }));
+        break;
+      }
+      case 'injectTag':
+        // Tags removed since are not saved
+        if (!injectedTagIds.has(command.tag.id)) return;
+        saved = locators.map((locator) => ({ type: 'tag', locator, tag: command.tag.tag }));
+        break;
+      default:
+        return;
+    }
+
+    entries.push(entry);
+    modifications.push(...saved);
+  });
+
+  return { entries, modifications };
+};
+
+/**
+ * Forget modifications, e.g. after they were moved into a patch. What was undone can no longer be
+ * redone, as it may depend on them.
+ * @param history - The history
+ * @param ids - IDs of the entries to forget
+ * @returns The history without the entries
+ */
+export const removeEntries = (history: CommandHistory, ids: string[]): CommandHistory => ({
+  undo: history.undo.filter((entry) => !ids.includes(entry.id)),
+  redo: [],
+});
@@ -0,0 +1,34 @@
+import { Context, FrameInfo } from '../types/types';
+
+/**
+ * Get the context addressing the content scripts of all frames in a tab
+ * @param tabId - The ID of the tab
+ * @returns The tab context
+ */
+export const getTabContext = (tabId: number): Context => `content-${tabId}`;
+
+/**
+ * Get the context addressing the content script of one frame
+ * @param tabId - The ID of the tab
+ * @param frameId - The ID of the frame, 0 for the top frame
+ * @returns The frame context
+ */
+export const getFrameContext = (tabId: number, frameId: number): Context =>
+  `content-${tabId}-${frameId}`;
+
+/**
+ * Parse a frame context into its tab and frame IDs
+ * @param context - The context to parse
+ * @returns The tab and frame IDs, or null if the context does not address a single frame
+ */
+export const parseFrameContext = (context: string): FrameInfo | null => {
+  const match = context.match(/^content-(\d+)-(\d+)$/);
+  return match ? { tabId: Number(match[1]), frameId: Number(match[2]) } : null;
+};
+
+/**
+ * Check whether a context addresses all frames of a tab
+ * @param context - The context to check
+ * @returns True for tab contexts
+ */
+export const isTabContext = (context: string): boolean => /^content-\d+$/.test(context);
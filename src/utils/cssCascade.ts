@@ -0,0 +1,324 @@
+import {
+  CSSDeclaration,
+  MatchedCSSDeclaration,
+  PropertyCascade,
+  Specificity,
+  StyleSnapshot,
+} from '../types/types';
+
+interface SnapshotOptions {
+  /** Stylesheets to leave out, such as styles injected by the extension */
+  exclude?: (sheet: CSSStyleSheet) => boolean;
+}
+
+/** A style rule with the stylesheet it comes from and the media conditions it is nested in */
+interface ScopedRule {
+  rule: CSSStyleRule;
+  stylesheetUrl?: string;
+  media: string[];
+}
+
+// Pseudo-elements that may be written with a single colon
+const LEGACY_PSEUDO_ELEMENTS = ['before', 'after', 'first-line', 'first-letter'];
+
+// Pseudo-classes that take the specificity of the most specific selector in their argument
+const SELECTOR_LIST_PSEUDO_CLASSES = ['is', 'not', 'has', 'matches', '-webkit-any', '-moz-any'];
+
+const NAME_PATTERN = /(?:[\w-]|[^\x00-\x7f]|\\.)+/y;
+
+const readName = (selector: string, index: number): string => {
+  NAME_PATTERN.lastIndex = index;
+  return NAME_PATTERN.exec(selector)?.[0] ?? '';
+};
+
+// Index just past the bracket closing the one at the given index, skipping quoted strings
+const findClosingBracket = (selector: string, index: number): number => {
+  let depth = 0;
+  let quote: string | null = null;
+  for (let i = index; i < selector.length; i++) {
+    const char = selector[i];
+    if (char === '\\') {
+      i++;
+    } else if (quote) {
+      if (char === quote) quote = null;
+    } else if (char === '"' || char === "'") {
+      quote = char;
+    } else if (char === '(' || char === '[') {
+      depth++;
+    } else if ((char === ')' || char === ']') && --depth === 0) {
+      return i + 1;
+    }
+  }
+  return selector.length;
+};
+
+const addSpecificity = (a: Specificity, b: Specificity): Specificity => [
+  a[0] + b[0],
+  a[1] + b[1],
+  a[2] + b[2],
+];
+
+/**
+ * Compare two specificities
+ * @returns A positive number if a is more specific, negative if b is, 0 if they are equal
+ */
+export const compareSpecificity = (a: Specificity, b: Specificity): number =>
+  a[0] - b[0] || a[1] - b[1] || a[2] - b[2];
+
+/**
+ * Split a selector list at its top level commas
+ * @param selectorText - The selector list, e.g. "a, :is(b, c)"
+ * @returns The complex selectors of the list
+ */
+export const splitSelectorList = (selectorText: string): string[] => {
+  const selectors: string[] = [];
+  let start = 0;
+  for (let i = 0; i < selectorText.length; i++) {
+    const char = selectorText[i];
+    if (char === '\\') {
+      i++;
+    } else if (char === '(' || char === '[') {
+      i = findClosingBracket(selectorText, i) - 1;
+    } else if (char === ',') {
+      selectors.push(selectorText.slice(start, i));
+      start = i + 1;
+    }
+  }
+  selectors.push(selectorText.slice(start));
+  return selectors.map((selector) => selector.trim()).filter(Boolean);
+};
+
+const maxSpecificity = (selectorText: string): Specificity =>
+  splitSelectorList(selectorText)
+    .map(calculateSpecificity)
+    .reduce<Specificity>(
+      (max, specificity) => (compareSpecificity(specificity, max) > 0 ? specificity : max),
+      [0, 0, 0]
+    );
+
+/**
+ * Calculate the specificity of a complex selector following Selectors Level 4:
+ * :where() counts for nothing, :is(), :not() and :has() count as their most specific argument
+ * @param selector - A single selector, not a selector list
+ * @returns The specificity as [IDs, classes, types]
+ */
+export const calculateSpecificity = (selector: string): Specificity => {
+  let specificity: Specificity = [0, 0, 0];
+  let i = 0;
+
+  while (i < selector.length) {
+    const char = selector[i];
+
+    if (char === '#') {
+      specificity = addSpecificity(specificity, [1, 0, 0]);
+      i += 1 + readName(selector, i + 1).length;
+    } else if (char === '.') {
+      specificity = addSpecificity(specificity, [0, 1, 0]);
+      i += 1 + readName(selector, i + 1).length;
+    } else if (char === '[') {
+      specificity = addSpecificity(specificity, [0, 1, 0]);
+      i = findClosingBracket(selector, i);
+    } else if (char === ':') {
+      const isPseudoElement = selector[i + 1] === ':';
+      const nameStart = i + (isPseudoElement ? 2 : 1);
+      const name = readName(selector, nameStart).toLowerCase();
+      i = nameStart + name.length;
+
+      let argument = '';
+      if (selector[i] === '(') {
+        const end = findClosingBracket(selector, i);
+        argument = selector.slice(i + 1, end - 1);
+        i = end;
+      }
+
+      if (isPseudoElement || LEGACY_PSEUDO_ELEMENTS.includes(name)) {
+        specificity = addSpecificity(specificity, [0, 0, 1]);
+      } else if (SELECTOR_LIST_PSEUDO_CLASSES.includes(name)) {
+        specificity = addSpecificity(specificity, maxSpecificity(argument));
+      } else if (name !== 'where') {
+        specificity = addSpecificity(specificity, [0, 1, 0]);
+      }
+    } else if (readName(selector, i)) {
+      // Type selector, a namespace prefix before "|" does not count
+      const name = readName(selector, i);
+      i += name.length;
+      if (selector[i] !== '|') specificity = addSpecificity(specificity, [0, 0, 1]);
+    } else {
+      // Universal selector, combinators and whitespace
+      i++;
+    }
+  }
+
+  return specificity;
+};
+
+// Specificity of the most specific selector of the rule that matches the element, null if none do
+const getMatchedSpecificity = (element: Element, selectorText: string): Specificity | null => {
+  let matched: Specificity | null = null;
+  for (const selector of splitSelectorList(selectorText)) {
+    try {
+      if (!element.matches(selector)) continue;
+    } catch {
+      // Selectors with pseudo-elements never match the element itself
+      continue;
+    }
+    const specificity = calculateSpecificity(selector);
+    if (!matched || compareSpecificity(specificity, matched) > 0) matched = specificity;
+  }
+  return matched;
+};
+
+const matchesMedia = (mediaText: string): boolean =>
+  !mediaText || mediaText === 'all' || (window.matchMedia?.(mediaText).matches ?? true);
+
+const collectRules = (
+  rules: CSSRuleList,
+  stylesheetUrl: string | undefined,
+  media: string[],
+  scopedRules: ScopedRule[]
+) => {
+  Array.from(rules).forEach((rule) => {
+    if (rule instanceof CSSStyleRule) {
+      scopedRules.push({ rule, stylesheetUrl, media });
+    } else if (rule instanceof CSSMediaRule) {
+      const mediaText = rule.media.mediaText;
+      if (matchesMedia(mediaText)) {
+        collectRules(rule.cssRules, stylesheetUrl, [...media, mediaText], scopedRules);
+      }
+    } else if (rule instanceof CSSImportRule) {
+      if (rule.styleSheet) collectSheet(rule.styleSheet, media, scopedRules);
+    } else if ('cssRules' in rule) {
+      // Other grouping rules such as @supports and @layer are assumed to apply
+      collectRules((rule as CSSGroupingRule).cssRules, stylesheetUrl, media, scopedRules);
+    }
+  });
+};
+
+const collectSheet = (sheet: CSSStyleSheet, media: string[], scopedRules: ScopedRule[]) => {
+  if (sheet.disabled) return;
+
+  const mediaText = sheet.media?.mediaText ?? '';
+  if (!matchesMedia(mediaText)) return;
+
+  let rules: CSSRuleList;
+  try {
+    rules = sheet.cssRules;
+  } catch {
+    // Rules of cross-origin stylesheets cannot be read
+    return;
+  }
+
+  collectRules(
+    rules,
+    sheet.href ?? undefined,
+    mediaText && mediaText !== 'all' ? [...media, mediaText] : media,
+    scopedRules
+  );
+};
+
+const readDeclarations = (style: CSSStyleDeclaration): Record<string, CSSDeclaration> => {
+  const declarations: Record<string, CSSDeclaration> = {};
+  for (let i = 0; i < style.length; i++) {
+    const property = style[i];
+    declarations[property] = {
+      value: style.getPropertyValue(property),
+      important: style.getPropertyPriority(property) === 'important',
+    };
+  }
+  return declarations;
+};
+
+/**
+ * Record the styles of an element in a form that can be sent between contexts: the computed
+ * value of every property, the value in the style attribute and the declarations of the rules
+ * that matched, ordered by precedence. Rules come from the stylesheets of the document or shadow
+ * root the element is in; cross-origin stylesheets cannot be read and are left out.
+ * @param element - The element to record the styles of
+ * @param options - Stylesheets to leave out
+ * @returns The styles keyed by CSS property name
+ */
+export const getStyleSnapshot = (
+  element: HTMLElement,
+  { exclude }: SnapshotOptions = {}
+): StyleSnapshot => {
+  const root = element.getRootNode() as Document | ShadowRoot;
+  const sheets = [...Array.from(root.styleSheets), ...(root.adoptedStyleSheets ?? [])];
+
+  const scopedRules: ScopedRule[] = [];
+  sheets
+    .filter((sheet) => !exclude?.(sheet))
+    .forEach((sheet) => collectSheet(sheet, [], scopedRules));
+
+  const matches: { property: string; order: number; declaration: MatchedCSSDeclaration }[] = [];
+  scopedRules.forEach(({ rule, stylesheetUrl, media }, order) => {
+    const specificity = getMatchedSpecificity(element, rule.selectorText);
+    if (!specificity) return;
+
+    Object.entries(readDeclarations(rule.style)).forEach(([property, declaration]) => {
+      matches.push({
+        property,
+        order,
+        declaration: {
+          ...declaration,
+          selector: rule.selectorText,
+          specificity,
+          ...(stylesheetUrl && { stylesheetUrl }),
+          ...(media.length > 0 && { media: media.join(' and ') }),
+        },
+      });
+    });
+  });
+
+  // Important declarations first, then the most specific, then the last in source order
+  matches.sort(
+    (a, b) =>
+      Number(b.declaration.important) - Number(a.declaration.important) ||
+      compareSpecificity(b.declaration.specificity, a.declaration.specificity) ||
+      b.order - a.order
+  );
+
+  const computed = window.getComputedStyle(element);
+  const inline = readDeclarations(element.style);
+  const properties = new Set([
+    ...Array.from({ length: computed.length }, (_, i) => computed[i]),
+    ...Object.keys(inline),
+    ...matches.map((match) => match.property),
+  ]);
+
+  const snapshot: StyleSnapshot = {};
+  properties.forEach((property) => {
+    const cascade: PropertyCascade = {
+      computed: computed.getPropertyValue(property),
+      rules: [],
+    };
+    if (inline[property]) cascade.inline = inline[property];
+    snapshot[property] = cascade;
+  });
+  matches.forEach(({ property, declaration }) => {
+    snapshot[property].rules.push(declaration);
+  });
+
+  return snapshot;
+};
+
+/**
+ * Find the declaration that sets the value of a property. The style attribute beats rules unless
+ * a rule is important and the attribute is not.
+ * @param cascade - The styles of the property
+ * @returns 'inline' for the style attribute, the index of the winning rule, or null if the value
+ * is inherited or the initial value
+ */
+export const getWinningDeclaration = (cascade: PropertyCascade): 'inline' | number | null => {
+  const [first] = cascade.rules;
+  if (cascade.inline && (cascade.inline.important || !first?.important)) return 'inline';
+  return first ? 0 : null;
+};
+
+/**
+ * Convert a property name as used in JavaScript to its CSS name, e.g. "backgroundColor" to
+ * "background-color". CSS names and custom properties are returned as they are.
+ */
+export const toCSSPropertyName = (property: string): string =>
+  property.startsWith('--')
+    ? property
+    : property.replace(/[A-Z]/g, (letter) => `-${letter.toLowerCase()}`);
@@ -0,0 +1,103 @@
+import { SearchField } from '../types/types';
+import { getDirectTextContent } from './domSelection';
+
+/** Characters of context kept on each side of the matched text in a snippet */
+const SNIPPET_CONTEXT = 30;
+
+/** Elements whose text is never rendered */
+const HIDDEN_TEXT_ELEMENTS = ['script', 'style', 'noscript', 'template'];
+
+/** Element found by searchDOM */
+export interface DOMSearchHit {
+  element: HTMLElement;
+  field: SearchField;
+  /** Name of the attribute whose value matched, for attribute matches */
+  attribute?: string;
+  snippet: string;
+}
+
+interface SearchOptions {
+  /** Maximum number of hits to return, all hits are still counted */
+  limit?: number;
+  /** Elements to leave out of the search together with their descendants */
+  exclude?: (element: Element) => boolean;
+}
+
+/**
+ * Cut the text around a match, marking cut ends with an ellipsis
+ * @param text - The text containing the match
+ * @param index - Position of the match in the text
+ * @param length - Length of the match
+ * @returns The match with up to SNIPPET_CONTEXT characters on each side
+ */
+export const createSnippet = (text: string, index: number, length: number): string => {
+  const start = Math.max(0, index - SNIPPET_CONTEXT);
+  const end = Math.min(text.length, index + length + SNIPPET_CONTEXT);
+  return `${start > 0 ? '…' : ''}${text.slice(start, end)}${end < text.length ? '…' : ''}`;
+};
+
+const findHit = (element: HTMLElement, needle: string): Omit<DOMSearchHit, 'element'> | null => {
+  if (element.localName === needle) {
+    return { field: 'tag', snippet: `<${element.localName}>` };
+  }
+
+  for (const { name, value } of Array.from(element.attributes)) {
+    const index = value.toLowerCase().indexOf(needle);
+    if (index >= 0) {
+      return {
+        field: 'attribute',
+        attribute: name,
+        snippet: `${name}="${createSnippet(value, index, needle.length)}"`,
+      };
+    }
+  }
+
+  if (!HIDDEN_TEXT_ELEMENTS.includes(element.localName)) {
+    const text = (getDirectTextContent(element) ?? '').replace(/\s+/g, ' ');
+    const index = text.toLowerCase().indexOf(needle);
+    if (index >= 0) {
+      return { field: 'text', snippet: createSnippet(text, index, needle.length) };
+    }
+  }
+
+  return null;
+};
+
+/**
+ * Search the document for elements by their text, attribute values or tag name, ignoring case.
+ * Text and attribute values match partially, tag names only as a whole.
+ * Open shadow roots are searched too, and each element is reported once, for the first field
+ * that matched in the order tag name, attributes, text.
+ * @param query - The text to search for
+ * @param options - Limit on the number of hits and elements to leave out
+ * @returns The number of matching elements and the hits in document order
+ */
+export const searchDOM = (
+  query: string,
+  { limit = Infinity, exclude }: SearchOptions = {}
+): { total: number; hits: DOMSearchHit[] } => {
+  const needle = query.trim().toLowerCase();
+  const hits: DOMSearchHit[] = [];
+  let total = 0;
+  if (!needle) return { total, hits };
+
+  const visit = (element: Element) => {
+    if (exclude?.(element)) return;
+
+    if (element instanceof HTMLElement) {
+      const hit = findHit(element, needle);
+      if (hit) {
+        total++;
+        if (hits.length < limit) hits.push({ element, ...hit });
+      }
+    }
+
+    if (element.shadowRoot) {
+      Array.from(element.shadowRoot.children).forEach(visit);
+    }
+    Array.from(element.children).forEach(visit);
+  };
+
+  visit(document.documentElement);
+  return { total, hits };
+};
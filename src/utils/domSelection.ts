@@ -1,45 +1,236 @@
-import { ElementInfo } from '../types/types';
+import { ElementInfo, ElementPath, ElementPathSegment, ElementTreeChange } from '../types/types';
+
+/** Path segment that enters the open shadow root of the current element */
+export const SHADOW_ROOT_SEGMENT: ElementPathSegment = 'shadow';
+
+/** Start tag shown for shadow root nodes in the element tree */
+export const SHADOW_ROOT_START_TAG = '#shadow-root (open)';
 
 /**
- * Get the DOM path from root to the given element as an array of indices
+ * Get the DOM path from root to the given element, crossing open shadow roots
  * @param element - The HTML element to get the path for
- * @returns An array of indices representing the path from root to the given element
+ * @returns The path from root to the given element
  */
-export const getElementPath = (element: HTMLElement): number[] => {
-  const path: number[] = [];
-  let current = element;
+export const getElementPath = (element: HTMLElement): ElementPath => {
+  const path: ElementPath = [];
+  let current: Element = element;
+
+  while (current.parentNode) {
+    const parent = current.parentNode;
+    if (!(parent instanceof Element) && !(parent instanceof ShadowRoot)) break;
 
-  while (current.parentElement) {
-    const parent = current.parentElement;
     const children = Array.from(parent.children);
-    const index = children.indexOf(current);
-    path.unshift(index);
-    current = parent;
+    path.unshift(children.indexOf(current));
+
+    if (parent instanceof ShadowRoot) {
+      path.unshift(SHADOW_ROOT_SEGMENT);
+      current = parent.host;
+    } else {
+      current = parent;
+    }
   }
 
   return path;
 };
 
 /**
- * Find an element in the DOM using a path of indices
- * @param path - An array of indices representing the path to the element
+ * Find an element in the DOM using a path, entering open shadow roots where the path says so
+ * @param path - The path to the element
  * @returns The HTML element found at the given path, or null if not found
  */
-export const getElementByPath = (path: number[]): HTMLElement | null => {
-  let current: HTMLElement = document.documentElement;
+export const getElementByPath = (path: ElementPath): HTMLElement | null => {
+  let current: Element = document.documentElement;
+  let container: Element | ShadowRoot = current;
 
   try {
-    for (const index of path) {
-      const children = Array.from(current.children) as HTMLElement[];
-      if (index >= children.length) return null;
-      current = children[index];
+    for (const segment of path) {
+      if (segment === SHADOW_ROOT_SEGMENT) {
+        if (!current.shadowRoot) return null;
+        container = current.shadowRoot;
+        continue;
+      }
+
+      const children = Array.from(container.children);
+      if (segment >= children.length) return null;
+      current = children[segment];
+      container = current;
     }
   } catch (error) {
     console.error(`[getElementByPath] ${path} is not a valid path`);
     return null;
   }
 
-  return current;
+  return current as HTMLElement;
+};
+
+/**
+ * Get the path of the parent element, stepping out of a shadow root to its host
+ * @param path - The path of the element
+ * @returns The path of the parent element
+ */
+export const getParentPath = (path: ElementPath): ElementPath => {
+  const parentPath = path.slice(0, -1);
+  return parentPath[parentPath.length - 1] === SHADOW_ROOT_SEGMENT
+    ? parentPath.slice(0, -1)
+    : parentPath;
+};
+
+/**
+ * Format a path for display
+ * @param path - The path to format
+ * @returns The path segments joined with " > "
+ */
+export const formatElementPath = (path: ElementPath): string => {
+  return path
+    .map((segment) => (segment === SHADOW_ROOT_SEGMENT ? '#shadow-root' : segment))
+    .join(' > ');
+};
+
+/**
+ * Get the element an event originated from, looking inside open shadow roots
+ * @param event - The event to get the target for
+ * @returns The innermost element in the event path, or null if there is none
+ */
+export const getDeepEventTarget = (event: Event): HTMLElement | null => {
+  const [origin] = event.composedPath();
+  if (origin instanceof HTMLElement) return origin;
+  return event.target instanceof HTMLElement ? event.target : null;
+};
+
+/**
+ * Find all elements matching a selector, including elements inside open shadow roots
+ * @param selector - The CSS selector to match
+ * @param root - The node to search from (default is the document)
+ * @returns The matching elements
+ */
+export const querySelectorAllDeep = (
+  selector: string,
+  root: Document | Element | ShadowRoot = document
+): Element[] => {
+  const matches = Array.from(root.querySelectorAll(selector));
+
+  root.querySelectorAll('*').forEach((element) => {
+    if (element.shadowRoot) {
+      matches.push(...querySelectorAllDeep(selector, element.shadowRoot));
+    }
+  });
+
+  return matches;
+};
+
+/** Direction to move from an element when navigating with the keyboard */
+export type NavigationDirection = 'parent' | 'firstChild' | 'previousSibling' | 'nextSibling';
+
+/**
+ * Get the element next to another one in the given direction. Moving up from the top of a shadow
+ * root goes to its host, and moving down from a shadow host enters its shadow root.
+ * @param element - The element to move from
+ * @param direction - The direction to move in
+ * @returns The element in that direction, or null if there is none
+ */
+export const getAdjacentElement = (
+  element: HTMLElement,
+  direction: NavigationDirection
+): HTMLElement | null => {
+  let next: Element | null = null;
+  switch (direction) {
+    case 'parent': {
+      const parentNode = element.parentNode;
+      next = parentNode instanceof ShadowRoot ? parentNode.host : element.parentElement;
+      break;
+    }
+    case 'firstChild':
+      next = element.shadowRoot?.firstElementChild ?? element.firstElementChild;
+      break;
+    case 'previousSibling':
+      next = element.previousElementSibling;
+      break;
+    case 'nextSibling':
+      next = element.nextElementSibling;
+      break;
+  }
+  return next instanceof HTMLElement ? next : null;
+};
+
+/**
+ * Get all elements stacked at a point, from the topmost down, including elements inside open
+ * shadow roots and elements that hit testing skips because of `pointer-events: none`
+ * @param x - The horizontal position in CSS pixels, relative to the viewport
+ * @param y - The vertical position in CSS pixels, relative to the viewport
+ * @returns The elements at the point, without the document element and the body
+ */
+export const getElementsAtPoint = (x: number, y: number): HTMLElement[] => {
+  const hitTest = (root: Document | ShadowRoot): Element[] => {
+    return root.elementsFromPoint(x, y).flatMap((element) => {
+      if (root instanceof ShadowRoot && element.getRootNode() !== root) return [];
+      // Elements inside a shadow root are painted above their host
+      return element.shadowRoot ? [...hitTest(element.shadowRoot), element] : [element];
+    });
+  };
+  const stack = hitTest(document);
+
+  // Place elements that ignore the pointer just above their nearest ancestor in the stack
+  querySelectorAllDeep('*', document.body).forEach((element) => {
+    if (stack.includes(element) || getComputedStyle(element).pointerEvents !== 'none') return;
+
+    const { left, top, right, bottom } = element.getBoundingClientRect();
+    if (x < left || x >= right || y < top || y >= bottom) return;
+
+    let ancestor = getAdjacentElement(element as HTMLElement, 'parent');
+    while (ancestor && !stack.includes(ancestor)) {
+      ancestor = getAdjacentElement(ancestor, 'parent');
+    }
+    stack.splice(ancestor ? stack.indexOf(ancestor) : 0, 0, element);
+  });
+
+  return stack.filter(
+    (element): element is HTMLElement =>
+      element instanceof HTMLElement &&
+      element !== document.body &&
+      element !== document.documentElement
+  );
+};
+
+/**
+ * Find the outermost elements that lie entirely within a rectangle, looking inside open shadow
+ * roots. Descendants of a matching element are not included.
+ * @param rect - The rectangle in CSS pixels, relative to the viewport
+ * @param root - The element to search from (default is the body)
+ * @returns The matching elements in document order
+ */
+export const getOutermostElementsInRect = (
+  rect: DOMRect,
+  root: Element = document.body
+): HTMLElement[] => {
+  const search = (container: Element | ShadowRoot): HTMLElement[] => {
+    return Array.from(container.children).flatMap((child) => {
+      if (!(child instanceof HTMLElement)) return [];
+
+      const bounds = child.getBoundingClientRect();
+      const isVisible = bounds.width > 0 && bounds.height > 0;
+      if (
+        isVisible &&
+        bounds.left >= rect.left &&
+        bounds.top >= rect.top &&
+        bounds.right <= rect.right &&
+        bounds.bottom <= rect.bottom
+      ) {
+        return [child];
+      }
+
+      // Only look further inside elements that overlap the rectangle
+      const overlaps =
+        bounds.left < rect.right &&
+        bounds.right > rect.left &&
+        bounds.top < rect.bottom &&
+        bounds.bottom > rect.top;
+      if (isVisible && !overlaps) return [];
+
+      return [...(child.shadowRoot ? search(child.shadowRoot) : []), ...search(child)];
+    });
+  };
+
+  return search(root);
 };
 
 /**
@@ -77,33 +268,207 @@ export const getDirectTextContent = (element: HTMLElement): string | undefined =
   );
 };
 
+/** Look up the frame ID of the document loaded in an iframe element */
+export type FrameIdResolver = (element: HTMLElement) => number | undefined;
+
+/** Limits that keep element trees small enough to send in one message */
+export interface TreeLimits {
+  /** Levels of descendants to include, unlimited if not set */
+  depth?: number;
+  /** Children to include per node, unlimited if not set */
+  pageSize?: number;
+}
+
+/** Children of a tree node, with the total number on the page */
+export interface ElementChildren {
+  children: ElementInfo[];
+  childCount: number;
+}
+
+/**
+ * Find the element or open shadow root a tree node path points to
+ * @param path - The path of the tree node, ending in the shadow root segment for shadow roots
+ * @returns The element or shadow root, or null if not found
+ */
+export const getTreeNodeByPath = (path: ElementPath): Element | ShadowRoot | null => {
+  if (path[path.length - 1] === SHADOW_ROOT_SEGMENT) {
+    return getElementByPath(path.slice(0, -1))?.shadowRoot ?? null;
+  }
+  return getElementByPath(path);
+};
+
 /**
- * Build a tree representation of an element and its children
+ * Build the trees of the children of an element or shadow root. An open shadow root is listed as
+ * the first child of its host.
+ * @param parent - The element or shadow root
+ * @param parentPath - The path of the parent
+ * @param offset - Index of the first child to include
+ * @param limits - Depth of each child tree and number of children to include
+ * @param resolveFrameId - Lookup of the frame IDs of iframes
+ * @returns The included children and the number of children on the page
+ */
+export const buildChildTrees = (
+  parent: Element | ShadowRoot,
+  parentPath: ElementPath,
+  offset = 0,
+  limits: TreeLimits = {},
+  resolveFrameId?: FrameIdResolver
+): ElementChildren => {
+  const shadowRoot = parent instanceof Element ? parent.shadowRoot : null;
+  const nodes: (Element | ShadowRoot)[] = [
+    ...(shadowRoot ? [shadowRoot] : []),
+    ...Array.from(parent.children),
+  ];
+  const end = limits.pageSize === undefined ? undefined : offset + limits.pageSize;
+
+  const children = nodes.slice(offset, end).map((node, index) => {
+    if (node instanceof ShadowRoot) {
+      return buildShadowRootTree(
+        node,
+        [...parentPath, SHADOW_ROOT_SEGMENT],
+        limits,
+        resolveFrameId
+      );
+    }
+    const childPath = [...parentPath, offset + index - (shadowRoot ? 1 : 0)];
+    return buildElementTree(node as HTMLElement, childPath, resolveFrameId, limits)[0];
+  });
+
+  return { children, childCount: nodes.length };
+};
+
+// Children of the next level down, or none once the depth limit is reached
+const buildLimitedChildren = (
+  parent: Element | ShadowRoot,
+  path: ElementPath,
+  limits: TreeLimits,
+  resolveFrameId?: FrameIdResolver
+): ElementChildren => {
+  const depth = limits.depth ?? Infinity;
+  if (depth <= 0) {
+    const shadowCount = parent instanceof Element && parent.shadowRoot ? 1 : 0;
+    return { children: [], childCount: parent.children.length + shadowCount };
+  }
+  return buildChildTrees(parent, path, 0, { ...limits, depth: depth - 1 }, resolveFrameId);
+};
+
+/**
+ * Build a tree representation of an element and its children. An open shadow root is listed as
+ * the first child of its host, and iframes carry the frame ID of their document when known.
+ * Children beyond the limits are left out and only counted.
  */
 export const buildElementTree = (
   element: HTMLElement,
-  currentPath: number[] = []
+  currentPath: ElementPath = [],
+  resolveFrameId?: FrameIdResolver,
+  limits: TreeLimits = {}
 ): ElementInfo[] => {
-  const children = Array.from(element.children).flatMap((child, index) => {
-    const childPath = [...currentPath, index];
-    return buildElementTree(child as HTMLElement, childPath);
-  });
+  const { children, childCount } = buildLimitedChildren(
+    element,
+    currentPath,
+    limits,
+    resolveFrameId
+  );
 
   return [
     {
       startTag: getElementStartTag(element),
-      computedStyle: getComputedStyle(element),
       path: currentPath,
       textContent: getDirectTextContent(element),
+      contentFrameId: resolveFrameId?.(element),
+      childCount,
       children,
     },
   ];
 };
 
+/**
+ * Build a tree representation of an open shadow root and its children
+ */
+const buildShadowRootTree = (
+  shadowRoot: ShadowRoot,
+  currentPath: ElementPath,
+  limits: TreeLimits,
+  resolveFrameId?: FrameIdResolver
+): ElementInfo => {
+  const { children, childCount } = buildLimitedChildren(
+    shadowRoot,
+    currentPath,
+    limits,
+    resolveFrameId
+  );
+
+  return {
+    startTag: SHADOW_ROOT_START_TAG,
+    path: currentPath,
+    isShadowRoot: true,
+    childCount,
+    children,
+  };
+};
+
 /**
  * Create an ElementInfo object for a given element
  */
-export const createElementInfo = (element: HTMLElement): ElementInfo => {
+export const createElementInfo = (
+  element: HTMLElement,
+  resolveFrameId?: FrameIdResolver,
+  limits: TreeLimits = {}
+): ElementInfo => {
   const path = getElementPath(element);
-  return buildElementTree(element, path)[0];
+  return buildElementTree(element, path, resolveFrameId, limits)[0];
 };
+
+// Replace the node at the path, copying only the nodes above it
+const updateTreeNode = (
+  tree: ElementInfo,
+  path: ElementPath,
+  update: (node: ElementInfo) => ElementInfo
+): ElementInfo => {
+  const isPrefix = tree.path.every((segment, index) => segment === path[index]);
+  if (!isPrefix || tree.path.length > path.length) return tree;
+
+  if (tree.path.length === path.length) {
+    return update(tree);
+  }
+
+  const children = tree.children.map((child) => updateTreeNode(child, path, update));
+  return children.some((child, index) => child !== tree.children[index])
+    ? { ...tree, children }
+    : tree;
+};
+
+/**
+ * Insert children loaded on demand into an element tree
+ * @param tree - The tree to insert into
+ * @param path - The path of the node the children belong to
+ * @param loaded - The loaded children, starting at the given offset
+ * @param offset - Index of the first loaded child
+ * @returns A copy of the tree with the children inserted, or the same tree if the node is not in it
+ */
+export const insertElementChildren = (
+  tree: ElementInfo,
+  path: ElementPath,
+  loaded: ElementChildren,
+  offset = 0
+): ElementInfo =>
+  updateTreeNode(tree, path, (node) => ({
+    ...node,
+    childCount: loaded.childCount,
+    children: [...node.children.slice(0, offset), ...loaded.children],
+  }));
+
+/**
+ * Apply changes observed on the page to an element tree, in order
+ * @param tree - The tree to update
+ * @param changes - The changes, each for the node at its path
+ * @returns A copy of the tree with the changes applied; changes to nodes not in it are ignored
+ */
+export const applyElementTreeChanges = (
+  tree: ElementInfo,
+  changes: ElementTreeChange[]
+): ElementInfo =>
+  changes.reduce<ElementInfo>(
+    (current, change) => updateTreeNode(current, change.path, (node) => ({ ...node, ...change })),
+    tree
+  );
@@ -0,0 +1,299 @@
+import {
+  ElementLocator,
+  LocatorResolution,
+  LocatorStrategy,
+  StableAttribute,
+} from '../types/types';
+import { getElementByPath, getElementPath, querySelectorAllDeep } from './domSelection';
+
+/** Separator between the selectors of nested shadow trees */
+export const SHADOW_SELECTOR_SEPARATOR = ' >>> ';
+
+/** Attributes recorded in a locator, in order of preference */
+const STABLE_ATTRIBUTES: StableAttribute[] = ['id', 'data-testid', 'aria-label'];
+
+/** Number of characters kept for the text fingerprint */
+const TEXT_FINGERPRINT_LENGTH = 64;
+
+const HTML_NAMESPACE = 'http://www.w3.org/1999/xhtml';
+
+const escapeCSS = (value: string): string => {
+  if (typeof CSS !== 'undefined' && CSS.escape) {
+    return CSS.escape(value);
+  }
+  return value.replace(/([^\w-])/g, '\\$1').replace(/^(\d)/, '\\3$1 ');
+};
+
+const escapeAttributeValue = (value: string): string => value.replace(/(["\\])/g, '\\$1');
+
+/**
+ * Get the start of the normalized text content of an element
+ * @param element - The element to get the fingerprint for
+ * @returns The first characters of the text with whitespace collapsed, or undefined if empty
+ */
+export const getTextFingerprint = (element: Element): string | undefined => {
+  const text = (element.textContent ?? '').replace(/\s+/g, ' ').trim();
+  return text ? text.slice(0, TEXT_FINGERPRINT_LENGTH) : undefined;
+};
+
+/**
+ * Build a selector for an element within its own document or shadow tree
+ */
+const buildScopeSelector = (element: Element): string => {
+  const root = element.getRootNode() as Document | ShadowRoot;
+  const parts: string[] = [];
+  let current: Element | null = element;
+
+  while (current) {
+    // A unique ID anchors the rest of the selector
+    if (current.id) {
+      const idSelector = `#${escapeCSS(current.id)}`;
+      if (root.querySelectorAll(idSelector).length === 1) {
+        parts.unshift(idSelector);
+        break;
+      }
+    }
+
+    const tagName = current.localName;
+    const parent: Element | null = current.parentElement;
+    const siblings: Element[] = parent
+      ? Array.from(parent.children)
+      : Array.from((current.parentNode as ParentNode | null)?.children ?? []);
+    const sameTag = siblings.filter((sibling) => sibling.localName === tagName);
+    parts.unshift(
+      sameTag.length > 1 ? `${tagName}:nth-of-type(${sameTag.indexOf(current) + 1})` : tagName
+    );
+
+    current = parent;
+  }
+
+  return parts.join(' > ');
+};
+
+/**
+ * Build a CSS selector for an element, joining the selectors of nested shadow trees
+ * @param element - The element to build the selector for
+ * @returns The selector, with shadow tree boundaries marked by " >>> "
+ */
+export const buildSelector = (element: Element): string => {
+  const scopes: string[] = [];
+  let current: Element = element;
+
+  for (;;) {
+    scopes.unshift(buildScopeSelector(current));
+    const root = current.getRootNode();
+    if (!(root instanceof ShadowRoot)) break;
+    current = root.host;
+  }
+
+  return scopes.join(SHADOW_SELECTOR_SEPARATOR);
+};
+
+/**
+ * Build an XPath for an element from the document
+ * @param element - The element to build the XPath for
+ * @returns The XPath, or undefined for elements inside shadow trees
+ */
+export const buildXPath = (element: Element): string | undefined => {
+  if (element.getRootNode() !== element.ownerDocument) return undefined;
+
+  const steps: string[] = [];
+  let current: Element | null = element;
+
+  while (current) {
+    const name = current.localName;
+    const step = current.namespaceURI === HTML_NAMESPACE ? name : `*[local-name()='${name}']`;
+    const parent: Element | null = current.parentElement;
+    const sameName = parent
+      ? Array.from(parent.children).filter(
+          (sibling) => sibling.localName === name && sibling.namespaceURI === current?.namespaceURI
+        )
+      : [current];
+    steps.unshift(sameName.length > 1 ? `${step}[${sameName.indexOf(current) + 1}]` : step);
+    current = parent;
+  }
+
+  return `/${steps.join('/')}`;
+};
+
+/**
+ * Create a locator recording several ways of finding an element
+ * @param element - The element to create the locator for
+ * @returns The locator
+ */
+export const createElementLocator = (element: HTMLElement): ElementLocator => {
+  const attributes: ElementLocator['attributes'] = {};
+  STABLE_ATTRIBUTES.forEach((name) => {
+    const value = element.getAttribute(name);
+    if (value) {
+      attributes[name] = value;
+    }
+  });
+
+  return {
+    path: getElementPath(element),
+    tagName: element.localName,
+    selector: buildSelector(element),
+    xpath: buildXPath(element),
+    attributes,
+    text: getTextFingerprint(element),
+  };
+};
+
+/**
+ * Find the elements matching a selector built by buildSelector
+ * @param selector - The selector, with shadow tree boundaries marked by " >>> "
+ * @returns The matching elements
+ */
+export const querySelectorChain = (selector: string): Element[] => {
+  const parts = selector.split(SHADOW_SELECTOR_SEPARATOR);
+  let scopes: (Document | ShadowRoot)[] = [document];
+  let matches: Element[] = [];
+
+  parts.forEach((part, index) => {
+    matches = scopes.flatMap((scope) => Array.from(scope.querySelectorAll(part)));
+    if (index < parts.length - 1) {
+      // Continue in the shadow trees of the hosts matched so far
+      scopes = matches.flatMap((match) => (match.shadowRoot ? [match.shadowRoot] : []));
+    }
+  });
+
+  return matches;
+};
+
+const evaluateXPath = (xpath: string): Element[] => {
+  const snapshot = document.evaluate(
+    xpath,
+    document,
+    null,
+    XPathResult.ORDERED_NODE_SNAPSHOT_TYPE,
+    null
+  );
+  const elements: Element[] = [];
+  for (let index = 0; index < snapshot.snapshotLength; index++) {
+    const node = snapshot.snapshotItem(index);
+    if (node instanceof Element) {
+      elements.push(node);
+    }
+  }
+  return elements;
+};
+
+/**
+ * Check whether a query typed by the user is an XPath rather than a CSS selector
+ */
+export const isXPathQuery = (query: string): boolean => /^(\/|\.\/|\.\.\/|\()/.test(query.trim());
+
+/**
+ * Find the elements matching a CSS selector or XPath, including elements inside open shadow roots
+ * for CSS selectors
+ * @param query - The CSS selector, optionally chained with " >>> ", or the XPath
+ * @returns The matching elements
+ * @throws If the query is not a valid selector or XPath
+ */
+export const queryElements = (query: string): HTMLElement[] => {
+  const trimmed = query.trim();
+  let elements: Element[];
+  if (isXPathQuery(trimmed)) {
+    elements = evaluateXPath(trimmed);
+  } else if (trimmed.includes(SHADOW_SELECTOR_SEPARATOR.trim())) {
+    elements = querySelectorChain(trimmed.split(/\s*>>>\s*/).join(SHADOW_SELECTOR_SEPARATOR));
+  } else {
+    elements = querySelectorAllDeep(trimmed);
+  }
+  return elements.filter((element): element is HTMLElement => element instanceof HTMLElement);
+};
+
+const matchesAttributes = (element: Element, locator: ElementLocator): boolean => {
+  return Object.entries(locator.attributes).every(
+    ([name, value]) => element.getAttribute(name) === value
+  );
+};
+
+// Structural matches only count if the element still looks like the recorded one
+const matchesFingerprint = (element: Element, locator: ElementLocator): boolean => {
+  return (
+    element.localName === locator.tagName &&
+    matchesAttributes(element, locator) &&
+    getTextFingerprint(element) === locator.text
+  );
+};
+
+const findByPath = (locator: ElementLocator): Element[] => {
+  const element = getElementByPath(locator.path);
+  return element && matchesFingerprint(element, locator) ? [element] : [];
+};
+
+const findByAttributes = (locator: ElementLocator): Element[] => {
+  const conditions = Object.entries(locator.attributes).map(
+    ([name, value]) => `[${name}="${escapeAttributeValue(value)}"]`
+  );
+  if (conditions.length === 0) return [];
+  return querySelectorAllDeep(`${locator.tagName}${conditions.join('')}`);
+};
+
+const findBySelector = (locator: ElementLocator): Element[] => {
+  return querySelectorChain(locator.selector).filter((element) =>
+    matchesFingerprint(element, locator)
+  );
+};
+
+const findByXPath = (locator: ElementLocator): Element[] => {
+  if (!locator.xpath) return [];
+  return evaluateXPath(locator.xpath).filter((element) => matchesFingerprint(element, locator));
+};
+
+const findByText = (locator: ElementLocator): Element[] => {
+  if (!locator.text) return [];
+  return querySelectorAllDeep(locator.tagName).filter(
+    (element) => getTextFingerprint(element) === locator.text
+  );
+};
+
+const STRATEGIES: [LocatorStrategy, (locator: ElementLocator) => Element[]][] = [
+  ['path', findByPath],
+  ['attributes', findByAttributes],
+  ['selector', findBySelector],
+  ['xpath', findByXPath],
+  ['text', findByText],
+];
+
+/**
+ * Find the element described by a locator. Strategies are tried in order until one matches a
+ * single element. If none does, the first match of the first strategy that found any is used.
+ * @param locator - The locator to resolve
+ * @returns The element with the strategy that found it
+ */
+export const resolveLocator = (locator: ElementLocator): LocatorResolution => {
+  let fallback: LocatorResolution | null = null;
+
+  for (const [strategy, find] of STRATEGIES) {
+    let candidates: Element[];
+    try {
+      candidates = Array.from(new Set(find(locator)));
+    } catch (error) {
+      // Selectors and XPaths from older pages may no longer be valid
+      continue;
+    }
+
+    if (candidates.length === 1) {
+      return { element: candidates[0] as HTMLElement, strategy, ambiguous: false };
+    }
+    if (candidates.length > 1 && !fallback) {
+      fallback = { element: candidates[0] as HTMLElement, strategy, ambiguous: true };
+    }
+  }
+
+  return fallback ?? { element: null, strategy: null, ambiguous: false };
+};
+
+/**
+ * Format a locator for display and reports
+ * @param locator - The locator to format
+ * @returns The CSS selector and XPath, one per line
+ */
+export const formatLocator = (locator: ElementLocator): string => {
+  return [`CSS: ${locator.selector}`, locator.xpath && `XPath: ${locator.xpath}`]
+    .filter(Boolean)
+    .join('\n');
+};
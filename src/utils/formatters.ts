@@ -1,3 +1,5 @@
+import { html as htmlBeautify } from 'js-beautify';
+
 /**
  * Format a timestamp to a string in the format "YYYY/MM/DD HH:MM:SS"
  * @param date - The date object to format
@@ -21,11 +23,16 @@ export const formatTimestamp = (date: Date): string => {
 /**
  * Generate a filename based on the timestamp
  * @param date - The date object to base the filename on
- * @param extension - The file extension (either 'pdf' or 'pptx')
+ * @param extension - The file extension ('pdf', 'pptx' or 'json')
+ * @param prefix - The start of the filename (default is 'capture')
  * @returns The generated filename string
  */
-export const generateFilename = (date: Date, extension: 'pdf' | 'pptx'): string => {
-  return `capture_${date
+export const generateFilename = (
+  date: Date,
+  extension: 'pdf' | 'pptx' | 'json',
+  prefix = 'capture'
+): string => {
+  return `${prefix}_${date
     .toLocaleString('ja-JP', {
       year: 'numeric',
       month: '2-digit',
@@ -37,3 +44,19 @@ export const generateFilename = (date: Date, extension: 'pdf' | 'pptx'): string
     .replace(/\//g, '/')
     .replace(/[\/\s:]/g, '_')}.${extension}`;
 };
+
+/**
+ * Indent HTML for reports and the clipboard
+ * @param html - The HTML to format
+ * @returns The formatted HTML string
+ */
+export const formatHTML = (html: string): string => {
+  return htmlBeautify(html, {
+    indent_size: 2,
+    indent_char: ' ',
+    max_preserve_newlines: 1,
+    preserve_newlines: true,
+    wrap_line_length: 0,
+    end_with_newline: false,
+  });
+};
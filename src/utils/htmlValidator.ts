@@ -192,3 +192,25 @@ export const isValidHtmlString = (htmlString: string): boolean => {
     return false;
   }
 };
+
+// Characters the HTML syntax does not allow in attribute names
+const INVALID_ATTRIBUTE_NAME_PATTERN = /[\s"'>/=\x00-\x1f\x7f]/;
+
+/**
+ * Check whether a string can be used as the name of an attribute of an HTML element
+ * @param name - The attribute name to check
+ * @returns True if the name is not empty and has no characters the HTML syntax forbids
+ */
+export const isValidAttributeName = (name: string): boolean =>
+  name.length > 0 && !INVALID_ATTRIBUTE_NAME_PATTERN.test(name);
+
+// Prefix of the attributes the extension keeps its own state in
+const RESERVED_ATTRIBUTE_PREFIX = 'data-extension-';
+
+/**
+ * Check whether an attribute can be set from the side panel
+ * @param name - The attribute name to check
+ * @returns True if the name is valid and not reserved for the extension
+ */
+export const isEditableAttributeName = (name: string): boolean =>
+  isValidAttributeName(name) && !name.toLowerCase().startsWith(RESERVED_ATTRIBUTE_PREFIX);
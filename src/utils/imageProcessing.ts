@@ -0,0 +1,249 @@
+import { CaptureRect } from '../types/types';
+
+/** Rectangle in image pixels */
+export interface PixelRegion {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+/**
+ * Map a rectangle in CSS pixels to a region of a captured image
+ * @param rect - The rectangle to crop, in CSS pixels relative to the viewport
+ * @param devicePixelRatio - The device pixel ratio of the captured page
+ * @param imageWidth - The width of the captured image in pixels
+ * @param imageHeight - The height of the captured image in pixels
+ * @param padding - Padding in CSS pixels added around the rectangle (default is 0)
+ * @returns The region in image pixels, clamped to the image bounds
+ */
+export const calculateCropRegion = (
+  rect: CaptureRect,
+  devicePixelRatio: number,
+  imageWidth: number,
+  imageHeight: number,
+  padding = 0
+): PixelRegion => {
+  const left = Math.max(0, Math.floor((rect.x - padding) * devicePixelRatio));
+  const top = Math.max(0, Math.floor((rect.y - padding) * devicePixelRatio));
+  const right = Math.min(imageWidth, Math.ceil((rect.x + rect.width + padding) * devicePixelRatio));
+  const bottom = Math.min(
+    imageHeight,
+    Math.ceil((rect.y + rect.height + padding) * devicePixelRatio)
+  );
+
+  return {
+    x: left,
+    y: top,
+    width: Math.max(0, right - left),
+    height: Math.max(0, bottom - top),
+  };
+};
+
+/**
+ * Intersect two rectangles
+ * @param a - The first rectangle
+ * @param b - The second rectangle
+ * @returns The overlapping rectangle, or null if the rectangles do not overlap
+ */
+export const intersectRects = (a: CaptureRect, b: CaptureRect): CaptureRect | null => {
+  const left = Math.max(a.x, b.x);
+  const top = Math.max(a.y, b.y);
+  const right = Math.min(a.x + a.width, b.x + b.width);
+  const bottom = Math.min(a.y + a.height, b.y + b.height);
+
+  if (right <= left || bottom <= top) {
+    return null;
+  }
+  return { x: left, y: top, width: right - left, height: bottom - top };
+};
+
+/**
+ * Decode an image data URL into an ImageBitmap
+ * @param dataUrl - The image data URL
+ * @returns A promise that resolves to the decoded image
+ */
+export const loadImageBitmap = async (dataUrl: string): Promise<ImageBitmap> => {
+  const response = await fetch(dataUrl);
+  const blob = await response.blob();
+  return createImageBitmap(blob);
+};
+
+/**
+ * Get the pixel dimensions of an image
+ * @param dataUrl - The image data URL
+ * @returns A promise that resolves to the width and height of the image
+ */
+export const getImageSize = async (dataUrl: string): Promise<{ width: number; height: number }> => {
+  const image = await loadImageBitmap(dataUrl);
+  const { width, height } = image;
+  image.close();
+  return { width, height };
+};
+
+/**
+ * Encode the content of a canvas as a PNG data URL
+ * @param canvas - The canvas to encode
+ * @returns A promise that resolves to the PNG data URL
+ */
+export const canvasToDataUrl = async (canvas: OffscreenCanvas): Promise<string> => {
+  const blob = await canvas.convertToBlob({ type: 'image/png' });
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(blob);
+  });
+};
+
+/**
+ * Crop an image to the given region
+ * @param dataUrl - The image data URL
+ * @param region - The region to keep, in image pixels
+ * @returns A promise that resolves to the cropped image as a PNG data URL
+ */
+export const cropImage = async (dataUrl: string, region: PixelRegion): Promise<string> => {
+  if (region.width <= 0 || region.height <= 0) {
+    throw new Error('Crop region is empty');
+  }
+
+  const image = await loadImageBitmap(dataUrl);
+  try {
+    const canvas = new OffscreenCanvas(region.width, region.height);
+    const context = canvas.getContext('2d');
+    if (!context) {
+      throw new Error('Failed to get 2D context');
+    }
+
+    context.drawImage(
+      image,
+      region.x,
+      region.y,
+      region.width,
+      region.height,
+      0,
+      0,
+      region.width,
+      region.height
+    );
+    return canvasToDataUrl(canvas);
+  } finally {
+    image.close();
+  }
+};
+
+/** An image to draw at a position of a stitched image */
+export interface ImageFrame {
+  /** The image data URL */
+  dataUrl: string;
+  /** Horizontal position of the frame in image pixels */
+  x: number;
+  /** Vertical position of the frame in image pixels */
+  y: number;
+  /** Part of the image to draw, the whole image if omitted */
+  source?: PixelRegion;
+}
+
+/** Maximum width or height of a canvas supported by Chrome */
+export const MAX_CANVAS_DIMENSION = 32767;
+
+/**
+ * Draw image frames onto one canvas. Later frames are drawn over earlier ones where they overlap.
+ * @param frames - The frames to stitch, with their positions in the resulting image
+ * @param width - The width of the resulting image in pixels
+ * @param height - The height of the resulting image in pixels
+ * @returns A promise that resolves to the stitched image as a PNG data URL
+ */
+export const stitchImages = async (
+  frames: ImageFrame[],
+  width: number,
+  height: number
+): Promise<string> => {
+  if (width > MAX_CANVAS_DIMENSION || height > MAX_CANVAS_DIMENSION) {
+    throw new Error(`Image size ${width}x${height} exceeds the canvas limit`);
+  }
+
+  const canvas = new OffscreenCanvas(width, height);
+  const context = canvas.getContext('2d');
+  if (!context) {
+    throw new Error('Failed to get 2D context');
+  }
+
+  for (const frame of frames) {
+    const image = await loadImageBitmap(frame.dataUrl);
+    const source = frame.source ?? { x: 0, y: 0, width: image.width, height: image.height };
+    context.drawImage(
+      image,
+      source.x,
+      source.y,
+      source.width,
+      source.height,
+      frame.x,
+      frame.y,
+      source.width,
+      source.height
+    );
+    image.close();
+  }
+
+  return canvasToDataUrl(canvas);
+};
+
+/** Images are split only when fitting them would shrink them by more than this factor */
+const SPLIT_THRESHOLD = 1.5;
+
+/**
+ * Calculate the slice height needed to show an image at full area width across several pages
+ * @param imageWidth - The width of the image in pixels
+ * @param imageHeight - The height of the image in pixels
+ * @param areaWidth - The width of the area on a page
+ * @param areaHeight - The height of the area on a page
+ * @returns The height of a slice in image pixels, or null if the image fits on one page
+ */
+export const calculateSliceHeight = (
+  imageWidth: number,
+  imageHeight: number,
+  areaWidth: number,
+  areaHeight: number
+): number | null => {
+  const sliceHeight = Math.floor((imageWidth * areaHeight) / areaWidth);
+  if (sliceHeight <= 0 || imageHeight <= sliceHeight * SPLIT_THRESHOLD) {
+    return null;
+  }
+  return sliceHeight;
+};
+
+/**
+ * Divide a height into evenly sized slices no taller than the given slice height
+ * @param totalHeight - The height to divide
+ * @param maxSliceHeight - The maximum height of a slice
+ * @returns The vertical offset and height of each slice
+ */
+export const calculateSlices = (
+  totalHeight: number,
+  maxSliceHeight: number
+): { y: number; height: number }[] => {
+  const count = Math.ceil(totalHeight / maxSliceHeight);
+  const sliceHeight = Math.ceil(totalHeight / count);
+
+  return Array.from({ length: count }, (_, index) => {
+    const y = index * sliceHeight;
+    return { y, height: Math.min(sliceHeight, totalHeight - y) };
+  });
+};
+
+/**
+ * Split an image into horizontal slices
+ * @param dataUrl - The image data URL
+ * @param maxSliceHeight - The maximum height of a slice in image pixels
+ * @returns A promise that resolves to the slices as PNG data URLs, from top to bottom
+ */
+export const splitImage = async (dataUrl: string, maxSliceHeight: number): Promise<string[]> => {
+  const { width, height } = await getImageSize(dataUrl);
+
+  const slices: string[] = [];
+  for (const slice of calculateSlices(height, maxSliceHeight)) {
+    slices.push(await cropImage(dataUrl, { x: 0, y: slice.y, width, height: slice.height }));
+  }
+  return slices;
+};
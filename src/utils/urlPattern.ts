@@ -0,0 +1,28 @@
+// Escape the characters with a meaning in regular expressions
+const escapeRegExp = (text: string): string => text.replace(/[.+?^${}()|[\]\\]/g, '\\$&');
+
+/**
+ * Check whether a URL matches a pattern, where "*" matches any characters and the rest of the
+ * pattern has to match the whole URL literally
+ * @param url - The URL to check
+ * @param pattern - The pattern, e.g. "https://example.com/docs/*"
+ * @returns Whether the URL matches the pattern
+ */
+export const matchesUrlPattern = (url: string, pattern: string): boolean => {
+  const source = pattern.split('*').map(escapeRegExp).join('.*');
+  return new RegExp(`^${source}$`).test(url);
+};
+
+/**
+ * Get the pattern suggested for a page: the same path with any query or hash
+ * @param url - The URL of the page
+ * @returns The pattern, or the URL itself if it cannot be parsed
+ */
+export const getDefaultUrlPattern = (url: string): string => {
+  try {
+    const { origin, pathname } = new URL(url);
+    return `${origin}${pathname}*`;
+  } catch (error) {
+    return url;
+  }
+};